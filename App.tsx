@@ -1,30 +1,150 @@
-import React, { useState, useEffect, useCallback } from 'react';
+import React, { useState, useEffect, useCallback, useRef } from 'react';
 import { ImageUploader } from './components/ImageUploader';
 import { Loader } from './components/Loader';
 import { AnalysisResult } from './components/AnalysisResult';
 import { HistoryPanel } from './components/HistoryPanel';
 import { ShareModal } from './components/ShareModal';
 import { VeoApiKeyModal } from './components/VeoApiKeyModal';
-import { AppState, ProcessState, LandmarkAnalysis, VoiceOption } from './types';
-import { identifyLandmark, fetchLandmarkHistory, narrateText, createVideoFromLandmark } from './services/geminiService';
+import { ErrorView } from './components/ErrorView';
+import { IdentificationPicker } from './components/IdentificationPicker';
+import { BatchProgress } from './components/BatchProgress';
+import { PendingQueue } from './components/PendingQueue';
+import { SharedAnalysisView } from './components/SharedAnalysisView';
+import { TourPlanner } from './components/TourPlanner';
+import { TourView } from './components/TourView';
+import { AppState, ProcessState, LandmarkAnalysis, VoiceOption, HistoryEntry, DetectedLandmark, LandmarkIdentificationResult, PhotoMetadata, TourOptions, TourStyle, ChatMessage, Tour, TourGrouping, TourStop, PendingPhoto } from './types';
+import { useAIProvider } from './contexts/AIProviderContext';
+import { listHistory, loadAnalysis, saveAnalysis, saveChatTranscript, clearHistory, migrateLegacyHistory, listTours, loadTourNarration, deleteTour, listPendingPhotos, queuePendingPhoto, updatePendingPhoto, deletePendingPhotos } from './services/historyRepository';
+import { createTour, createTourNarration } from './services/tourService';
+import { BookletFormat, exportBooklet } from './services/bookletService';
+import { clearResponseCache } from './services/responseCache';
+import type { LandmarkChatSession } from './services/aiProvider';
+import { isAbortError, RequestOptions } from './services/request';
+import { isPermanentFailure, toAppError } from './services/errors';
+import { useBatchAnalysis } from './hooks/useBatchAnalysis';
+import { useOnlineStatus } from './hooks/useOnlineStatus';
+import { useSharedAnalysis } from './hooks/useSharedAnalysis';
+import { readPhotoMetadata, preprocessImage, PreparedImage } from './utils/image';
+import { blobToBase64 } from './utils/encoding';
+import { downloadBlob } from './utils/files';
+import { createNarrationStream, NarrationStream } from './utils/audio';
+import { AudioExportFormat, exportNarrationWithCover, narrationFileName } from './utils/audioExport';
+import { DEFAULT_LANGUAGE, LANGUAGE_OPTIONS, getPreferredLanguage } from './utils/language';
+import { findTourStopEntry } from './utils/itinerary';
+import { DEFAULT_TOUR_OPTIONS, TOUR_LENGTH_OPTIONS, TOUR_STYLE_OPTIONS, loadTourOptions, saveTourOptions } from './utils/tour';
 import { HistoryIcon, ChevronDownIcon, UploadIcon, BrainIcon, BookIcon, SoundWaveIcon } from './components/icons';
 
+// Identifications below this confidence are confirmed by the user before any
+// history or narration calls are made.
+const LOW_CONFIDENCE_THRESHOLD = 0.75;
+
+/**
+ * Applies the user's chosen name to the primary detected landmark, so the
+ * photo overlay matches the corrected identification.
+ */
+function renamePrimaryLandmark(identification: LandmarkIdentificationResult, landmarkName: string): DetectedLandmark[] {
+    return identification.landmarks.map(landmark =>
+        landmark.name === identification.name ? { ...landmark, name: landmarkName } : landmark
+    ).filter((landmark, index, all) => all.findIndex(other => other.name === landmark.name) === index);
+}
+
+/**
+ * The result shown when a photo doesn't show a landmark the app can name.
+ * These are not added to the history.
+ */
+function createNonLandmarkAnalysis(
+    identification: LandmarkIdentificationResult,
+    image: { imageBase64: string, imageMimeType: string, photoMetadata?: PhotoMetadata },
+): LandmarkAnalysis {
+    return {
+        id: crypto.randomUUID(),
+        createdAt: Date.now(),
+        name: "Not a Landmark",
+        history: identification.description || "The image uploaded does not appear to contain a recognizable landmark.",
+        sources: [],
+        audioData: null,
+        ...image,
+        isLandmark: false,
+    };
+}
+
+/**
+ * Identifies an analysis among those of the current photo: the same landmark
+ * is analysed separately in each language.
+ */
+function photoAnalysisKey(landmarkName: string, language: string | undefined): string {
+    return `${landmarkName}|${language ?? DEFAULT_LANGUAGE}`;
+}
+
+interface GeneratedAnalysis {
+    analysis: LandmarkAnalysis;
+    narrationStream: NarrationStream;
+    /** When the history was first fetched, if it came from the response cache. */
+    cachedAt: number | null;
+}
+
+interface TourPreferences {
+    language: string;
+    tourOptions: TourOptions;
+}
+
+/**
+ * The language and tour options an existing analysis was generated with, so
+ * follow-up generations for the same photo match it.
+ */
+function getTourPreferences(analysis: LandmarkAnalysis): TourPreferences {
+    return {
+        language: analysis.language ?? DEFAULT_LANGUAGE,
+        tourOptions: analysis.tourOptions ?? DEFAULT_TOUR_OPTIONS,
+    };
+}
+
+/**
+ * Drops the EXIF orientation from a photo's metadata once the image itself
+ * has been turned upright, so it is not applied a second time.
+ */
+function withoutOrientation(metadata: PhotoMetadata): PhotoMetadata {
+    const { orientation, ...rest } = metadata;
+    return rest;
+}
+
 const App: React.FC = () => {
+    const provider = useAIProvider();
     const initialState: AppState = {
         processState: ProcessState.Idle,
         imageFile: null,
         imageDataUrl: null,
+        imageThumbnail: null,
+        photoMetadata: null,
+        identification: null,
         analysis: null,
         error: null,
         loadingMessage: '',
+        narrationStream: null,
+        cachedAt: null,
         videoUrl: null,
         isVeoKeyModalOpen: false,
     };
     
     const [state, setState] = useState<AppState>(initialState);
-    const [history, setHistory] = useState<LandmarkAnalysis[]>([]);
+    const [history, setHistory] = useState<HistoryEntry[]>([]);
     const [isHistoryPanelOpen, setIsHistoryPanelOpen] = useState(false);
     const [isShareModalOpen, setIsShareModalOpen] = useState(false);
+    const [tours, setTours] = useState<Tour[]>([]);
+    const [isTourPlannerOpen, setIsTourPlannerOpen] = useState(false);
+    const [activeTour, setActiveTour] = useState<Tour | null>(null);
+    const [tourProgress, setTourProgress] = useState<string | null>(null);
+    const [tourError, setTourError] = useState<string | null>(null);
+    // Analyses generated for the landmarks detected in the current photo, keyed by photoAnalysisKey
+    const photoAnalysesRef = useRef(new Map<string, GeneratedAnalysis>());
+    // Saves to history still in flight, by analysis id; transcript saves wait for them
+    const pendingSavesRef = useRef(new Map<string, Promise<void>>());
+    // Aborts the identification, history or video request the user is waiting on
+    const requestControllerRef = useRef<AbortController | null>(null);
+    // Repeats the step that led to the error screen, if it can be repeated
+    const retryRef = useRef<(() => void) | null>(null);
+    // Follow-up chat about the analysis currently shown
+    const chatSessionRef = useRef<{ analysisId: string, session: LandmarkChatSession } | null>(null);
     
     const voiceOptions: VoiceOption[] = [
         { id: 'Kore', name: 'Kore (Female)' },
@@ -34,147 +154,593 @@ const App: React.FC = () => {
         { id: 'Fenrir', name: 'Fenrir (Male)' },
     ];
     const [selectedVoice, setSelectedVoice] = useState<VoiceOption>(voiceOptions[0]);
+    const [selectedLanguage, setSelectedLanguage] = useState<string>(getPreferredLanguage);
+    const [tourOptions, setTourOptions] = useState<TourOptions>(loadTourOptions);
 
-    // Load history from localStorage on initial render
     useEffect(() => {
+        saveTourOptions(tourOptions);
+    }, [tourOptions]);
+
+    const refreshHistory = useCallback(async () => {
         try {
-            const savedHistory = localStorage.getItem('landmarkHistory');
-            if (savedHistory) {
-                setHistory(JSON.parse(savedHistory));
-            }
+            setHistory(await listHistory());
         } catch (error) {
-            console.error("Could not load history from localStorage:", error);
+            console.error("Could not load history:", error);
         }
     }, []);
 
-    // Save history to localStorage whenever it changes
+    const batch = useBatchAnalysis(refreshHistory);
+    const isOnline = useOnlineStatus();
+    // Set when the page was opened with a link to someone else's analysis
+    const sharedLink = useSharedAnalysis();
+    // Photos taken offline, analyzed in the background once the connection returns
+    const [pendingPhotos, setPendingPhotos] = useState<PendingPhoto[]>([]);
+    // The waiting photo each batch item analyzes, kept until the item finishes
+    const pendingPhotoItemsRef = useRef(new Map<string, PendingPhoto>());
+
+    // Migrate any localStorage history and load the saved entries on initial render
+    useEffect(() => {
+        migrateLegacyHistory()
+            .catch(error => console.error("Could not migrate history from localStorage:", error))
+            .then(refreshHistory);
+        listTours()
+            .then(setTours)
+            .catch(error => console.error("Could not load tours:", error));
+        // A photo whose failure may have been passing gets another try; one the
+        // model refused or couldn't answer stays in the queue until removed.
+        listPendingPhotos()
+            .then(photos => setPendingPhotos(photos.map(photo =>
+                photo.failure && !isPermanentFailure(photo.failure.kind) ? { ...photo, failure: undefined } : photo)))
+            .catch(error => console.error("Could not load waiting photos:", error));
+    }, [refreshHistory]);
+
+    useEffect(() => {
+        const waiting = pendingPhotos.filter(photo => !photo.failure);
+        if (!isOnline || waiting.length === 0) return;
+        const itemIds = batch.enqueue(waiting.map(photo => photo.file), { voiceName: selectedVoice.id, language: selectedLanguage, tourOptions });
+        itemIds.forEach((itemId, index) => pendingPhotoItemsRef.current.set(itemId, waiting[index]));
+        setPendingPhotos(current => current.filter(photo => photo.failure));
+    }, [isOnline, pendingPhotos, batch.enqueue, selectedVoice, selectedLanguage, tourOptions]);
+
+    // A waiting photo is only forgotten once it has been analyzed. One that
+    // failed stays stored with the reason, so the queue can show it once the
+    // batch is closed.
     useEffect(() => {
+        const analyzedIds: string[] = [];
+        batch.items.forEach(item => {
+            const photo = pendingPhotoItemsRef.current.get(item.id);
+            if (!photo) return;
+            if (item.status === 'done' || item.status === 'skipped') {
+                analyzedIds.push(photo.id);
+                pendingPhotoItemsRef.current.delete(item.id);
+            } else if (item.status === 'failed' && item.error && photo.failure?.message !== item.error) {
+                const failed: PendingPhoto = { ...photo, failure: { message: item.error, kind: item.errorKind ?? 'unknown' } };
+                pendingPhotoItemsRef.current.set(item.id, failed);
+                updatePendingPhoto(failed)
+                    .catch(error => console.error("Could not record why a waiting photo failed:", error));
+            }
+        });
+        if (analyzedIds.length === 0) return;
+        deletePendingPhotos(analyzedIds)
+            .catch(error => console.error("Could not remove analyzed photos from the queue:", error));
+    }, [batch.items]);
+
+    /**
+     * Keeps photos added without a connection until it returns, instead of
+     * letting their analysis fail.
+     */
+    const queuePhotosForLater = async (files: File[]) => {
         try {
-            localStorage.setItem('landmarkHistory', JSON.stringify(history));
-        } catch (error) {
-            console.error("Could not save history to localStorage:", error);
+            const queued = await Promise.all(files.map(queuePendingPhoto));
+            setPendingPhotos(current => [...current, ...queued]);
+            setState(initialState);
+        } catch (err) {
+            console.error("Could not queue photos:", err);
+            showError(err, "The photos could not be saved for later.", null, true);
         }
-    }, [history]);
+    };
+
+    const handleRemovePendingPhoto = (photo: PendingPhoto) => {
+        setPendingPhotos(current => current.filter(item => item.id !== photo.id));
+        deletePendingPhotos([photo.id])
+            .catch(error => console.error("Could not remove photo from the queue:", error));
+    };
 
-    const handleImageChange = (file: File) => {
-        const reader = new FileReader();
-        reader.onload = (e) => {
+    const handleImageChange = async (file: File, metadata?: PhotoMetadata) => {
+        photoAnalysesRef.current.clear();
+        if (!isOnline) {
+            queuePhotosForLater([file]);
+            return;
+        }
+        // EXIF data is read from the original: the prepared image no longer carries it.
+        const photoMetadata = metadata ?? await readPhotoMetadata(file);
+        try {
+            const image = await preprocessImage(file);
             setState({
                 ...initialState,
                 processState: ProcessState.ImageUploaded,
-                imageFile: file,
-                imageDataUrl: e.target?.result as string,
+                imageFile: image.file,
+                imageDataUrl: `data:${image.mimeType};base64,${image.base64}`,
+                imageThumbnail: image.thumbnail,
+                photoMetadata: withoutOrientation(photoMetadata),
             });
-        };
-        reader.readAsDataURL(file);
+        } catch (err) {
+            console.error("Could not prepare image:", err);
+            showError(err, "The image could not be opened.", null, true);
+        }
+    };
+
+    /**
+     * Shows the error screen for a failed step.
+     * @param retry Repeats the step, or null if it can't be repeated.
+     * @param discardResults Drops the analysis on screen instead of offering to return to it.
+     */
+    const showError = (err: unknown, fallbackMessage: string, retry: (() => void) | null, discardResults = false) => {
+        retryRef.current = retry;
+        const error = toAppError(err, fallbackMessage);
+        setState(s => ({ ...(discardResults ? initialState : s), processState: ProcessState.Error, error, loadingMessage: '' }));
+    };
+
+    /**
+     * Starts a request the user waits on, cancelling any earlier one.
+     * @returns The options to pass to the provider calls of the request.
+     */
+    const beginRequest = (): RequestOptions => {
+        requestControllerRef.current?.abort();
+        const controller = new AbortController();
+        requestControllerRef.current = controller;
+        return { signal: controller.signal };
+    };
+
+    /**
+     * Abandons the request in progress and returns to the last screen that
+     * still makes sense: the current analysis, or the photo awaiting analysis.
+     */
+    const handleCancelRequest = () => {
+        requestControllerRef.current?.abort();
+        requestControllerRef.current = null;
+        setState(s => {
+            if (s.analysis) {
+                return { ...s, processState: ProcessState.Done, loadingMessage: '' };
+            }
+            if (s.imageFile && s.imageDataUrl) {
+                return { ...s, processState: ProcessState.ImageUploaded, identification: null, loadingMessage: '' };
+            }
+            return initialState;
+        });
+    };
+
+    const handleMultipleImages = (files: File[]) => {
+        photoAnalysesRef.current.clear();
+        if (!isOnline) {
+            queuePhotosForLater(files);
+            return;
+        }
+        batch.enqueue(files, { voiceName: selectedVoice.id, language: selectedLanguage, tourOptions });
+        setState({ ...initialState, processState: ProcessState.BatchProcessing });
     };
 
+    const handleCloseBatch = () => {
+        if (!batch.isRunning) {
+            // Waiting photos that failed go back to the queue, where they can still be seen and removed.
+            const failed = batch.items.flatMap(item => {
+                const photo = pendingPhotoItemsRef.current.get(item.id);
+                pendingPhotoItemsRef.current.delete(item.id);
+                return photo && item.status === 'failed'
+                    ? [{ ...photo, failure: { message: item.error ?? "The analysis failed.", kind: item.errorKind ?? 'unknown' } }]
+                    : [];
+            });
+            if (failed.length > 0) {
+                setPendingPhotos(current => [...current, ...failed]);
+            }
+            batch.clear();
+        }
+        setState(initialState);
+    };
+
+    /**
+     * Fetches the history for one landmark and starts streaming its narration.
+     * The analysis is returned as soon as the text is ready; its audio is
+     * filled in, and the result saved to history, once the stream completes.
+     */
+    const generateAnalysis = useCallback(async (
+        landmarkName: string,
+        image: { imageBase64: string, imageMimeType: string, photoMetadata?: PhotoMetadata, thumbnail?: string },
+        detectedLandmarks: DetectedLandmark[],
+        preferences: TourPreferences = { language: selectedLanguage, tourOptions },
+        options: RequestOptions = {},
+    ): Promise<GeneratedAnalysis> => {
+        const { language } = preferences;
+        setState(s => ({ ...s, loadingMessage: `Found ${landmarkName}. Fetching history...`}));
+
+        let cachedAt: number | null = null;
+        const { text: historyText, sources } = await provider.fetchLandmarkHistory(landmarkName, language, preferences.tourOptions, {
+            ...options,
+            onCacheHit: storedAt => { cachedAt = storedAt; },
+        });
+
+        const analysis: LandmarkAnalysis = {
+            id: crypto.randomUUID(),
+            createdAt: Date.now(),
+            name: landmarkName,
+            history: historyText,
+            sources: sources,
+            audioData: null,
+            imageBase64: image.imageBase64,
+            imageMimeType: image.imageMimeType,
+            isLandmark: true,
+            detectedLandmarks,
+            photoMetadata: image.photoMetadata,
+            language,
+            tourOptions: preferences.tourOptions,
+        };
+
+        const narrationStream = createNarrationStream();
+        const generated: GeneratedAnalysis = { analysis, narrationStream, cachedAt };
+        const key = photoAnalysisKey(landmarkName, language);
+        photoAnalysesRef.current.set(key, generated);
+
+        // The narration outlives the request: it keeps streaming once the analysis is shown.
+        const saved = provider.narrateTextStream(historyText, selectedVoice.id, language, preferences.tourOptions, narrationStream.push, { refresh: options.refresh })
+            .then(audioData => {
+                // Start from the cached copy so follow-up questions asked meanwhile are kept.
+                const latest = photoAnalysesRef.current.get(key)?.analysis;
+                const completed: LandmarkAnalysis = { ...(latest?.id === analysis.id ? latest : analysis), audioData };
+                photoAnalysesRef.current.set(key, { ...generated, analysis: completed });
+                setState(s => s.analysis?.id === completed.id ? { ...s, analysis: { ...s.analysis, audioData } } : s);
+                narrationStream.complete();
+                return completed;
+            }, error => {
+                console.error("Narration failed:", error);
+                narrationStream.fail(error instanceof Error ? error : new Error("Failed to generate audio from text."));
+                return analysis;
+            })
+            .then(completed => saveAnalysis(completed, image.thumbnail))
+            .then(() => undefined, error => console.error("Could not save analysis to history:", error))
+            .finally(() => pendingSavesRef.current.delete(analysis.id));
+        pendingSavesRef.current.set(analysis.id, saved);
+        saved.then(refreshHistory);
+
+        return generated;
+    }, [provider, selectedVoice, selectedLanguage, tourOptions, refreshHistory]);
+
     const startAnalysis = useCallback(async () => {
         if (!state.imageFile || !state.imageDataUrl) return;
         
         const imageMimeType = state.imageFile.type;
         const imageBase64 = state.imageDataUrl.split(',')[1];
+        const photoMetadata = state.photoMetadata ?? undefined;
+        const options = beginRequest();
         
         try {
             setState(s => ({ ...s, processState: ProcessState.Loading, loadingMessage: 'Identifying landmark...' }));
 
-            const identification = await identifyLandmark(imageBase64, imageMimeType);
+            const identification = await provider.identifyLandmark(imageBase64, imageMimeType, photoMetadata, options);
             
-            if (!identification.isLandmark) {
-                const nonLandmarkAnalysis: LandmarkAnalysis = {
-                    name: "Not a Landmark",
-                    history: identification.description || "The image uploaded does not appear to contain a recognizable landmark.",
-                    sources: [],
-                    audioData: null,
-                    imageBase64,
-                    imageMimeType,
-                    isLandmark: false,
-                };
+            // A landmark without a name can't be looked up, so it is treated as none.
+            if (!identification.isLandmark || !identification.name) {
                 setState(s => ({ 
                     ...s, 
                     processState: ProcessState.Done,
-                    analysis: nonLandmarkAnalysis,
+                    analysis: createNonLandmarkAnalysis(identification, { imageBase64, imageMimeType, photoMetadata }),
                 }));
-                // Do not add non-landmarks to history
                 return;
             }
 
-            const landmarkName = identification.name!;
-            setState(s => ({ ...s, loadingMessage: `Found ${landmarkName}. Fetching history...`}));
+            if (identification.confidence < LOW_CONFIDENCE_THRESHOLD) {
+                setState(s => ({ ...s, processState: ProcessState.ConfirmingIdentification, identification }));
+                return;
+            }
 
-            const { text: historyText, sources } = await fetchLandmarkHistory(landmarkName);
+            const generated = await generateAnalysis(
+                identification.name,
+                { imageBase64, imageMimeType, photoMetadata, thumbnail: state.imageThumbnail ?? undefined },
+                identification.landmarks,
+                undefined,
+                options,
+            );
+            setState(s => ({ ...s, processState: ProcessState.Done, ...generated }));
 
-            setState(s => ({ ...s, loadingMessage: `Generating audio narration with ${selectedVoice.name} voice...` }));
+        } catch (err) {
+            // A cancelled request has already returned to a sensible screen.
+            if (isAbortError(err)) return;
+            console.error("Analysis failed:", err);
+            showError(err, "An unknown error occurred during analysis.", startAnalysis);
+        }
+    }, [provider, state.imageFile, state.imageDataUrl, state.imageThumbnail, state.photoMetadata, generateAnalysis]);
 
-            const audioData = await narrateText(historyText, selectedVoice.id);
+    /**
+     * Continues from a landmark recognised in live camera mode. The live feed
+     * already identified it, so only history and narration are fetched.
+     */
+    const handleLiveIdentification = async (file: File, photoMetadata: PhotoMetadata, identification: LandmarkIdentificationResult) => {
+        photoAnalysesRef.current.clear();
+        let image: PreparedImage;
+        try {
+            image = await preprocessImage(file);
+        } catch (err) {
+            console.error("Could not prepare image:", err);
+            showError(err, "The image could not be opened.", null, true);
+            return;
+        }
+        const imageState: AppState = {
+            ...initialState,
+            imageFile: image.file,
+            imageDataUrl: `data:${image.mimeType};base64,${image.base64}`,
+            imageThumbnail: image.thumbnail,
+            photoMetadata,
+            identification,
+        };
 
-            const finalAnalysis: LandmarkAnalysis = {
-                name: landmarkName,
-                history: historyText,
-                sources: sources,
-                audioData,
-                imageBase64,
-                imageMimeType,
-                isLandmark: true,
-            };
+        if (!identification.isLandmark || !identification.name) {
+            setState({
+                ...imageState,
+                processState: ProcessState.Done,
+                analysis: createNonLandmarkAnalysis(identification, { imageBase64: image.base64, imageMimeType: image.mimeType, photoMetadata }),
+            });
+            return;
+        }
+
+        if (identification.confidence < LOW_CONFIDENCE_THRESHOLD) {
+            setState({ ...imageState, processState: ProcessState.ConfirmingIdentification });
+            return;
+        }
+
+        setState({ ...imageState, processState: ProcessState.Loading, loadingMessage: `Fetching history for ${identification.name}...` });
+        const landmarkName = identification.name;
+        const options = beginRequest();
+        try {
+            const generated = await generateAnalysis(
+                landmarkName,
+                { imageBase64: image.base64, imageMimeType: image.mimeType, photoMetadata, thumbnail: image.thumbnail },
+                identification.landmarks,
+                undefined,
+                options,
+            );
+            setState(s => ({ ...s, processState: ProcessState.Done, ...generated }));
+        } catch (err) {
+            if (isAbortError(err)) return;
+            console.error("Analysis failed:", err);
+            showError(err, "An unknown error occurred during analysis.", () => handleLiveIdentification(file, photoMetadata, identification));
+        }
+    };
 
-            setState(s => ({ ...s, processState: ProcessState.Done, analysis: finalAnalysis }));
-            setHistory(prevHistory => [finalAnalysis, ...prevHistory.filter(item => item.name !== finalAnalysis.name)]);
+    const confirmIdentification = useCallback(async (landmarkName: string) => {
+        if (!state.imageFile || !state.imageDataUrl || !state.identification) return;
+
+        const imageMimeType = state.imageFile.type;
+        const imageBase64 = state.imageDataUrl.split(',')[1];
+        const detectedLandmarks = renamePrimaryLandmark(state.identification, landmarkName);
+        const options = beginRequest();
+
+        try {
+            setState(s => ({ ...s, processState: ProcessState.Loading, loadingMessage: `Fetching history for ${landmarkName}...` }));
 
+            const generated = await generateAnalysis(
+                landmarkName,
+                { imageBase64, imageMimeType, photoMetadata: state.photoMetadata ?? undefined, thumbnail: state.imageThumbnail ?? undefined },
+                detectedLandmarks,
+                undefined,
+                options,
+            );
+            setState(s => ({ ...s, processState: ProcessState.Done, ...generated }));
+
+        } catch (err) {
+            if (isAbortError(err)) return;
+            console.error("Analysis failed:", err);
+            showError(err, "An unknown error occurred during analysis.", () => confirmIdentification(landmarkName));
+        }
+    }, [state.imageFile, state.imageDataUrl, state.imageThumbnail, state.photoMetadata, state.identification, generateAnalysis]);
+
+    const handleSelectDetectedLandmark = useCallback(async (landmark: DetectedLandmark) => {
+        const current = state.analysis;
+        if (!current || landmark.name === current.name) return;
+
+        if (state.videoUrl) {
+            URL.revokeObjectURL(state.videoUrl);
+        }
+
+        const cached = photoAnalysesRef.current.get(photoAnalysisKey(landmark.name, current.language));
+        if (cached) {
+            setState(s => ({ ...s, processState: ProcessState.Done, ...cached, videoUrl: null }));
+            return;
+        }
+
+        setState(s => ({ ...s, processState: ProcessState.Loading, videoUrl: null, loadingMessage: `Fetching history for ${landmark.name}...` }));
+        const options = beginRequest();
+
+        try {
+            const generated = await generateAnalysis(
+                landmark.name,
+                { imageBase64: current.imageBase64, imageMimeType: current.imageMimeType, photoMetadata: current.photoMetadata },
+                current.detectedLandmarks ?? [],
+                getTourPreferences(current),
+                options,
+            );
+            setState(s => ({ ...s, processState: ProcessState.Done, ...generated }));
+        } catch (err) {
+            if (isAbortError(err)) return;
+            console.error("Analysis failed:", err);
+            showError(err, "An unknown error occurred during analysis.", () => handleSelectDetectedLandmark(landmark));
+        }
+    }, [state.analysis, state.videoUrl, generateAnalysis]);
+
+    /**
+     * Re-fetches the history and narration of the current landmark in another
+     * language, reusing the existing identification and photo.
+     */
+    const handleChangeLanguage = useCallback(async (language: string) => {
+        const current = state.analysis;
+        if (!current?.isLandmark || language === (current.language ?? DEFAULT_LANGUAGE)) return;
+
+        if (state.videoUrl) {
+            URL.revokeObjectURL(state.videoUrl);
+        }
+        setSelectedLanguage(language);
+
+        const cached = photoAnalysesRef.current.get(photoAnalysisKey(current.name, language));
+        if (cached) {
+            setState(s => ({ ...s, processState: ProcessState.Done, ...cached, videoUrl: null }));
+            return;
+        }
+
+        setState(s => ({ ...s, processState: ProcessState.Loading, videoUrl: null, loadingMessage: `Fetching history for ${current.name}...` }));
+        const options = beginRequest();
+
+        try {
+            const generated = await generateAnalysis(
+                current.name,
+                { imageBase64: current.imageBase64, imageMimeType: current.imageMimeType, photoMetadata: current.photoMetadata },
+                current.detectedLandmarks ?? [],
+                { ...getTourPreferences(current), language },
+                options,
+            );
+            setState(s => ({ ...s, processState: ProcessState.Done, ...generated }));
         } catch (err) {
+            if (isAbortError(err)) return;
             console.error("Analysis failed:", err);
-            const errorMessage = err instanceof Error ? err.message : "An unknown error occurred during analysis.";
-            setState(s => ({ ...s, processState: ProcessState.Error, error: errorMessage }));
+            showError(err, "An unknown error occurred during analysis.", () => handleChangeLanguage(language));
         }
-    }, [state.imageFile, state.imageDataUrl, selectedVoice]);
+    }, [state.analysis, state.videoUrl, generateAnalysis]);
+
+    /**
+     * Identifies the current photo and fetches its history and narration
+     * again, bypassing the response cache, e.g. when the saved copy looks
+     * outdated. A name the fresh identification isn't sure of doesn't replace
+     * the current one, which the user may have confirmed.
+     */
+    const handleRefreshAnalysis = useCallback(async () => {
+        const current = state.analysis;
+        if (!current?.isLandmark) return;
+
+        if (state.videoUrl) {
+            URL.revokeObjectURL(state.videoUrl);
+        }
+        photoAnalysesRef.current.delete(photoAnalysisKey(current.name, current.language));
+        setState(s => ({ ...s, processState: ProcessState.Loading, videoUrl: null, loadingMessage: 'Identifying landmark...' }));
+        const options = { ...beginRequest(), refresh: true };
+
+        try {
+            const identification = await provider.identifyLandmark(current.imageBase64, current.imageMimeType, current.photoMetadata, options);
+            const isConfident = identification.isLandmark && !!identification.name && identification.confidence >= LOW_CONFIDENCE_THRESHOLD;
+            const generated = await generateAnalysis(
+                isConfident ? identification.name! : current.name,
+                { imageBase64: current.imageBase64, imageMimeType: current.imageMimeType, photoMetadata: current.photoMetadata },
+                isConfident ? identification.landmarks : current.detectedLandmarks ?? [],
+                getTourPreferences(current),
+                options,
+            );
+            setState(s => ({ ...s, processState: ProcessState.Done, ...generated }));
+        } catch (err) {
+            if (isAbortError(err)) return;
+            console.error("Analysis failed:", err);
+            showError(err, "An unknown error occurred during analysis.", handleRefreshAnalysis);
+        }
+    }, [provider, state.analysis, state.videoUrl, generateAnalysis]);
+
+    /**
+     * Answers a follow-up question about the current landmark and records the
+     * exchange on the analysis and in its saved history item.
+     */
+    const handleAskQuestion = useCallback(async (question: string): Promise<ChatMessage> => {
+        const current = state.analysis;
+        if (!current?.isLandmark) {
+            throw new Error("There is no landmark to ask about.");
+        }
+
+        if (chatSessionRef.current?.analysisId !== current.id) {
+            chatSessionRef.current = {
+                analysisId: current.id,
+                session: provider.startLandmarkChat({
+                    landmarkName: current.name,
+                    history: current.history,
+                    imageBase64: current.imageBase64,
+                    imageMimeType: current.imageMimeType,
+                    language: current.language ?? DEFAULT_LANGUAGE,
+                    transcript: current.chatTranscript ?? [],
+                }),
+            };
+        }
+
+        const askedAt = Date.now();
+        const answer = await chatSessionRef.current.session.sendMessage(question);
+        const questionMessage: ChatMessage = { id: crypto.randomUUID(), role: 'user', text: question, sources: [], createdAt: askedAt };
+        const answerMessage: ChatMessage = { id: crypto.randomUUID(), role: 'assistant', text: answer.text, sources: answer.sources, createdAt: Date.now() };
+        const chatTranscript = [...(current.chatTranscript ?? []), questionMessage, answerMessage];
+
+        setState(s => s.analysis?.id === current.id ? { ...s, analysis: { ...s.analysis, chatTranscript } } : s);
+        const key = photoAnalysisKey(current.name, current.language);
+        const cached = photoAnalysesRef.current.get(key);
+        if (cached?.analysis.id === current.id) {
+            photoAnalysesRef.current.set(key, { ...cached, analysis: { ...cached.analysis, chatTranscript } });
+        }
+        // An analysis still being narrated isn't in the history yet: the transcript is saved once it is.
+        const pendingSave = pendingSavesRef.current.get(current.id) ?? Promise.resolve();
+        pendingSave
+            .then(() => saveChatTranscript(current.id, chatTranscript))
+            .then(saved => {
+                if (!saved) console.warn("Chat transcript not saved: the analysis is not in the history.");
+            })
+            .catch(error => console.error("Could not save chat transcript:", error));
+
+        return answerMessage;
+    }, [provider, state.analysis]);
+
+    const handleNarrateAnswer = useCallback((text: string): Promise<string> => {
+        const preferences = state.analysis ? getTourPreferences(state.analysis) : { language: selectedLanguage, tourOptions };
+        return provider.narrateText(text, selectedVoice.id, preferences.language, preferences.tourOptions);
+    }, [provider, state.analysis, selectedVoice, selectedLanguage, tourOptions]);
+
+    const handleTranscribeQuestion = useCallback(async (audio: Blob): Promise<string> => {
+        const language = state.analysis?.language ?? selectedLanguage;
+        const audioBase64 = await blobToBase64(audio);
+        return provider.transcribeSpeech(audioBase64, audio.type.split(';')[0] || 'audio/webm', language);
+    }, [provider, state.analysis, selectedLanguage]);
 
     const startVideoGeneration = useCallback(async () => {
         if (!state.analysis?.isLandmark) return;
 
         setState(s => ({ ...s, processState: ProcessState.GeneratingVideo, loadingMessage: 'Starting video generation...' }));
+        const options = beginRequest();
 
         try {
             const { imageBase64, imageMimeType, name } = state.analysis;
             
-            const downloadLink = await createVideoFromLandmark(name, { imageBase64, imageMimeType }, (message) => {
+            const videoBlob = await provider.createVideoFromLandmark(name, { imageBase64, imageMimeType }, (message) => {
+                if (options.signal?.aborted) return;
                 setState(s => ({ ...s, loadingMessage: message }));
-            });
+            }, options);
 
-            setState(s => ({ ...s, loadingMessage: 'Downloading generated video...' }));
-            const response = await fetch(`${downloadLink}&key=${process.env.API_KEY}`);
-            if (!response.ok) {
-                throw new Error(`Failed to download video: ${response.statusText}`);
-            }
-            const videoBlob = await response.blob();
             const objectUrl = URL.createObjectURL(videoBlob);
             
             setState(s => ({ ...s, videoUrl: objectUrl, processState: ProcessState.Done, loadingMessage: '' }));
 
         } catch (err) {
+            if (isAbortError(err)) return;
             console.error("Video generation failed:", err);
-            const errorMessage = err instanceof Error ? err.message : "An unknown error occurred during video generation.";
+            const error = toAppError(err, "An unknown error occurred during video generation.");
 
-            if (errorMessage.includes("Requested entity was not found")) {
-                setState(s => ({ 
-                    ...s, 
-                    processState: ProcessState.Done, 
-                    error: "Your API Key seems invalid for this feature. Please select a different key and try again.",
-                    isVeoKeyModalOpen: true
-                }));
+            if (provider.requiresVideoKeySelection && (error.kind === 'auth' || error.kind === 'not-found')) {
+                // Veo needs a key from a billing-enabled project; let the user pick one and go again.
+                setState(s => ({ ...s, processState: ProcessState.Done, loadingMessage: '', isVeoKeyModalOpen: true }));
             } else {
-                 setState(s => ({ ...s, processState: ProcessState.Error, error: errorMessage }));
+                showError(error, "An unknown error occurred during video generation.", startVideoGeneration);
             }
         }
-    }, [state.analysis]);
+    }, [provider, state.analysis]);
 
     const handleGenerateVideo = useCallback(async () => {
+        if (!provider.requiresVideoKeySelection) {
+            startVideoGeneration();
+            return;
+        }
         const hasKey = await window.aistudio.hasSelectedApiKey();
         if (!hasKey) {
             setState(s => ({...s, isVeoKeyModalOpen: true}));
         } else {
             startVideoGeneration();
         }
-    }, [startVideoGeneration]);
+    }, [provider, startVideoGeneration]);
 
     const handleSelectKey = useCallback(() => {
         window.aistudio.openSelectKey();
@@ -182,38 +748,185 @@ const App: React.FC = () => {
         setTimeout(startVideoGeneration, 500);
     }, [startVideoGeneration]);
     
+    const handleRetry = () => {
+        const retry = retryRef.current;
+        retryRef.current = null;
+        retry?.();
+    };
+
+    const handleSwitchKey = async () => {
+        await window.aistudio.openSelectKey();
+        handleRetry();
+    };
+
+    const handleBackToResult = () => {
+        retryRef.current = null;
+        setState(s => ({ ...s, processState: ProcessState.Done, error: null }));
+    };
+
     const handleReset = () => {
+        requestControllerRef.current?.abort();
         // Revoke the old video URL if it exists to prevent memory leaks
         if (state.videoUrl) {
             URL.revokeObjectURL(state.videoUrl);
         }
+        photoAnalysesRef.current.clear();
         setState(initialState);
     };
 
-    const handleSelectHistoryItem = (item: LandmarkAnalysis) => {
+    const handleSelectHistoryItem = async (entry: HistoryEntry) => {
+        sharedLink.close();
         if (state.videoUrl) {
             URL.revokeObjectURL(state.videoUrl);
         }
-        setState({
-            ...initialState,
-            processState: ProcessState.Done,
-            analysis: item,
-            imageDataUrl: `data:${item.imageMimeType};base64,${item.imageBase64}`
-        });
+        photoAnalysesRef.current.clear();
         setIsHistoryPanelOpen(false);
+        setState({ ...initialState, processState: ProcessState.Loading, loadingMessage: `Opening ${entry.name}...` });
+
+        try {
+            const item = await loadAnalysis(entry.id);
+            if (!item) {
+                throw new Error("This history item could not be found. It may have been deleted.");
+            }
+            setState({
+                ...initialState,
+                processState: ProcessState.Done,
+                analysis: item,
+                imageDataUrl: `data:${item.imageMimeType};base64,${item.imageBase64}`
+            });
+        } catch (err) {
+            console.error("Could not load history item:", err);
+            showError(err, "Could not load this history item.", null, true);
+            refreshHistory();
+        }
     };
 
-    const handleClearHistory = () => {
+    const handleClearHistory = async () => {
+        try {
+            await Promise.all([clearHistory(), clearResponseCache()]);
+        } catch (error) {
+            console.error("Could not clear history:", error);
+        }
         setHistory([]);
+        setTours([]);
         setIsHistoryPanelOpen(false);
     };
+
+    const handleCreateTour = async (entries: HistoryEntry[], grouping: TourGrouping, title: string) => {
+        const tour = await createTour(provider, entries, grouping, title, selectedLanguage);
+        setTours(current => [tour, ...current]);
+        setIsTourPlannerOpen(false);
+        setTourError(null);
+        setActiveTour(tour);
+    };
+
+    const handleNarrateTour = async () => {
+        if (!activeTour) return;
+        setTourError(null);
+        setTourProgress('Preparing narration...');
+        try {
+            const narrated = await createTourNarration(provider, activeTour, history, selectedVoice.id, tourOptions, setTourProgress);
+            setTours(current => current.map(tour => tour.id === narrated.id ? narrated : tour));
+            setActiveTour(current => current?.id === narrated.id ? narrated : current);
+        } catch (err) {
+            console.error("Could not create tour narration:", err);
+            setTourError(err instanceof Error ? err.message : "The tour narration could not be created. Please try again.");
+        } finally {
+            setTourProgress(null);
+        }
+    };
+
+    /**
+     * Saves the tour's narration in the chosen format, tagged with the tour's
+     * title and the first stop's photo as its cover.
+     */
+    const handleDownloadTour = async (format: AudioExportFormat) => {
+        if (!activeTour) return;
+        setTourError(null);
+        try {
+            const pcm = await loadTourNarration(activeTour.id);
+            if (!pcm) {
+                setTourError("This tour's narration could not be found. Please create it again.");
+                return;
+            }
+
+            const coverEntry = activeTour.stops.length > 0 ? findTourStopEntry(activeTour.stops[0], history) : undefined;
+            const firstStop = coverEntry
+                ? await loadAnalysis(coverEntry.id).catch(error => {
+                    console.warn("Could not load the first stop of the tour:", error);
+                    return null;
+                })
+                : null;
+            if (!coverEntry) {
+                console.warn(`The first stop of "${activeTour.title}" is no longer in the history; the tour is saved without a cover.`);
+            }
+            const cover = firstStop ? { base64: firstStop.imageBase64, mimeType: firstStop.imageMimeType } : undefined;
+            const blob = await exportNarrationWithCover(new Uint8Array(await pcm.arrayBuffer()), format, activeTour.title, cover);
+            downloadBlob(blob, narrationFileName(activeTour.title, 'tour', format));
+        } catch (err) {
+            console.error("Could not download tour narration:", err);
+            setTourError(err instanceof Error ? err.message : "The tour narration could not be downloaded.");
+        }
+    };
+
+    const handleDeleteTour = async () => {
+        if (!activeTour) return;
+        try {
+            await deleteTour(activeTour.id);
+            setTours(current => current.filter(tour => tour.id !== activeTour.id));
+            setActiveTour(null);
+        } catch (err) {
+            console.error("Could not delete tour:", err);
+            setTourError("The tour could not be deleted. Please try again.");
+        }
+    };
+
+    const handleOpenTourStop = (stop: TourStop) => {
+        const entry = findTourStopEntry(stop, history);
+        if (!entry) {
+            setTourError(`${stop.name} is no longer in your history.`);
+            return;
+        }
+        setActiveTour(null);
+        handleSelectHistoryItem(entry);
+    };
+
+    const handleOpenTour = (tour: Tour) => {
+        setIsHistoryPanelOpen(false);
+        setTourError(null);
+        setActiveTour(tour);
+    };
+
+    const handleExportBooklet = async (entries: HistoryEntry[], format: BookletFormat) => {
+        try {
+            await exportBooklet(entries, format);
+        } catch (err) {
+            console.error("Could not export booklet:", err);
+            throw err instanceof Error ? err : new Error("The booklet could not be created. Please try again.");
+        }
+    };
+
+    const handlePlanTour = () => {
+        setIsHistoryPanelOpen(false);
+        setIsTourPlannerOpen(true);
+    };
     
     const renderContent = () => {
         switch (state.processState) {
             case ProcessState.Idle:
                 return (
                      <div className="flex flex-col items-center justify-center w-full max-w-4xl mx-auto animate-fade-in">
-                        <ImageUploader onImageChange={handleImageChange} />
+                        {batch.items.length > 0 && (
+                            <button
+                                onClick={() => setState(s => ({ ...s, processState: ProcessState.BatchProcessing }))}
+                                className="w-full mb-6 bg-gray-800/70 border border-gray-700 rounded-xl py-3 px-4 text-left text-gray-200 hover:bg-gray-700/70 transition-colors"
+                            >
+                                {batch.isRunning ? 'Analyzing your photos in the background' : 'Your photos have been analyzed'}
+                                <span className="text-cyan-400 font-semibold"> · View progress</span>
+                            </button>
+                        )}
+                        <ImageUploader onImageChange={handleImageChange} onLiveIdentification={handleLiveIdentification} onMultipleImages={handleMultipleImages} />
+                        <PendingQueue photos={pendingPhotos} isOnline={isOnline} onRemove={handleRemovePendingPhoto} />
                         <div className="mt-16 w-full text-center">
                             <h2 className="text-2xl font-bold text-white mb-8 tracking-wide">How It Works</h2>
                             <div className="grid grid-cols-1 sm:grid-cols-2 lg:grid-cols-4 gap-8">
@@ -254,20 +967,67 @@ const App: React.FC = () => {
                     <div className="text-center animate-fade-in w-full max-w-lg mx-auto">
                         {state.imageDataUrl && <img src={state.imageDataUrl} alt="Uploaded preview" className="rounded-xl shadow-lg mb-6 w-full object-contain max-h-80"/>}
                          <div className="bg-gray-800/50 p-4 rounded-lg border border-gray-700">
-                             <div className="relative group mb-4">
-                                 <label htmlFor="voice-select" className="block text-sm font-medium text-gray-300 mb-1">Narration Voice</label>
-                                 <select 
-                                    id="voice-select"
-                                    value={selectedVoice.id} 
-                                    onChange={(e) => setSelectedVoice(voiceOptions.find(v => v.id === e.target.value)!)}
+                            <div className="grid grid-cols-1 sm:grid-cols-2 gap-4 mb-4">
+                                <div className="relative group">
+                                    <label htmlFor="voice-select" className="block text-sm font-medium text-gray-300 mb-1">Narration Voice</label>
+                                    <select 
+                                        id="voice-select"
+                                        value={selectedVoice.id} 
+                                        onChange={(e) => setSelectedVoice(voiceOptions.find(v => v.id === e.target.value)!)}
+                                        className="w-full appearance-none bg-gray-700 border border-gray-600 rounded-md py-2 pl-3 pr-10 text-white focus:outline-none focus:ring-2 focus:ring-cyan-500 focus:border-cyan-500"
+                                    >
+                                        {voiceOptions.map(voice => <option key={voice.id} value={voice.id}>{voice.name}</option>)}
+                                    </select>
+                                    <div className="pointer-events-none absolute inset-y-0 right-0 flex items-center px-2 text-gray-400">
+                                        <ChevronDownIcon className="w-5 h-5"/>
+                                    </div>
+                                </div>
+                                <div className="relative group">
+                                    <label htmlFor="language-select" className="block text-sm font-medium text-gray-300 mb-1">Language</label>
+                                    <select
+                                        id="language-select"
+                                        value={selectedLanguage}
+                                        onChange={(e) => setSelectedLanguage(e.target.value)}
+                                        className="w-full appearance-none bg-gray-700 border border-gray-600 rounded-md py-2 pl-3 pr-10 text-white focus:outline-none focus:ring-2 focus:ring-cyan-500 focus:border-cyan-500"
+                                    >
+                                        {LANGUAGE_OPTIONS.map(language => <option key={language.code} value={language.code}>{language.name}</option>)}
+                                    </select>
+                                    <div className="pointer-events-none absolute inset-y-0 right-0 flex items-center px-2 text-gray-400">
+                                        <ChevronDownIcon className="w-5 h-5"/>
+                                    </div>
+                                </div>
+                            </div>
+                            <div className="relative group mb-1">
+                                <label htmlFor="style-select" className="block text-sm font-medium text-gray-300 mb-1">Tour Style</label>
+                                <select
+                                    id="style-select"
+                                    value={tourOptions.style}
+                                    onChange={(e) => setTourOptions(options => ({ ...options, style: e.target.value as TourStyle }))}
                                     className="w-full appearance-none bg-gray-700 border border-gray-600 rounded-md py-2 pl-3 pr-10 text-white focus:outline-none focus:ring-2 focus:ring-cyan-500 focus:border-cyan-500"
                                 >
-                                    {voiceOptions.map(voice => <option key={voice.id} value={voice.id}>{voice.name}</option>)}
+                                    {TOUR_STYLE_OPTIONS.map(style => <option key={style.id} value={style.id}>{style.name}</option>)}
                                 </select>
                                 <div className="pointer-events-none absolute inset-y-0 right-0 flex items-center px-2 text-gray-400">
                                     <ChevronDownIcon className="w-5 h-5"/>
                                 </div>
                             </div>
+                            <p className="text-xs text-gray-400 text-left mb-4">{TOUR_STYLE_OPTIONS.find(style => style.id === tourOptions.style)?.description}</p>
+                            <div className="mb-4 text-left">
+                                <span id="length-label" className="block text-sm font-medium text-gray-300 mb-1">Tour Length</span>
+                                <div role="radiogroup" aria-labelledby="length-label" className="grid grid-cols-3 gap-2">
+                                    {TOUR_LENGTH_OPTIONS.map(length => (
+                                        <button
+                                            key={length.id}
+                                            role="radio"
+                                            aria-checked={tourOptions.length === length.id}
+                                            onClick={() => setTourOptions(options => ({ ...options, length: length.id }))}
+                                            className={`py-2 rounded-md text-sm font-semibold transition-colors duration-200 ${tourOptions.length === length.id ? 'bg-cyan-500 text-white' : 'bg-gray-700 text-gray-300 hover:bg-gray-600'}`}
+                                        >
+                                            {length.name}
+                                        </button>
+                                    ))}
+                                </div>
+                            </div>
                             <button 
                                 onClick={startAnalysis} 
                                 className="w-full bg-cyan-500 text-white font-bold py-3 px-6 rounded-lg shadow-md hover:bg-cyan-600 transition-all duration-300 transform hover:scale-105"
@@ -280,8 +1040,27 @@ const App: React.FC = () => {
                         </button>
                     </div>
                 );
+            case ProcessState.BatchProcessing:
+                return (
+                    <BatchProgress
+                        items={batch.items}
+                        isRunning={batch.isRunning}
+                        onRetry={batch.retry}
+                        onOpen={item => item.entry && handleSelectHistoryItem(item.entry)}
+                        onClose={handleCloseBatch}
+                    />
+                );
             case ProcessState.Loading:
-                return <Loader message={state.loadingMessage} />;
+                return <Loader message={state.loadingMessage} onCancel={handleCancelRequest} />;
+            case ProcessState.ConfirmingIdentification:
+                return state.identification && (
+                    <IdentificationPicker
+                        identification={state.identification}
+                        imageDataUrl={state.imageDataUrl}
+                        onConfirm={confirmIdentification}
+                        onCancel={handleReset}
+                    />
+                );
             case ProcessState.GeneratingVideo:
             case ProcessState.Done:
                 return state.analysis && (
@@ -290,20 +1069,30 @@ const App: React.FC = () => {
                         onNewAnalysis={handleReset} 
                         onShare={() => setIsShareModalOpen(true)}
                         onGenerateVideo={handleGenerateVideo}
+                        onSelectLandmark={handleSelectDetectedLandmark}
+                        onChangeLanguage={handleChangeLanguage}
+                        cachedAt={state.cachedAt}
+                        onRefresh={handleRefreshAnalysis}
+                        onAskQuestion={handleAskQuestion}
+                        onNarrateAnswer={handleNarrateAnswer}
+                        onTranscribeQuestion={handleTranscribeQuestion}
+                        narrationStream={state.narrationStream}
                         videoUrl={state.videoUrl}
                         isVideoLoading={state.processState === ProcessState.GeneratingVideo}
+                        onCancelVideo={handleCancelRequest}
                         videoLoadingMessage={state.loadingMessage}
                     />
                 );
             case ProcessState.Error:
-                return (
-                     <div className="text-center animate-fade-in p-8 bg-red-900/20 border border-red-500/50 rounded-lg max-w-lg mx-auto">
-                        <h3 className="text-2xl font-bold text-red-400 mb-4">An Error Occurred</h3>
-                        <p className="text-red-200 mb-6">{state.error}</p>
-                        <button onClick={handleReset} className="bg-red-500 text-white font-semibold py-2 px-6 rounded-lg hover:bg-red-600 transition-colors">
-                            Try Again
-                        </button>
-                    </div>
+                return state.error && (
+                    <ErrorView
+                        error={state.error}
+                        onRetry={retryRef.current ? handleRetry : undefined}
+                        onSwitchKey={provider.requiresVideoKeySelection && retryRef.current ? handleSwitchKey : undefined}
+                        onBackToResult={state.analysis ? handleBackToResult : undefined}
+                        onBrowseOffline={history.length > 0 ? () => setIsHistoryPanelOpen(true) : undefined}
+                        onChooseAnotherPhoto={handleReset}
+                    />
                 );
             default:
                 return null;
@@ -316,6 +1105,11 @@ const App: React.FC = () => {
                 <h1 className="text-2xl font-bold tracking-tight text-white">
                     Landmark<span className="text-cyan-400">Lens</span>
                 </h1>
+                {!isOnline && (
+                    <span className="ml-auto mr-3 px-3 py-1 rounded-full bg-yellow-500/20 text-sm font-semibold text-yellow-300" role="status">
+                        Offline
+                    </span>
+                )}
                 {history.length > 0 && (
                      <button 
                         onClick={() => setIsHistoryPanelOpen(true)}
@@ -329,7 +1123,14 @@ const App: React.FC = () => {
             </header>
             
             <main className="flex-grow flex items-center justify-center p-4 md:p-8">
-                {renderContent()}
+                {sharedLink.isShareLink ? (
+                    <SharedAnalysisView
+                        shared={sharedLink.shared}
+                        isLoading={sharedLink.isLoading}
+                        error={sharedLink.error}
+                        onOpenApp={sharedLink.close}
+                    />
+                ) : renderContent()}
             </main>
 
             {isHistoryPanelOpen && (
@@ -338,6 +1139,31 @@ const App: React.FC = () => {
                     onSelect={handleSelectHistoryItem} 
                     onClose={() => setIsHistoryPanelOpen(false)}
                     onClearHistory={handleClearHistory}
+                    tours={tours}
+                    onOpenTour={handleOpenTour}
+                    onExport={handleExportBooklet}
+                    onPlanTour={handlePlanTour}
+                />
+            )}
+
+            {isTourPlannerOpen && (
+                <TourPlanner
+                    history={history}
+                    onCreate={handleCreateTour}
+                    onClose={() => setIsTourPlannerOpen(false)}
+                />
+            )}
+
+            {activeTour && (
+                <TourView
+                    tour={activeTour}
+                    narrationProgress={tourProgress}
+                    error={tourError}
+                    onNarrate={handleNarrateTour}
+                    onDownload={handleDownloadTour}
+                    onDelete={handleDeleteTour}
+                    onOpenStop={handleOpenTourStop}
+                    onClose={() => setActiveTour(null)}
                 />
             )}
             
@@ -351,6 +1177,7 @@ const App: React.FC = () => {
             {isShareModalOpen && state.analysis && (
                 <ShareModal 
                     analysis={state.analysis}
+                    videoUrl={state.videoUrl}
                     onClose={() => setIsShareModalOpen(false)}
                 />
             )}
@@ -1,16 +1,39 @@
 import React, { useState, useEffect, useRef } from 'react';
-import { LandmarkAnalysis } from '../types';
-import { decodeAudioData, createWavBlobFromBase64 } from '../utils/audio';
-import { PlayIcon, PauseIcon, DownloadIcon, ShareIcon, VideoIcon } from './icons';
+import { LandmarkAnalysis, DetectedLandmark, ChatMessage } from '../types';
+import { NARRATION_SAMPLE_RATE, NarrationStream } from '../utils/audio';
+import { AUDIO_EXPORT_OPTIONS, AudioExportFormat, exportNarrationWithCover, narrationFileName } from '../utils/audioExport';
+import { base64ToBytes } from '../utils/encoding';
+import { downloadBlob } from '../utils/files';
+import { DownloadIcon, ShareIcon, VideoIcon } from './icons';
+import { LandmarkOverlay } from './LandmarkOverlay';
+import { NarrationPlayer, NarrationTranscript, getNarrationDuration } from './NarrationPlayer';
+import { ChatPanel } from './ChatPanel';
+import { useNarrationPlayer } from '../hooks/useNarrationPlayer';
+import { useAudioExportFormats } from '../hooks/useAudioExportFormats';
+import { DEFAULT_LANGUAGE, LANGUAGE_OPTIONS } from '../utils/language';
+import { describeTourOptions } from '../utils/tour';
+import { formatPhotoMetadata } from '../utils/format';
+import { AppError } from '../services/errors';
 
 interface AnalysisResultProps {
     analysis: LandmarkAnalysis;
     onNewAnalysis: () => void;
     onShare: () => void;
     onGenerateVideo: () => void;
+    onSelectLandmark: (landmark: DetectedLandmark) => void;
+    onChangeLanguage: (language: string) => void;
+    /** When the history was served from the response cache, or null if it was just fetched. */
+    cachedAt: number | null;
+    /** Fetches the history and narration again, bypassing the cache. */
+    onRefresh: () => void;
+    onAskQuestion: (question: string) => Promise<ChatMessage>;
+    onNarrateAnswer: (text: string) => Promise<string>;
+    onTranscribeQuestion: (audio: Blob) => Promise<string>;
+    narrationStream: NarrationStream | null;
     videoUrl: string | null;
     isVideoLoading: boolean;
     videoLoadingMessage: string;
+    onCancelVideo: () => void;
 }
 
 export const AnalysisResult: React.FC<AnalysisResultProps> = ({ 
@@ -18,74 +41,50 @@ export const AnalysisResult: React.FC<AnalysisResultProps> = ({
     onNewAnalysis, 
     onShare,
     onGenerateVideo,
+    onSelectLandmark,
+    onChangeLanguage,
+    cachedAt,
+    onRefresh,
+    onAskQuestion,
+    onNarrateAnswer,
+    onTranscribeQuestion,
+    narrationStream,
     videoUrl,
     isVideoLoading,
-    videoLoadingMessage
+    videoLoadingMessage,
+    onCancelVideo,
 }) => {
-    const [isPlaying, setIsPlaying] = useState(false);
-    const [audioBuffer, setAudioBuffer] = useState<AudioBuffer | null>(null);
+    const [imageSize, setImageSize] = useState<{ width: number, height: number } | null>(null);
+    const [audioContext, setAudioContext] = useState<AudioContext | null>(null);
     const audioContextRef = useRef<AudioContext | null>(null);
-    const audioSourceRef = useRef<AudioBufferSourceNode | null>(null);
+    const { formats: audioFormats, format: audioFormat, setFormat: setAudioFormat } = useAudioExportFormats();
+    const [isExportingAudio, setIsExportingAudio] = useState(false);
+    const [audioExportError, setAudioExportError] = useState<string | null>(null);
 
     useEffect(() => {
         if (!audioContextRef.current) {
-            audioContextRef.current = new (window.AudioContext || (window as any).webkitAudioContext)({ sampleRate: 24000 });
+            audioContextRef.current = new (window.AudioContext || (window as any).webkitAudioContext)({ sampleRate: NARRATION_SAMPLE_RATE });
+            setAudioContext(audioContextRef.current);
         }
-        
-        const setupAudio = async () => {
-            if (analysis.audioData && audioContextRef.current) {
-                try {
-                    const buffer = await decodeAudioData(analysis.audioData, audioContextRef.current);
-                    setAudioBuffer(buffer);
-                } catch (error) {
-                    console.error("Failed to decode audio data:", error);
-                }
-            }
-        };
+    }, []);
 
-        setupAudio();
+    const player = useNarrationPlayer(audioContext, analysis.audioData, narrationStream);
+    const narrationDuration = getNarrationDuration(player, analysis.history);
+    const language = analysis.language ?? DEFAULT_LANGUAGE;
+    const hasNarration = Boolean(analysis.audioData) || (narrationStream !== null && !(narrationStream.error && narrationStream.chunks.length === 0));
 
-        return () => {
-            if (audioSourceRef.current) {
-                audioSourceRef.current.stop();
-            }
-        };
-    }, [analysis.audioData]);
-
-    const togglePlayback = () => {
-        if (!audioContextRef.current || !audioBuffer) return;
-
-        if (isPlaying) {
-            audioSourceRef.current?.stop();
-            setIsPlaying(false);
-        } else {
-            if (audioContextRef.current.state === 'suspended') {
-                audioContextRef.current.resume();
-            }
-            const source = audioContextRef.current.createBufferSource();
-            source.buffer = audioBuffer;
-            source.connect(audioContextRef.current.destination);
-            source.start();
-            source.onended = () => {
-                setIsPlaying(false);
-                audioSourceRef.current = null;
-            };
-            audioSourceRef.current = source;
-            setIsPlaying(true);
-        }
-    };
-    
-    const handleDownloadAudio = () => {
-        if (analysis.audioData) {
-            const blob = createWavBlobFromBase64(analysis.audioData);
-            const url = URL.createObjectURL(blob);
-            const a = document.createElement('a');
-            a.href = url;
-            a.download = `${analysis.name.replace(/\s+/g, '_')}_narration.wav`;
-            document.body.appendChild(a);
-            a.click();
-            document.body.removeChild(a);
-            URL.revokeObjectURL(url);
+    const handleDownloadAudio = async () => {
+        if (!analysis.audioData) return;
+        setIsExportingAudio(true);
+        setAudioExportError(null);
+        try {
+            const blob = await exportNarrationWithCover(base64ToBytes(analysis.audioData), audioFormat, analysis.name, { base64: analysis.imageBase64, mimeType: analysis.imageMimeType });
+            downloadBlob(blob, narrationFileName(analysis.name, 'narration', audioFormat));
+        } catch (err) {
+            console.error("Could not export narration:", err);
+            setAudioExportError(err instanceof Error ? err.message : "The narration could not be saved.");
+        } finally {
+            setIsExportingAudio(false);
         }
     };
 
@@ -100,10 +99,20 @@ export const AnalysisResult: React.FC<AnalysisResultProps> = ({
                             <img 
                                 src={`data:${analysis.imageMimeType};base64,${analysis.imageBase64}`} 
                                 alt={analysis.name}
+                                onLoad={(e) => setImageSize({ width: e.currentTarget.naturalWidth, height: e.currentTarget.naturalHeight })}
                                 className="w-full h-full object-cover"
                             />
                          )}
                          <div className="absolute inset-0 bg-gradient-to-t from-black/60 to-transparent md:bg-gradient-to-r pointer-events-none"></div>
+                         {!videoUrl && imageSize && analysis.detectedLandmarks && analysis.detectedLandmarks.length > 0 && (
+                            <LandmarkOverlay
+                                landmarks={analysis.detectedLandmarks}
+                                imageWidth={imageSize.width}
+                                imageHeight={imageSize.height}
+                                selectedName={analysis.name}
+                                onSelect={onSelectLandmark}
+                            />
+                         )}
                          {isVideoLoading && (
                             <div className="absolute inset-0 bg-black/80 flex flex-col items-center justify-center text-center p-4">
                                 <svg className="w-12 h-12 animate-spin text-cyan-400" xmlns="http://www.w3.org/2000/svg" fill="none" viewBox="0 0 24 24">
@@ -112,14 +121,54 @@ export const AnalysisResult: React.FC<AnalysisResultProps> = ({
                                 </svg>
                                 <p className="mt-4 text-lg font-semibold text-gray-200">Creating Video Tour...</p>
                                 <p className="text-sm text-gray-400 mt-1">{videoLoadingMessage}</p>
+                                <button
+                                    onClick={onCancelVideo}
+                                    className="mt-4 bg-gray-700 text-white font-semibold py-2 px-5 rounded-lg hover:bg-gray-600 transition-colors"
+                                >
+                                    Cancel
+                                </button>
                             </div>
                          )}
                     </div>
 
                     <div className="p-6 flex flex-col">
                         <h2 className="text-3xl font-bold text-white mb-4">{analysis.name}</h2>
+                        {formatPhotoMetadata(analysis.photoMetadata) && (
+                            <p className="text-sm text-gray-400 -mt-2 mb-4">Photo taken {formatPhotoMetadata(analysis.photoMetadata)}</p>
+                        )}
+                        {analysis.isLandmark && (
+                            <div className="flex items-center gap-2 -mt-2 mb-4">
+                                <label htmlFor="result-language" className="text-sm text-gray-400">Language</label>
+                                <select
+                                    id="result-language"
+                                    value={language}
+                                    onChange={(e) => onChangeLanguage(e.target.value)}
+                                    disabled={isVideoLoading}
+                                    className="bg-gray-700 border border-gray-600 rounded-md py-1 px-2 text-sm text-white focus:outline-none focus:ring-2 focus:ring-cyan-500 focus:border-cyan-500 disabled:opacity-50"
+                                >
+                                    {LANGUAGE_OPTIONS.map(option => <option key={option.code} value={option.code}>{option.name}</option>)}
+                                </select>
+                                {analysis.tourOptions && (
+                                    <span className="text-sm text-gray-400 ml-auto">{describeTourOptions(analysis.tourOptions)}</span>
+                                )}
+                            </div>
+                        )}
+                        {cachedAt !== null && (
+                            <p className="flex items-center gap-2 text-sm text-gray-400 -mt-2 mb-4">
+                                <span className="px-2 py-0.5 rounded-full bg-gray-700 text-xs font-semibold text-cyan-300">Saved</span>
+                                Fetched {new Date(cachedAt).toLocaleDateString()}.
+                                <button onClick={onRefresh} disabled={isVideoLoading} className="text-cyan-400 hover:underline disabled:opacity-50">
+                                    Refresh
+                                </button>
+                            </p>
+                        )}
+                        {analysis.detectedLandmarks && analysis.detectedLandmarks.length > 1 && (
+                            <p className="text-sm text-gray-400 -mt-2 mb-4">
+                                {analysis.detectedLandmarks.length} landmarks detected. Tap a box on the photo to explore another.
+                            </p>
+                        )}
                         <div className="flex-grow overflow-y-auto max-h-[40vh] md:max-h-none pr-2 custom-scrollbar">
-                            <p className="text-gray-300 leading-relaxed whitespace-pre-wrap">{analysis.history}</p>
+                            <NarrationTranscript text={analysis.history} language={language} player={player} duration={narrationDuration} />
                             
                             {analysis.sources && analysis.sources.length > 0 && (
                                 <div className="mt-6">
@@ -156,17 +205,40 @@ export const AnalysisResult: React.FC<AnalysisResultProps> = ({
                                 </button>
                             )}
 
-                            {analysis.audioData && (
+                            {narrationStream && !narrationStream.done && (
+                                <p className="text-xs text-gray-400">Still generating the rest of the narration…</p>
+                            )}
+
+                            {narrationStream?.error && !analysis.audioData && (
+                                <p className="text-sm text-red-400">
+                                    {narrationStream.chunks.length > 0
+                                        ? 'The rest of the audio narration could not be generated.'
+                                        : 'The audio narration could not be generated.'}
+                                    {narrationStream.error instanceof AppError && ` ${narrationStream.error.message}`}
+                                </p>
+                            )}
+
+                            {hasNarration && (
                                 <div className="flex flex-col sm:flex-row items-center gap-4">
-                                    <button
-                                        onClick={togglePlayback}
-                                        className="w-full sm:w-auto flex items-center justify-center gap-2 bg-cyan-500 text-white font-semibold py-3 px-6 rounded-lg shadow-md hover:bg-cyan-600 transition-all duration-300 transform hover:scale-105 focus:outline-none focus:ring-2 focus:ring-offset-2 focus:ring-offset-gray-900 focus:ring-cyan-400"
-                                    >
-                                        {isPlaying ? <PauseIcon className="w-6 h-6"/> : <PlayIcon className="w-6 h-6"/>}
-                                        {isPlaying ? 'Pause' : 'Play Narration'}
-                                    </button>
+                                    <NarrationPlayer player={player} duration={narrationDuration} />
                                     <div className="flex items-center gap-2">
-                                        <button onClick={handleDownloadAudio} aria-label="Download audio" className="p-3 bg-gray-700/60 rounded-full text-gray-300 hover:bg-gray-600 hover:text-white transition-colors">
+                                        {audioFormats.length > 1 && (
+                                            <>
+                                                <label htmlFor="audio-format" className="sr-only">Audio format</label>
+                                                <select
+                                                    id="audio-format"
+                                                    value={audioFormat}
+                                                    onChange={(e) => setAudioFormat(e.target.value as AudioExportFormat)}
+                                                    disabled={!analysis.audioData || isExportingAudio}
+                                                    className="bg-gray-700/60 border border-gray-600 rounded-lg text-sm text-gray-200 px-2 py-2 focus:ring-2 focus:ring-cyan-500 focus:border-cyan-500 disabled:opacity-50"
+                                                >
+                                                    {AUDIO_EXPORT_OPTIONS.filter(option => audioFormats.includes(option.format)).map(option => (
+                                                        <option key={option.format} value={option.format}>{option.label}</option>
+                                                    ))}
+                                                </select>
+                                            </>
+                                        )}
+                                        <button onClick={handleDownloadAudio} disabled={!analysis.audioData || isExportingAudio} aria-label="Download audio" aria-busy={isExportingAudio} className={`disabled:opacity-50 disabled:cursor-not-allowed p-3 bg-gray-700/60 rounded-full text-gray-300 hover:bg-gray-600 hover:text-white transition-colors ${isExportingAudio ? 'animate-pulse' : ''}`}>
                                             <DownloadIcon className="w-6 h-6"/>
                                         </button>
                                         <button onClick={onShare} aria-label="Share result" className="p-3 bg-gray-700/60 rounded-full text-gray-300 hover:bg-gray-600 hover:text-white transition-colors">
@@ -175,10 +247,26 @@ export const AnalysisResult: React.FC<AnalysisResultProps> = ({
                                     </div>
                                 </div>
                             )}
+
+                            {audioExportError && <p className="text-sm text-red-400" role="alert">{audioExportError}</p>}
                         </div>
                     </div>
                 </div>
             </div>
+            {analysis.isLandmark && (
+                <div className="mt-6">
+                    <ChatPanel
+                        key={analysis.id}
+                        landmarkName={analysis.name}
+                        transcript={analysis.chatTranscript ?? []}
+                        audioContext={audioContext}
+                        onAsk={onAskQuestion}
+                        onTranscribe={onTranscribeQuestion}
+                        onNarrate={onNarrateAnswer}
+                        onBeforeSpeak={player.pause}
+                    />
+                </div>
+            )}
              <div className="mt-8 text-center">
                 <button 
                     onClick={onNewAnalysis}
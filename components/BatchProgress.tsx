@@ -0,0 +1,103 @@
+import React from 'react';
+import { BatchItem, BatchItemStatus } from '../hooks/useBatchAnalysis';
+import { CheckIcon } from './icons';
+
+interface BatchProgressProps {
+    items: BatchItem[];
+    isRunning: boolean;
+    onRetry: (id: string) => void;
+    onOpen: (item: BatchItem) => void;
+    onClose: () => void;
+}
+
+const STATUS_STYLES: Record<BatchItemStatus, string> = {
+    queued: 'text-gray-500',
+    running: 'text-cyan-300 animate-pulse',
+    done: 'text-green-400',
+    skipped: 'text-gray-400',
+    failed: 'text-red-400',
+};
+
+export const BatchProgress: React.FC<BatchProgressProps> = ({ items, isRunning, onRetry, onOpen, onClose }) => {
+    const count = (status: BatchItemStatus) => items.filter(item => item.status === status).length;
+    const finished = count('done') + count('skipped') + count('failed');
+    const percent = items.length > 0 ? Math.round((finished / items.length) * 100) : 0;
+    const failedItems = items.filter(item => item.status === 'failed');
+
+    return (
+        <div className="w-full max-w-3xl mx-auto bg-gray-800/50 backdrop-blur-sm rounded-2xl shadow-2xl border border-gray-700 p-6 animate-fade-in">
+            <div className="flex items-start justify-between gap-4 mb-4">
+                <div>
+                    <h2 className="text-2xl font-bold text-white">
+                        {isRunning ? `Analyzing ${items.length} photos` : `Analyzed ${items.length} photos`}
+                    </h2>
+                    <p className="text-sm text-gray-400 mt-1">
+                        {count('done')} saved · {count('skipped')} skipped · {count('failed')} failed
+                        {isRunning && ` · ${items.length - finished} remaining`}
+                    </p>
+                </div>
+                <button
+                    onClick={onClose}
+                    className="flex-shrink-0 bg-gray-700 text-white font-semibold py-2 px-4 rounded-lg hover:bg-gray-600 transition-colors"
+                >
+                    {isRunning ? 'Continue in background' : 'Done'}
+                </button>
+            </div>
+
+            <div
+                className="w-full h-2 bg-gray-700 rounded-full overflow-hidden mb-4"
+                role="progressbar"
+                aria-valuemin={0}
+                aria-valuemax={100}
+                aria-valuenow={percent}
+                aria-label="Batch progress"
+            >
+                <div className="h-full bg-cyan-500 transition-all duration-500" style={{ width: `${percent}%` }} />
+            </div>
+
+            {failedItems.length > 1 && (
+                <button
+                    onClick={() => failedItems.forEach(item => onRetry(item.id))}
+                    className="mb-4 text-sm text-cyan-400 hover:text-cyan-300 hover:underline"
+                >
+                    Retry all {failedItems.length} failed photos
+                </button>
+            )}
+
+            <ul className="space-y-2 max-h-[60vh] overflow-y-auto pr-2 custom-scrollbar" aria-live="polite">
+                {items.map(item => (
+                    <li key={item.id} className="flex items-center gap-3 bg-gray-900/60 rounded-lg p-2">
+                        {item.thumbnail ? (
+                            <img src={item.thumbnail} alt="" className="w-12 h-12 object-cover rounded-md flex-shrink-0" />
+                        ) : (
+                            <div className="w-12 h-12 rounded-md bg-gray-700 flex-shrink-0" aria-hidden="true" />
+                        )}
+                        <div className="flex-grow min-w-0">
+                            <p className="font-semibold text-gray-200 truncate">{item.landmarkName ?? item.fileName}</p>
+                            <p className={`text-xs truncate ${STATUS_STYLES[item.status]}`}>
+                                {item.status === 'failed' && item.error ? item.error : item.step}
+                            </p>
+                        </div>
+                        {item.status === 'done' && item.entry && (
+                            <button
+                                onClick={() => onOpen(item)}
+                                className="flex-shrink-0 flex items-center gap-1 text-sm text-green-400 hover:text-green-300"
+                            >
+                                <CheckIcon className="w-4 h-4" />
+                                View
+                            </button>
+                        )}
+                        {item.status === 'failed' && (
+                            <button
+                                onClick={() => onRetry(item.id)}
+                                className="flex-shrink-0 text-sm text-red-400 hover:text-red-300 hover:underline"
+                            >
+                                Retry
+                            </button>
+                        )}
+                    </li>
+                ))}
+            </ul>
+        </div>
+    );
+};
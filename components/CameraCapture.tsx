@@ -1,16 +1,44 @@
 import React, { useRef, useEffect, useState, useCallback } from 'react';
 import { CloseIcon, CameraIcon } from './icons';
+import { BoundingBox, LandmarkIdentificationResult, PhotoMetadata } from '../types';
+import { getCurrentPhotoMetadata } from '../utils/image';
+import { useLiveIdentification } from '../hooks/useLiveIdentification';
 
 interface CameraCaptureProps {
-    onCapture: (file: File) => void;
+    onCapture: (file: File, metadata: PhotoMetadata) => void;
+    /** Enables live mode; called when the user taps the label of a landmark recognised in the live feed. */
+    onLiveSelect?: (file: File, metadata: PhotoMetadata, identification: LandmarkIdentificationResult) => void;
     onClose: () => void;
 }
 
-export const CameraCapture: React.FC<CameraCaptureProps> = ({ onCapture, onClose }) => {
+/**
+ * Maps the centre-top of a normalised bounding box onto an `object-cover`
+ * video element, in percent of the element's size.
+ */
+function labelPosition(box: BoundingBox, video: HTMLVideoElement): { left: number, top: number } | null {
+    const { videoWidth, videoHeight, clientWidth, clientHeight } = video;
+    if (!videoWidth || !videoHeight || !clientWidth || !clientHeight) return null;
+    const scale = Math.max(clientWidth / videoWidth, clientHeight / videoHeight);
+    const offsetX = (videoWidth * scale - clientWidth) / 2;
+    const offsetY = (videoHeight * scale - clientHeight) / 2;
+    const x = ((box.xMin + box.xMax) / 2) * videoWidth * scale - offsetX;
+    const y = box.yMin * videoHeight * scale - offsetY;
+    return {
+        left: Math.min(90, Math.max(10, (x / clientWidth) * 100)),
+        top: Math.min(80, Math.max(12, (y / clientHeight) * 100)),
+    };
+}
+
+export const CameraCapture: React.FC<CameraCaptureProps> = ({ onCapture, onLiveSelect, onClose }) => {
     const videoRef = useRef<HTMLVideoElement>(null);
     const canvasRef = useRef<HTMLCanvasElement>(null);
     const streamRef = useRef<MediaStream | null>(null);
+    // Requested as soon as the camera opens so a position fix is ready by the time the user captures.
+    const locationRef = useRef<Promise<PhotoMetadata> | null>(null);
     const [error, setError] = useState<string | null>(null);
+    const [isLive, setIsLive] = useState(false);
+    const [liveHints, setLiveHints] = useState<PhotoMetadata | undefined>(undefined);
+    const live = useLiveIdentification(videoRef, isLive && !error, liveHints);
 
     const cleanupCamera = useCallback(() => {
         if (streamRef.current) {
@@ -26,6 +54,8 @@ export const CameraCapture: React.FC<CameraCaptureProps> = ({ onCapture, onClose
                     video: { facingMode: 'environment' } 
                 });
                 streamRef.current = stream;
+                locationRef.current = getCurrentPhotoMetadata();
+                locationRef.current.then(setLiveHints);
                 if (videoRef.current) {
                     videoRef.current.srcObject = stream;
                 }
@@ -52,7 +82,7 @@ export const CameraCapture: React.FC<CameraCaptureProps> = ({ onCapture, onClose
         };
     }, [cleanupCamera]);
 
-    const handleCapture = () => {
+    const captureStill = (onFile: (file: File, metadata: PhotoMetadata) => void) => {
         if (videoRef.current && canvasRef.current) {
             const video = videoRef.current;
             const canvas = canvasRef.current;
@@ -64,17 +94,31 @@ export const CameraCapture: React.FC<CameraCaptureProps> = ({ onCapture, onClose
             if(context) {
                 context.drawImage(video, 0, 0, canvas.width, canvas.height);
                 
-                canvas.toBlob((blob) => {
+                const capturedAt = new Date().toISOString();
+                canvas.toBlob(async (blob) => {
                     if (blob) {
                         const file = new File([blob], `capture-${Date.now()}.jpg`, { type: 'image/jpeg' });
-                        onCapture(file);
                         cleanupCamera();
+                        const location = await (locationRef.current ?? getCurrentPhotoMetadata());
+                        onFile(file, { ...location, capturedAt });
                     }
                 }, 'image/jpeg', 0.95);
             }
         }
     };
     
+    const handleCapture = () => captureStill(onCapture);
+
+    const handleSelectLiveLandmark = () => {
+        const identification = live.identification;
+        if (identification && onLiveSelect) {
+            captureStill((file, metadata) => onLiveSelect(file, metadata, identification));
+        }
+    };
+
+    const liveLandmark = live.identification?.landmarks.find(landmark => landmark.name === live.identification?.name);
+    const liveLabelPosition = liveLandmark && videoRef.current ? labelPosition(liveLandmark.boundingBox, videoRef.current) : null;
+
     const handleClose = () => {
         cleanupCamera();
         onClose();
@@ -92,6 +136,36 @@ export const CameraCapture: React.FC<CameraCaptureProps> = ({ onCapture, onClose
             />
             <canvas ref={canvasRef} className="hidden" />
 
+            {!error && isLive && live.identification && (
+                <button
+                    onClick={handleSelectLiveLandmark}
+                    style={liveLabelPosition ? { left: `${liveLabelPosition.left}%`, top: `${liveLabelPosition.top}%` } : { left: '50%', top: '40%' }}
+                    className="absolute -translate-x-1/2 -translate-y-full flex flex-col items-center transition-all duration-500 focus:outline-none group"
+                    aria-label={`Explore ${live.identification.name}`}
+                >
+                    <span className="bg-gray-900/85 text-white font-semibold py-2 px-4 rounded-full shadow-lg border border-cyan-400 group-hover:bg-cyan-600 group-focus:ring-2 group-focus:ring-cyan-400 whitespace-nowrap">
+                        {live.identification.name} <span className="text-cyan-300 text-sm">· Tap to explore</span>
+                    </span>
+                    <span className="w-0.5 h-6 bg-cyan-400" aria-hidden="true"></span>
+                </button>
+            )}
+
+            {!error && isLive && (
+                <p className="absolute top-16 left-1/2 -translate-x-1/2 bg-gray-900/70 text-sm text-gray-200 py-1 px-3 rounded-full" aria-live="polite">
+                    {live.error ?? (live.identification ? `Looking at ${live.identification.name}` : live.isIdentifying ? 'Looking for landmarks…' : 'Point your camera at a landmark')}
+                </p>
+            )}
+
+            {!error && onLiveSelect && (
+                <button
+                    onClick={() => setIsLive(value => !value)}
+                    aria-pressed={isLive}
+                    className={`absolute top-4 left-4 py-2 px-4 rounded-full text-sm font-semibold transition-colors duration-200 focus:outline-none focus:ring-2 focus:ring-cyan-400 ${isLive ? 'bg-cyan-500 text-white' : 'bg-gray-900/70 text-gray-200 hover:bg-gray-700'}`}
+                >
+                    {isLive ? '● Live' : 'Live mode'}
+                </button>
+            )}
+
             {error && (
                 <div className="absolute inset-0 bg-gray-900/80 flex flex-col items-center justify-center text-center p-4">
                     <p className="text-red-400 font-semibold mb-4">{error}</p>
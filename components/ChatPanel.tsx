@@ -0,0 +1,277 @@
+import React, { useState, useEffect, useRef } from 'react';
+import { ChatMessage } from '../types';
+import { decodeAudioData } from '../utils/audio';
+import { SoundWaveIcon, PauseIcon, MicrophoneIcon } from './icons';
+import { useVoiceRecorder } from '../hooks/useVoiceRecorder';
+
+interface ChatPanelProps {
+    landmarkName: string;
+    transcript: ChatMessage[];
+    audioContext: AudioContext | null;
+    /** Sends a question and resolves with the answer once it has been added to the transcript. */
+    onAsk: (question: string) => Promise<ChatMessage>;
+    /** Turns a recorded voice question into text. */
+    onTranscribe: (audio: Blob) => Promise<string>;
+    /** Synthesizes an answer with the selected voice; resolves with base64 PCM. */
+    onNarrate: (text: string) => Promise<string>;
+    /** Called before an answer is read aloud, e.g. to pause the main narration. */
+    onBeforeSpeak: () => void;
+}
+
+const SUGGESTED_QUESTIONS = ['When is it open?', 'Who designed it?', 'What should I not miss?'];
+// Holding the talk button at least this long means push-to-talk; a shorter tap starts a recording that the next tap sends.
+const HOLD_TO_TALK_MS = 400;
+
+export const ChatPanel: React.FC<ChatPanelProps> = ({ landmarkName, transcript, audioContext, onAsk, onTranscribe, onNarrate, onBeforeSpeak }) => {
+    const [question, setQuestion] = useState('');
+    const [pendingQuestion, setPendingQuestion] = useState<string | null>(null);
+    const [error, setError] = useState<string | null>(null);
+    const [readAloud, setReadAloud] = useState(false);
+    const [speakingId, setSpeakingId] = useState<string | null>(null);
+    const [narratingId, setNarratingId] = useState<string | null>(null);
+    const audioCacheRef = useRef(new Map<string, AudioBuffer>());
+    const sourceRef = useRef<AudioBufferSourceNode | null>(null);
+    const endRef = useRef<HTMLLIElement | null>(null);
+    const recorder = useVoiceRecorder();
+    const [isTranscribing, setIsTranscribing] = useState(false);
+    const recordingStartedAtRef = useRef<number | null>(null);
+
+    const stopSpeaking = () => {
+        if (sourceRef.current) {
+            sourceRef.current.onended = null;
+            sourceRef.current.stop();
+            sourceRef.current = null;
+        }
+        setSpeakingId(null);
+    };
+
+    useEffect(() => {
+        return () => {
+            sourceRef.current?.stop();
+        };
+    }, []);
+
+    useEffect(() => {
+        endRef.current?.scrollIntoView({ block: 'nearest', behavior: 'smooth' });
+    }, [transcript.length, pendingQuestion]);
+
+    const speak = async (message: ChatMessage) => {
+        if (!audioContext) return;
+        stopSpeaking();
+        onBeforeSpeak();
+
+        try {
+            let buffer = audioCacheRef.current.get(message.id);
+            if (!buffer) {
+                setNarratingId(message.id);
+                buffer = await decodeAudioData(await onNarrate(message.text), audioContext);
+                audioCacheRef.current.set(message.id, buffer);
+            }
+            if (audioContext.state === 'suspended') {
+                audioContext.resume();
+            }
+            const source = audioContext.createBufferSource();
+            source.buffer = buffer;
+            source.connect(audioContext.destination);
+            source.onended = () => {
+                sourceRef.current = null;
+                setSpeakingId(null);
+            };
+            source.start();
+            sourceRef.current = source;
+            setSpeakingId(message.id);
+        } catch (err) {
+            console.error("Could not narrate answer:", err);
+            setError("The answer could not be read aloud.");
+        } finally {
+            setNarratingId(null);
+        }
+    };
+
+    const ask = async (text: string, speakAnswer = readAloud) => {
+        const trimmed = text.trim();
+        if (!trimmed || pendingQuestion) return;
+
+        setError(null);
+        setQuestion('');
+        setPendingQuestion(trimmed);
+        try {
+            const answer = await onAsk(trimmed);
+            if (speakAnswer) {
+                speak(answer);
+            }
+        } catch (err) {
+            console.error("Question failed:", err);
+            setError(err instanceof Error ? err.message : "Could not get an answer. Please try again.");
+            setQuestion(trimmed);
+        } finally {
+            setPendingQuestion(null);
+        }
+    };
+
+    const finishRecording = async () => {
+        recordingStartedAtRef.current = null;
+        const audio = await recorder.stop();
+        if (!audio) return;
+
+        setIsTranscribing(true);
+        let spokenQuestion: string;
+        try {
+            spokenQuestion = await onTranscribe(audio);
+        } catch (err) {
+            console.error("Transcription failed:", err);
+            setError(err instanceof Error ? err.message : "Sorry, we couldn't make out your question. Please try again.");
+            return;
+        } finally {
+            setIsTranscribing(false);
+        }
+        // Questions asked out loud are always answered out loud.
+        ask(spokenQuestion, true);
+    };
+
+    const handleTalkStart = async () => {
+        if (pendingQuestion || isTranscribing) return;
+        if (recordingStartedAtRef.current !== null) {
+            finishRecording();
+            return;
+        }
+
+        setError(null);
+        stopSpeaking();
+        onBeforeSpeak();
+        if (await recorder.start()) {
+            recordingStartedAtRef.current = Date.now();
+        }
+    };
+
+    const handleTalkEnd = () => {
+        const startedAt = recordingStartedAtRef.current;
+        if (startedAt !== null && Date.now() - startedAt >= HOLD_TO_TALK_MS) {
+            finishRecording();
+        }
+    };
+
+    const handleSubmit = (event: React.FormEvent) => {
+        event.preventDefault();
+        ask(question);
+    };
+
+    return (
+        <div className="bg-gray-800/50 backdrop-blur-sm rounded-2xl shadow-2xl border border-gray-700 p-6">
+            <div className="flex items-center justify-between gap-4 mb-4">
+                <h3 className="text-lg font-bold text-white">Ask about {landmarkName}</h3>
+                <label className="flex items-center gap-2 text-sm text-gray-300 cursor-pointer">
+                    <input
+                        type="checkbox"
+                        checked={readAloud}
+                        onChange={(e) => setReadAloud(e.target.checked)}
+                        className="accent-cyan-500"
+                    />
+                    Read answers aloud
+                </label>
+            </div>
+
+            {transcript.length === 0 && !pendingQuestion && (
+                <div className="flex flex-wrap gap-2 mb-4">
+                    {SUGGESTED_QUESTIONS.map(suggestion => (
+                        <button
+                            key={suggestion}
+                            onClick={() => ask(suggestion)}
+                            className="text-sm bg-gray-700 text-gray-200 py-1 px-3 rounded-full hover:bg-gray-600 transition-colors"
+                        >
+                            {suggestion}
+                        </button>
+                    ))}
+                </div>
+            )}
+
+            {(transcript.length > 0 || pendingQuestion) && (
+                <ul className="space-y-3 mb-4 max-h-80 overflow-y-auto pr-2 custom-scrollbar" aria-live="polite">
+                    {transcript.map(message => (
+                        <li key={message.id} className={message.role === 'user' ? 'flex justify-end' : 'flex justify-start'}>
+                            {message.role === 'user' ? (
+                                <p className="max-w-[85%] bg-cyan-600 text-white rounded-2xl rounded-br-sm py-2 px-4">{message.text}</p>
+                            ) : (
+                                <div className="max-w-[85%] bg-gray-700 text-gray-200 rounded-2xl rounded-bl-sm py-2 px-4">
+                                    <p className="whitespace-pre-wrap">{message.text}</p>
+                                    {message.sources.some(source => source.web?.uri) && (
+                                        <ul className="mt-2 space-y-1">
+                                            {message.sources.map((source, index) => (
+                                                source.web?.uri &&
+                                                <li key={index}>
+                                                    <a
+                                                        href={source.web.uri}
+                                                        target="_blank"
+                                                        rel="noopener noreferrer"
+                                                        className="text-xs text-cyan-300 hover:text-cyan-200 break-all"
+                                                    >
+                                                        {source.web.title || source.web.uri}
+                                                    </a>
+                                                </li>
+                                            ))}
+                                        </ul>
+                                    )}
+                                    <button
+                                        onClick={() => speakingId === message.id ? stopSpeaking() : speak(message)}
+                                        disabled={narratingId !== null}
+                                        aria-label={speakingId === message.id ? 'Stop reading this answer' : 'Read this answer aloud'}
+                                        className="mt-2 flex items-center gap-1 text-xs text-gray-400 hover:text-white transition-colors disabled:opacity-50 disabled:cursor-not-allowed"
+                                    >
+                                        {speakingId === message.id ? <PauseIcon className="w-4 h-4"/> : <SoundWaveIcon className="w-4 h-4"/>}
+                                        {narratingId === message.id ? 'Preparing audio…' : speakingId === message.id ? 'Stop' : 'Listen'}
+                                    </button>
+                                </div>
+                            )}
+                        </li>
+                    ))}
+                    {pendingQuestion && (
+                        <>
+                            <li className="flex justify-end">
+                                <p className="max-w-[85%] bg-cyan-600 text-white rounded-2xl rounded-br-sm py-2 px-4">{pendingQuestion}</p>
+                            </li>
+                            <li className="flex justify-start">
+                                <p className="bg-gray-700 text-gray-400 rounded-2xl rounded-bl-sm py-2 px-4 animate-pulse">Thinking…</p>
+                            </li>
+                        </>
+                    )}
+                    <li ref={endRef} aria-hidden="true" />
+                </ul>
+            )}
+
+            {(error || recorder.error) && <p className="text-sm text-red-400 mb-2">{error || recorder.error}</p>}
+            {recorder.isRecording && <p className="text-sm text-cyan-300 mb-2 animate-pulse">Listening… release, or tap again, to ask.</p>}
+            {isTranscribing && <p className="text-sm text-gray-400 mb-2">Working out your question…</p>}
+
+            <form onSubmit={handleSubmit} className="flex items-center gap-2">
+                <input
+                    type="text"
+                    value={question}
+                    onChange={(e) => setQuestion(e.target.value)}
+                    placeholder="Ask a question, e.g. who was the architect?"
+                    aria-label="Your question"
+                    className="w-full bg-gray-900 border border-gray-600 rounded-lg px-3 py-2 text-gray-200 focus:ring-2 focus:ring-cyan-500 focus:border-cyan-500"
+                />
+                <button
+                    type="button"
+                    onPointerDown={handleTalkStart}
+                    onPointerUp={handleTalkEnd}
+                    onKeyDown={(e) => { if ((e.key === 'Enter' || e.key === ' ') && !e.repeat) { e.preventDefault(); handleTalkStart(); } }}
+                    onKeyUp={(e) => { if (e.key === 'Enter' || e.key === ' ') handleTalkEnd(); }}
+                    disabled={pendingQuestion !== null || isTranscribing}
+                    aria-label={recorder.isRecording ? 'Stop recording and ask' : 'Hold to ask a question out loud'}
+                    aria-pressed={recorder.isRecording}
+                    className={`flex-shrink-0 p-2 rounded-lg transition-colors duration-200 touch-none select-none disabled:opacity-50 disabled:cursor-not-allowed ${recorder.isRecording ? 'bg-red-500 text-white animate-pulse' : 'bg-gray-700 text-gray-200 hover:bg-gray-600'}`}
+                >
+                    <MicrophoneIcon className="w-6 h-6"/>
+                </button>
+                <button
+                    type="submit"
+                    disabled={!question.trim() || pendingQuestion !== null}
+                    className="flex-shrink-0 bg-cyan-500 hover:bg-cyan-600 text-white font-semibold py-2 px-4 rounded-lg transition-colors duration-200 disabled:bg-gray-500 disabled:cursor-not-allowed"
+                >
+                    Ask
+                </button>
+            </form>
+        </div>
+    );
+};
@@ -0,0 +1,67 @@
+import React from 'react';
+import { AppError, ErrorKind } from '../services/errors';
+
+interface ErrorViewProps {
+    error: AppError;
+    /** Repeats the step that failed; omitted when it can't be repeated. */
+    onRetry?: () => void;
+    /** Lets the user pick another API key; omitted when keys are configured outside the app. */
+    onSwitchKey?: () => void;
+    /** Returns to the analysis that was on screen before the step that failed. */
+    onBackToResult?: () => void;
+    /** Opens the saved history, which works without a connection. */
+    onBrowseOffline?: () => void;
+    onChooseAnotherPhoto: () => void;
+}
+
+type RecoveryAction = 'retry' | 'switch-key' | 'another-photo' | 'offline';
+
+const ERROR_DETAILS: Record<ErrorKind, { title: string, actions: RecoveryAction[] }> = {
+    'auth': { title: 'API Key Problem', actions: ['switch-key', 'retry'] },
+    'quota': { title: 'Usage Limit Reached', actions: ['retry', 'offline'] },
+    'safety': { title: 'Photo Not Allowed', actions: ['another-photo'] },
+    'network': { title: 'Connection Problem', actions: ['retry', 'offline'] },
+    'parse': { title: 'Unexpected Response', actions: ['retry'] },
+    'not-found': { title: 'Not Available', actions: ['switch-key', 'retry'] },
+    'timeout': { title: 'Request Timed Out', actions: ['retry', 'offline'] },
+    'unknown': { title: 'An Error Occurred', actions: ['retry'] },
+};
+
+const primaryButtonClass = "bg-red-500 text-white font-semibold py-2 px-6 rounded-lg hover:bg-red-600 transition-colors";
+const secondaryButtonClass = "bg-gray-700 text-white font-semibold py-2 px-6 rounded-lg hover:bg-gray-600 transition-colors";
+
+export const ErrorView: React.FC<ErrorViewProps> = ({ error, onRetry, onSwitchKey, onBackToResult, onBrowseOffline, onChooseAnotherPhoto }) => {
+    const { title, actions } = ERROR_DETAILS[error.kind];
+
+    const handlers: Record<RecoveryAction, { label: string, onClick?: () => void }> = {
+        'retry': { label: 'Try Again', onClick: onRetry },
+        'switch-key': { label: 'Switch API Key', onClick: onSwitchKey },
+        'another-photo': { label: 'Use a Different Photo', onClick: onChooseAnotherPhoto },
+        'offline': { label: 'Browse Saved History', onClick: onBrowseOffline },
+    };
+    const available = actions.filter(action => handlers[action].onClick);
+
+    return (
+        <div className="text-center animate-fade-in p-8 bg-red-900/20 border border-red-500/50 rounded-lg max-w-lg mx-auto" role="alert">
+            <h3 className="text-2xl font-bold text-red-400 mb-4">{title}</h3>
+            <p className="text-red-200 mb-6">{error.message}</p>
+            <div className="flex flex-wrap justify-center gap-3">
+                {available.map((action, index) => (
+                    <button key={action} onClick={handlers[action].onClick} className={index === 0 ? primaryButtonClass : secondaryButtonClass}>
+                        {handlers[action].label}
+                    </button>
+                ))}
+                {onBackToResult && (
+                    <button onClick={onBackToResult} className={available.length === 0 ? primaryButtonClass : secondaryButtonClass}>
+                        Back to Results
+                    </button>
+                )}
+                {!available.includes('another-photo') && (
+                    <button onClick={onChooseAnotherPhoto} className={available.length === 0 && !onBackToResult ? primaryButtonClass : secondaryButtonClass}>
+                        Start Over
+                    </button>
+                )}
+            </div>
+        </div>
+    );
+};
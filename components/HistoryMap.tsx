@@ -0,0 +1,216 @@
+import React, { useMemo, useState } from 'react';
+import { HistoryEntry, GeoPoint } from '../types';
+import { TILE_SIZE, PixelPoint, clusterPoints, fitBounds, project, unproject } from '../utils/geo';
+
+interface HistoryMapProps {
+    entries: HistoryEntry[];
+    onSelect: (entry: HistoryEntry) => void;
+}
+
+type LocatedEntry = HistoryEntry & { location: GeoPoint };
+
+const WIDTH = 400;
+const HEIGHT = 480;
+const CLUSTER_RADIUS = 28;
+const MIN_ZOOM = 1;
+const MAX_ZOOM = 18;
+// Optional slippy-map tile template such as "https://tiles.example.com/{z}/{x}/{y}.png".
+// Without one the map falls back to a plain SVG graticule, which works offline.
+const TILE_URL = process.env.MAP_TILE_URL;
+const TILE_ATTRIBUTION = process.env.MAP_TILE_ATTRIBUTION;
+const GRID_STEPS = [90, 45, 30, 15, 10, 5, 2, 1, 0.5, 0.2, 0.1, 0.05, 0.02, 0.01, 0.005, 0.002, 0.001];
+
+function visitTime(entry: HistoryEntry): number {
+    const capturedAt = entry.photoMetadata?.capturedAt ? Date.parse(entry.photoMetadata.capturedAt) : NaN;
+    return Number.isNaN(capturedAt) ? entry.createdAt : capturedAt;
+}
+
+function tilesForView(zoom: number, origin: PixelPoint) {
+    const tileCount = 2 ** zoom;
+    const tiles: { key: string, url: string, x: number, y: number }[] = [];
+    const firstX = Math.floor(origin.x / TILE_SIZE);
+    const lastX = Math.floor((origin.x + WIDTH) / TILE_SIZE);
+    const firstY = Math.max(0, Math.floor(origin.y / TILE_SIZE));
+    const lastY = Math.min(tileCount - 1, Math.floor((origin.y + HEIGHT) / TILE_SIZE));
+    for (let tx = firstX; tx <= lastX; tx++) {
+        for (let ty = firstY; ty <= lastY; ty++) {
+            const wrappedX = ((tx % tileCount) + tileCount) % tileCount;
+            tiles.push({
+                key: `${zoom}/${tx}/${ty}`,
+                url: TILE_URL!.replace('{z}', String(zoom)).replace('{x}', String(wrappedX)).replace('{y}', String(ty)),
+                x: tx * TILE_SIZE - origin.x,
+                y: ty * TILE_SIZE - origin.y,
+            });
+        }
+    }
+    return tiles;
+}
+
+/**
+ * Latitude/longitude grid lines for the offline fallback, spaced so that
+ * neighbouring lines are at least ~60px apart at the current zoom.
+ */
+function graticuleForView(zoom: number, origin: PixelPoint) {
+    const topLeft = unproject(origin, zoom);
+    const bottomRight = unproject({ x: origin.x + WIDTH, y: origin.y + HEIGHT }, zoom);
+    const degreesPerPixel = 360 / (TILE_SIZE * 2 ** zoom);
+    const step = [...GRID_STEPS].reverse().find(candidate => candidate / degreesPerPixel >= 60) ?? GRID_STEPS[0];
+
+    const longitudes: number[] = [];
+    for (let lon = Math.ceil(topLeft.longitude / step) * step; lon <= bottomRight.longitude; lon += step) {
+        longitudes.push(lon);
+    }
+    const latitudes: number[] = [];
+    for (let lat = Math.ceil(bottomRight.latitude / step) * step; lat <= topLeft.latitude; lat += step) {
+        latitudes.push(lat);
+    }
+    return {
+        vertical: longitudes.map(lon => project({ latitude: 0, longitude: lon }, zoom).x - origin.x),
+        horizontal: latitudes.map(lat => project({ latitude: lat, longitude: 0 }, zoom).y - origin.y),
+    };
+}
+
+export const HistoryMap: React.FC<HistoryMapProps> = ({ entries, onSelect }) => {
+    const [view, setView] = useState<{ zoom: number, origin: PixelPoint } | null>(null);
+    const [tilesFailed, setTilesFailed] = useState(false);
+
+    const locatedEntries = useMemo<LocatedEntry[]>(
+        () => entries
+            .filter((entry): entry is LocatedEntry => entry.location !== undefined)
+            .sort((a, b) => visitTime(a) - visitTime(b)),
+        [entries]
+    );
+
+    const fittedView = useMemo(
+        () => fitBounds(locatedEntries.map(entry => entry.location), WIDTH, HEIGHT),
+        [locatedEntries]
+    );
+    const { zoom, origin } = view ?? fittedView;
+
+    const toScreen = (point: GeoPoint): PixelPoint => {
+        const world = project(point, zoom);
+        return { x: world.x - origin.x, y: world.y - origin.y };
+    };
+
+    const clusters = clusterPoints<LocatedEntry>(locatedEntries, entry => toScreen(entry.location), CLUSTER_RADIUS);
+    const route = locatedEntries.map(entry => toScreen(entry.location));
+    const showTiles = Boolean(TILE_URL) && !tilesFailed;
+
+    const zoomBy = (delta: number) => {
+        const nextZoom = Math.min(MAX_ZOOM, Math.max(MIN_ZOOM, zoom + delta));
+        const center = unproject({ x: origin.x + WIDTH / 2, y: origin.y + HEIGHT / 2 }, zoom);
+        const projectedCenter = project(center, nextZoom);
+        setView({ zoom: nextZoom, origin: { x: projectedCenter.x - WIDTH / 2, y: projectedCenter.y - HEIGHT / 2 } });
+    };
+
+    const handleClusterClick = (items: LocatedEntry[]) => {
+        if (items.length === 1) {
+            onSelect(items[0]);
+            return;
+        }
+        const fitted = fitBounds(items.map(item => item.location), WIDTH, HEIGHT, 80, MAX_ZOOM);
+        // Entries at the exact same spot can never be separated; open the latest instead.
+        if (fitted.zoom <= zoom) {
+            onSelect(items[items.length - 1]);
+            return;
+        }
+        setView(fitted);
+    };
+
+    if (locatedEntries.length === 0) {
+        return (
+            <div className="text-center p-8 text-gray-500">
+                <p>None of your saved landmarks have a location yet.</p>
+            </div>
+        );
+    }
+
+    const graticule = showTiles ? null : graticuleForView(zoom, origin);
+    const unlocatedCount = entries.length - locatedEntries.length;
+
+    return (
+        <div className="p-4">
+            <div className="relative rounded-lg overflow-hidden border border-gray-700 bg-gray-800">
+                <svg viewBox={`0 0 ${WIDTH} ${HEIGHT}`} className="w-full h-auto block" role="img" aria-label="Map of visited landmarks">
+                    {showTiles ? (
+                        tilesForView(zoom, origin).map(tile => (
+                            <image
+                                key={tile.key}
+                                href={tile.url}
+                                x={tile.x}
+                                y={tile.y}
+                                width={TILE_SIZE}
+                                height={TILE_SIZE}
+                                onError={() => setTilesFailed(true)}
+                            />
+                        ))
+                    ) : (
+                        <g stroke="#374151" strokeWidth={1}>
+                            {graticule!.vertical.map(x => <line key={`v${x}`} x1={x} y1={0} x2={x} y2={HEIGHT} />)}
+                            {graticule!.horizontal.map(y => <line key={`h${y}`} x1={0} y1={y} x2={WIDTH} y2={y} />)}
+                        </g>
+                    )}
+
+                    {route.length > 1 && (
+                        <polyline
+                            points={route.map(point => `${point.x},${point.y}`).join(' ')}
+                            fill="none"
+                            stroke="#22d3ee"
+                            strokeOpacity={0.7}
+                            strokeWidth={2}
+                            strokeDasharray="6 4"
+                            strokeLinejoin="round"
+                        />
+                    )}
+
+                    {clusters.map(cluster => {
+                        const isGroup = cluster.items.length > 1;
+                        const label = isGroup
+                            ? `${cluster.items.length} landmarks: ${cluster.items.map(item => item.name).join(', ')}`
+                            : cluster.items[0].name;
+                        return (
+                            <g
+                                key={cluster.items.map(item => item.id).join('|')}
+                                transform={`translate(${cluster.x}, ${cluster.y})`}
+                                onClick={() => handleClusterClick(cluster.items)}
+                                onKeyDown={(e) => { if (e.key === 'Enter' || e.key === ' ') handleClusterClick(cluster.items); }}
+                                role="button"
+                                tabIndex={0}
+                                aria-label={label}
+                                className="cursor-pointer focus:outline-none"
+                            >
+                                <title>{label}</title>
+                                {isGroup ? (
+                                    <>
+                                        <circle r={16} fill="#0891b2" stroke="#ffffff" strokeWidth={2} />
+                                        <text textAnchor="middle" dy="0.35em" fontSize={13} fontWeight="bold" fill="#ffffff">{cluster.items.length}</text>
+                                    </>
+                                ) : (
+                                    <>
+                                        <path d="M0 0 C -4 -8 -10 -12 -10 -20 A 10 10 0 1 1 10 -20 C 10 -12 4 -8 0 0 Z" fill="#22d3ee" stroke="#ffffff" strokeWidth={2} />
+                                        <circle cy={-20} r={4} fill="#ffffff" />
+                                    </>
+                                )}
+                            </g>
+                        );
+                    })}
+                </svg>
+
+                <div className="absolute top-2 right-2 flex flex-col gap-1">
+                    <button onClick={() => zoomBy(1)} className="w-8 h-8 bg-gray-900/80 text-white rounded hover:bg-gray-700" aria-label="Zoom in">+</button>
+                    <button onClick={() => zoomBy(-1)} className="w-8 h-8 bg-gray-900/80 text-white rounded hover:bg-gray-700" aria-label="Zoom out">−</button>
+                    {view && (
+                        <button onClick={() => setView(null)} className="w-8 h-8 bg-gray-900/80 text-white text-xs rounded hover:bg-gray-700" aria-label="Show all landmarks">All</button>
+                    )}
+                </div>
+                {showTiles && TILE_ATTRIBUTION && (
+                    <p className="absolute bottom-0 right-0 bg-gray-900/70 text-[10px] text-gray-300 px-1">{TILE_ATTRIBUTION}</p>
+                )}
+            </div>
+            <p className="text-xs text-gray-500 mt-2">
+                The dashed line shows your route in the order the photos were taken.
+                {unlocatedCount > 0 && ` ${unlocatedCount} saved ${unlocatedCount === 1 ? 'landmark has' : 'landmarks have'} no location and ${unlocatedCount === 1 ? 'is' : 'are'} not shown.`}
+            </p>
+        </div>
+    );
+};
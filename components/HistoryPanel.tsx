@@ -1,21 +1,70 @@
 
 import React, { useState } from 'react';
-import { LandmarkAnalysis } from '../types';
-import { SearchIcon, CloseIcon, TrashIcon } from './icons';
+import { HistoryEntry, Tour } from '../types';
+import { SearchIcon, CloseIcon, TrashIcon, DownloadIcon } from './icons';
+import { formatPhotoMetadata } from '../utils/format';
+import { HistoryMap } from './HistoryMap';
+import { BookletFormat } from '../services/bookletService';
 
 interface HistoryPanelProps {
-    history: LandmarkAnalysis[];
-    onSelect: (item: LandmarkAnalysis) => void;
+    history: HistoryEntry[];
+    onSelect: (item: HistoryEntry) => void;
     onClose: () => void;
     onClearHistory: () => void;
+    tours: Tour[];
+    onOpenTour: (tour: Tour) => void;
+    onPlanTour: () => void;
+    /** Exports the chosen entries as a booklet. Rejects with a message to show when it fails. */
+    onExport: (entries: HistoryEntry[], format: BookletFormat) => Promise<void>;
 }
 
-export const HistoryPanel: React.FC<HistoryPanelProps> = ({ history, onSelect, onClose, onClearHistory }) => {
+export const HistoryPanel: React.FC<HistoryPanelProps> = ({ history, onSelect, onClose, onClearHistory, tours, onOpenTour, onPlanTour, onExport }) => {
     const [searchTerm, setSearchTerm] = useState('');
+    const [viewMode, setViewMode] = useState<'list' | 'map' | 'tours'>('list');
+    // Choosing entries for a booklet replaces opening them from the list.
+    const [isSelectingForExport, setIsSelectingForExport] = useState(false);
+    const [selectedIds, setSelectedIds] = useState<Set<string>>(new Set());
+    const [exportingFormat, setExportingFormat] = useState<BookletFormat | null>(null);
+    const [exportError, setExportError] = useState<string | null>(null);
 
     const filteredHistory = history.filter(item =>
         item.name.toLowerCase().includes(searchTerm.toLowerCase())
     );
+    const isSelecting = isSelectingForExport && viewMode === 'list';
+
+    const toggleEntry = (id: string) => {
+        setSelectedIds(current => {
+            const next = new Set(current);
+            if (next.has(id)) {
+                next.delete(id);
+            } else {
+                next.add(id);
+            }
+            return next;
+        });
+    };
+
+    const startExport = () => {
+        setViewMode('list');
+        setSelectedIds(new Set(filteredHistory.map(item => item.id)));
+        setExportError(null);
+        setIsSelectingForExport(true);
+    };
+
+    const handleExport = async (format: BookletFormat) => {
+        // Oldest first, so the booklet follows the order the places were visited.
+        const entries = history.filter(item => selectedIds.has(item.id)).sort((a, b) => a.createdAt - b.createdAt);
+        setExportError(null);
+        setExportingFormat(format);
+        try {
+            await onExport(entries, format);
+            setIsSelectingForExport(false);
+        } catch (err) {
+            setExportError(err instanceof Error ? err.message : "The booklet could not be created. Please try again.");
+        } finally {
+            setExportingFormat(null);
+        }
+    };
 
     return (
         <div className="fixed inset-0 bg-black/60 backdrop-blur-sm z-50 flex justify-end" role="dialog" aria-modal="true" aria-labelledby="history-panel-title">
@@ -46,27 +95,123 @@ export const HistoryPanel: React.FC<HistoryPanelProps> = ({ history, onSelect, o
                             className="w-full bg-gray-800 border border-gray-600 rounded-lg pl-10 pr-4 py-2 focus:ring-2 focus:ring-cyan-500 focus:border-cyan-500"
                         />
                     </div>
-                    {history.length > 0 && (
-                        <button 
-                            onClick={onClearHistory} 
-                            className="text-sm text-red-400 hover:text-red-300 hover:underline mt-3 flex items-center gap-1.5 transition-colors"
-                        >
-                            <TrashIcon className="w-4 h-4" />
-                            Clear All History
-                        </button>
+                    <div className="mt-3 flex rounded-lg bg-gray-800 p-1" role="tablist" aria-label="History view">
+                        {(['list', 'map', 'tours'] as const).map(mode => (
+                            <button
+                                key={mode}
+                                role="tab"
+                                aria-selected={viewMode === mode}
+                                onClick={() => setViewMode(mode)}
+                                className={`flex-1 py-1.5 text-sm font-semibold rounded-md transition-colors ${viewMode === mode ? 'bg-gray-600 text-white' : 'text-gray-400 hover:text-white'}`}
+                            >
+                                {mode === 'list' ? 'List' : mode === 'map' ? 'Map' : 'Tours'}
+                            </button>
+                        ))}
+                    </div>
+                    {history.length > 0 && !isSelecting && (
+                        <div className="mt-3 flex justify-between">
+                            <button 
+                                onClick={onClearHistory} 
+                                className="text-sm text-red-400 hover:text-red-300 hover:underline flex items-center gap-1.5 transition-colors"
+                            >
+                                <TrashIcon className="w-4 h-4" />
+                                Clear All History
+                            </button>
+                            <button
+                                onClick={startExport}
+                                className="text-sm text-cyan-400 hover:text-cyan-300 hover:underline flex items-center gap-1.5 transition-colors"
+                            >
+                                <DownloadIcon className="w-4 h-4" />
+                                Export Booklet
+                            </button>
+                        </div>
+                    )}
+                    {isSelecting && (
+                        <div className="mt-3">
+                            <div className="flex justify-between items-center text-sm mb-2">
+                                <span className="text-gray-300">{selectedIds.size} selected</span>
+                                <button onClick={() => setIsSelectingForExport(false)} className="text-gray-400 hover:text-white hover:underline">
+                                    Cancel
+                                </button>
+                            </div>
+                            <div className="flex gap-2">
+                                <button
+                                    onClick={() => handleExport('html')}
+                                    disabled={selectedIds.size === 0 || exportingFormat !== null}
+                                    className="flex-1 bg-cyan-500 hover:bg-cyan-600 text-white text-sm font-semibold py-2 rounded-lg transition-colors duration-200 disabled:bg-gray-600 disabled:cursor-not-allowed"
+                                >
+                                    {exportingFormat === 'html' ? 'Preparing...' : 'Offline Web Page'}
+                                </button>
+                                <button
+                                    onClick={() => handleExport('pdf')}
+                                    disabled={selectedIds.size === 0 || exportingFormat !== null}
+                                    className="flex-1 bg-gray-700 hover:bg-gray-600 text-white text-sm font-semibold py-2 rounded-lg transition-colors duration-200 disabled:bg-gray-600 disabled:cursor-not-allowed"
+                                >
+                                    {exportingFormat === 'pdf' ? 'Preparing...' : 'Print / PDF'}
+                                </button>
+                            </div>
+                            {exportError && <p className="text-sm text-red-400 mt-2" role="alert">{exportError}</p>}
+                        </div>
                     )}
                 </div>
 
-                {/* History List */}
+                {/* History List / Map */}
                 <div className="flex-grow overflow-y-auto">
-                    {filteredHistory.length > 0 ? (
+                    {viewMode === 'tours' ? (
+                        <div className="p-4">
+                            <button
+                                onClick={onPlanTour}
+                                disabled={history.length < 2}
+                                className="w-full bg-cyan-500 hover:bg-cyan-600 text-white font-semibold py-2 rounded-lg transition-colors duration-200 disabled:bg-gray-600 disabled:cursor-not-allowed"
+                            >
+                                Plan a Walking Tour
+                            </button>
+                            {history.length < 2 && (
+                                <p className="text-sm text-gray-500 mt-2 text-center">Analyze at least two landmarks to build a tour.</p>
+                            )}
+                            {tours.length > 0 && (
+                                <ul className="mt-4" aria-label="Saved tours">
+                                    {tours.map(tour => (
+                                        <li key={tour.id} className="border-b border-gray-800">
+                                            <button onClick={() => onOpenTour(tour)} className="w-full p-3 text-left hover:bg-gray-800/50 transition-colors duration-200">
+                                                <span className="font-semibold text-gray-200">{tour.title}</span>
+                                                <p className="text-xs text-gray-500 mt-1 truncate">
+                                                    {tour.stops.length} stops{tour.hasNarration ? ' · Narration ready' : ''} · {tour.stops.map(stop => stop.name).join(' → ')}
+                                                </p>
+                                            </button>
+                                        </li>
+                                    ))}
+                                </ul>
+                            )}
+                        </div>
+                    ) : viewMode === 'map' && filteredHistory.length > 0 ? (
+                        <HistoryMap entries={filteredHistory} onSelect={onSelect} />
+                    ) : filteredHistory.length > 0 ? (
                         <ul aria-label="Analysis history list">
-                            {filteredHistory.map((item, index) => (
-                                <li key={`${item.name}-${index}`} className="border-b border-gray-800">
-                                    <button onClick={() => onSelect(item)} className="w-full flex items-center gap-4 p-4 text-left hover:bg-gray-800/50 transition-colors duration-200">
-                                        <img src={`data:${item.imageMimeType};base64,${item.imageBase64}`} alt={item.name} className="w-16 h-16 object-cover rounded-md flex-shrink-0 bg-gray-700" />
-                                        <span className="font-semibold text-gray-200">{item.name}</span>
-                                    </button>
+                            {filteredHistory.map((item) => (
+                                <li key={item.id} className="border-b border-gray-800">
+                                    {isSelecting ? (
+                                        <label className="w-full flex items-center gap-4 p-4 hover:bg-gray-800/50 transition-colors duration-200 cursor-pointer">
+                                            <input
+                                                type="checkbox"
+                                                checked={selectedIds.has(item.id)}
+                                                onChange={() => toggleEntry(item.id)}
+                                                className="accent-cyan-500"
+                                            />
+                                            <img src={item.thumbnail} alt="" className="w-16 h-16 object-cover rounded-md flex-shrink-0 bg-gray-700" />
+                                            <span className="font-semibold text-gray-200">{item.name}</span>
+                                        </label>
+                                    ) : (
+                                        <button onClick={() => onSelect(item)} className="w-full flex items-center gap-4 p-4 text-left hover:bg-gray-800/50 transition-colors duration-200">
+                                            <img src={item.thumbnail} alt={item.name} className="w-16 h-16 object-cover rounded-md flex-shrink-0 bg-gray-700" />
+                                            <div className="min-w-0">
+                                                <span className="font-semibold text-gray-200">{item.name}</span>
+                                                {formatPhotoMetadata(item.photoMetadata) && (
+                                                    <p className="text-xs text-gray-500 mt-1 truncate">{formatPhotoMetadata(item.photoMetadata)}</p>
+                                                )}
+                                            </div>
+                                        </button>
+                                    )}
                                 </li>
                             ))}
                         </ul>
@@ -0,0 +1,74 @@
+import React, { useState } from 'react';
+import { LandmarkIdentificationResult } from '../types';
+
+interface IdentificationPickerProps {
+    identification: LandmarkIdentificationResult;
+    imageDataUrl: string | null;
+    onConfirm: (landmarkName: string) => void;
+    onCancel: () => void;
+}
+
+export const IdentificationPicker: React.FC<IdentificationPickerProps> = ({ identification, imageDataUrl, onConfirm, onCancel }) => {
+    const [correction, setCorrection] = useState('');
+
+    const candidates = [
+        { name: identification.name!, confidence: identification.confidence },
+        ...identification.alternatives,
+    ];
+
+    const handleSubmitCorrection = (event: React.FormEvent) => {
+        event.preventDefault();
+        const name = correction.trim();
+        if (name) {
+            onConfirm(name);
+        }
+    };
+
+    return (
+        <div className="text-center animate-fade-in w-full max-w-lg mx-auto">
+            {imageDataUrl && <img src={imageDataUrl} alt="Uploaded preview" className="rounded-xl shadow-lg mb-6 w-full object-contain max-h-64"/>}
+            <div className="bg-gray-800/50 p-4 rounded-lg border border-gray-700 text-left">
+                <h2 className="text-xl font-bold text-white mb-1">Did you mean…?</h2>
+                <p className="text-sm text-gray-400 mb-4">We're not completely sure which landmark this is. Pick the right one to continue.</p>
+
+                <ul className="space-y-2" aria-label="Possible landmarks">
+                    {candidates.map(candidate => (
+                        <li key={candidate.name}>
+                            <button
+                                onClick={() => onConfirm(candidate.name)}
+                                className="w-full flex items-center justify-between gap-4 bg-gray-700 hover:bg-gray-600 text-white py-3 px-4 rounded-lg transition-colors duration-200"
+                            >
+                                <span className="font-semibold">{candidate.name}</span>
+                                <span className="text-sm text-gray-400 flex-shrink-0">{Math.round(candidate.confidence * 100)}%</span>
+                            </button>
+                        </li>
+                    ))}
+                </ul>
+
+                <form onSubmit={handleSubmitCorrection} className="mt-4">
+                    <label htmlFor="landmark-correction" className="block text-sm font-medium text-gray-300 mb-1">None of these? Enter the landmark name</label>
+                    <div className="flex items-center gap-2">
+                        <input
+                            id="landmark-correction"
+                            type="text"
+                            value={correction}
+                            onChange={(e) => setCorrection(e.target.value)}
+                            placeholder="e.g. Charles Bridge, Prague"
+                            className="w-full bg-gray-900 border border-gray-600 rounded-lg px-3 py-2 text-gray-200 focus:ring-2 focus:ring-cyan-500 focus:border-cyan-500"
+                        />
+                        <button
+                            type="submit"
+                            disabled={!correction.trim()}
+                            className="flex-shrink-0 bg-cyan-500 hover:bg-cyan-600 text-white font-semibold py-2 px-4 rounded-lg transition-colors duration-200 disabled:bg-gray-500 disabled:cursor-not-allowed"
+                        >
+                            Continue
+                        </button>
+                    </div>
+                </form>
+            </div>
+            <button onClick={onCancel} className="mt-4 text-sm text-gray-400 hover:text-white transition-colors">
+                Choose a different image
+            </button>
+        </div>
+    );
+};
@@ -1,30 +1,45 @@
 import React, { useRef, useState, useCallback } from 'react';
 import { UploadIcon, CameraIcon } from './icons';
 import { CameraCapture } from './CameraCapture';
+import { LandmarkIdentificationResult, PhotoMetadata } from '../types';
+import { collectDroppedImages, isImageFile } from '../utils/files';
 
 interface ImageUploaderProps {
-    onImageChange: (file: File) => void;
+    /** `metadata` is supplied for in-app captures; uploads are read from their EXIF data. */
+    onImageChange: (file: File, metadata?: PhotoMetadata) => void;
+    /** Launches the full analysis of a landmark recognised in the live camera view. */
+    onLiveIdentification: (file: File, metadata: PhotoMetadata, identification: LandmarkIdentificationResult) => void;
+    /** Called instead of `onImageChange` when several photos, or a folder, are chosen at once. */
+    onMultipleImages: (files: File[]) => void;
 }
 
-export const ImageUploader: React.FC<ImageUploaderProps> = ({ onImageChange }) => {
+export const ImageUploader: React.FC<ImageUploaderProps> = ({ onImageChange, onLiveIdentification, onMultipleImages }) => {
     const inputRef = useRef<HTMLInputElement>(null);
     const [isDragging, setIsDragging] = useState(false);
     const [isCameraOpen, setIsCameraOpen] = useState(false);
 
+    const handleFiles = useCallback((files: File[]) => {
+        if (files.length === 1) {
+            onImageChange(files[0]);
+        } else if (files.length > 1) {
+            onMultipleImages(files);
+        }
+    }, [onImageChange, onMultipleImages]);
+
     const handleFileChange = (event: React.ChangeEvent<HTMLInputElement>) => {
-        if (event.target.files && event.target.files[0]) {
-            onImageChange(event.target.files[0]);
+        if (event.target.files) {
+            handleFiles(Array.from(event.target.files).filter(isImageFile));
         }
+        // Allow choosing the same files again after a reset
+        event.target.value = '';
     };
 
-    const handleDrop = useCallback((event: React.DragEvent<HTMLLabelElement>) => {
+    const handleDrop = useCallback(async (event: React.DragEvent<HTMLLabelElement>) => {
         event.preventDefault();
         event.stopPropagation();
         setIsDragging(false);
-        if (event.dataTransfer.files && event.dataTransfer.files[0]) {
-            onImageChange(event.dataTransfer.files[0]);
-        }
-    }, [onImageChange]);
+        handleFiles(await collectDroppedImages(event.dataTransfer));
+    }, [handleFiles]);
 
     const handleDragOver = (event: React.DragEvent<HTMLLabelElement>) => {
         event.preventDefault();
@@ -43,8 +58,13 @@ export const ImageUploader: React.FC<ImageUploaderProps> = ({ onImageChange }) =
         setIsDragging(false);
     };
 
-    const handleCapture = (file: File) => {
-        onImageChange(file);
+    const handleCapture = (file: File, metadata: PhotoMetadata) => {
+        onImageChange(file, metadata);
+        setIsCameraOpen(false);
+    };
+
+    const handleLiveSelect = (file: File, metadata: PhotoMetadata, identification: LandmarkIdentificationResult) => {
+        onLiveIdentification(file, metadata, identification);
         setIsCameraOpen(false);
     };
 
@@ -64,7 +84,8 @@ export const ImageUploader: React.FC<ImageUploaderProps> = ({ onImageChange }) =
                         type="file"
                         ref={inputRef}
                         onChange={handleFileChange}
-                        accept="image/png, image/jpeg, image/webp"
+                        multiple
+                        accept="image/png, image/jpeg, image/webp, image/heic, image/heif"
                         className="hidden"
                     />
                     <div className="text-center">
@@ -72,7 +93,7 @@ export const ImageUploader: React.FC<ImageUploaderProps> = ({ onImageChange }) =
                         <p className="font-semibold text-lg text-gray-300">
                             <span className="text-cyan-400">Click to upload</span> or drag and drop
                         </p>
-                        <p className="text-sm text-gray-500 mt-1">PNG, JPG, or WEBP</p>
+                        <p className="text-sm text-gray-500 mt-1">PNG, JPG, WEBP, or HEIC · Drop several photos or a whole folder to analyze a trip</p>
                     </div>
                 </label>
                 
@@ -93,6 +114,7 @@ export const ImageUploader: React.FC<ImageUploaderProps> = ({ onImageChange }) =
             {isCameraOpen && (
                 <CameraCapture
                     onCapture={handleCapture}
+                    onLiveSelect={handleLiveSelect}
                     onClose={() => setIsCameraOpen(false)}
                 />
             )}
@@ -0,0 +1,76 @@
+import React from 'react';
+import { DetectedLandmark } from '../types';
+
+interface LandmarkOverlayProps {
+    landmarks: DetectedLandmark[];
+    imageWidth: number;
+    imageHeight: number;
+    selectedName: string;
+    onSelect: (landmark: DetectedLandmark) => void;
+}
+
+/**
+ * Draws tappable bounding boxes over a photo. The SVG uses the photo's
+ * natural size as its viewBox with "slice" scaling, which crops exactly like
+ * the `object-cover` image underneath so boxes stay aligned.
+ */
+export const LandmarkOverlay: React.FC<LandmarkOverlayProps> = ({ landmarks, imageWidth, imageHeight, selectedName, onSelect }) => {
+    const strokeWidth = Math.max(imageWidth, imageHeight) * 0.004;
+    const fontSize = Math.max(imageWidth, imageHeight) * 0.028;
+
+    return (
+        <svg
+            className="absolute inset-0 w-full h-full"
+            viewBox={`0 0 ${imageWidth} ${imageHeight}`}
+            preserveAspectRatio="xMidYMid slice"
+            role="group"
+            aria-label="Detected landmarks"
+        >
+            {landmarks.map((landmark) => {
+                const { xMin, yMin, xMax, yMax } = landmark.boundingBox;
+                const x = xMin * imageWidth;
+                const y = yMin * imageHeight;
+                const isSelected = landmark.name === selectedName;
+                const label = `${landmark.name.split(',')[0]} · ${Math.round(landmark.confidence * 100)}%`;
+
+                return (
+                    <g
+                        key={landmark.name}
+                        onClick={() => onSelect(landmark)}
+                        onKeyDown={(e) => { if (e.key === 'Enter' || e.key === ' ') onSelect(landmark); }}
+                        role="button"
+                        tabIndex={0}
+                        aria-label={`Show the history of ${landmark.name}`}
+                        aria-pressed={isSelected}
+                        className="cursor-pointer focus:outline-none group"
+                    >
+                        <rect
+                            x={x}
+                            y={y}
+                            width={(xMax - xMin) * imageWidth}
+                            height={(yMax - yMin) * imageHeight}
+                            rx={strokeWidth * 2}
+                            fill={isSelected ? 'rgba(34, 211, 238, 0.15)' : 'rgba(0, 0, 0, 0.01)'}
+                            stroke={isSelected ? '#22d3ee' : '#ffffff'}
+                            strokeWidth={strokeWidth}
+                            strokeDasharray={isSelected ? undefined : `${strokeWidth * 4} ${strokeWidth * 2}`}
+                            className="transition-all duration-200 group-hover:stroke-cyan-300 group-focus:stroke-cyan-300"
+                        />
+                        <text
+                            x={x + strokeWidth * 3}
+                            y={y + fontSize + strokeWidth * 2}
+                            fontSize={fontSize}
+                            fontWeight="bold"
+                            fill="#ffffff"
+                            stroke="rgba(0, 0, 0, 0.7)"
+                            strokeWidth={fontSize * 0.12}
+                            paintOrder="stroke"
+                        >
+                            {label}
+                        </text>
+                    </g>
+                );
+            })}
+        </svg>
+    );
+};
@@ -3,9 +3,11 @@ import React from 'react';
 
 interface LoaderProps {
     message: string;
+    /** Shows a Cancel button that abandons the work in progress. */
+    onCancel?: () => void;
 }
 
-export const Loader: React.FC<LoaderProps> = ({ message }) => {
+export const Loader: React.FC<LoaderProps> = ({ message, onCancel }) => {
     return (
         <div className="flex flex-col items-center justify-center p-8 text-center animate-fade-in">
             <svg className="w-16 h-16 animate-spin text-cyan-400" xmlns="http://www.w3.org/2000/svg" fill="none" viewBox="0 0 24 24">
@@ -13,6 +15,14 @@ export const Loader: React.FC<LoaderProps> = ({ message }) => {
                 <path className="opacity-75" fill="currentColor" d="M4 12a8 8 0 018-8V0C5.373 0 0 5.373 0 12h4zm2 5.291A7.962 7.962 0 014 12H0c0 3.042 1.135 5.824 3 7.938l3-2.647z"></path>
             </svg>
             <p className="mt-4 text-lg text-gray-300">{message}</p>
+            {onCancel && (
+                <button
+                    onClick={onCancel}
+                    className="mt-6 bg-gray-700 text-white font-semibold py-2 px-6 rounded-lg hover:bg-gray-600 transition-colors"
+                >
+                    Cancel
+                </button>
+            )}
         </div>
     );
 };
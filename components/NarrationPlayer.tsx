@@ -0,0 +1,161 @@
+import React, { useMemo, useEffect, useRef } from 'react';
+import { NarrationPlayback } from '../hooks/useNarrationPlayer';
+import { PlayIcon, PauseIcon, RewindIcon, FastForwardIcon } from './icons';
+import { formatDuration } from '../utils/format';
+import { splitIntoSentences, estimateSentenceStarts } from '../utils/text';
+
+const PLAYBACK_RATES = [0.75, 1, 1.25, 1.5, 2];
+const SKIP_SECONDS = 10;
+// Rough speaking rate of the narration voices, used until the full audio is known.
+const SPOKEN_CHARS_PER_SECOND = 14;
+
+/**
+ * The expected length of the narration of `text`. While a narration is still
+ * streaming only part of the audio exists, so its length is estimated from
+ * the text instead.
+ */
+export function getNarrationDuration(player: NarrationPlayback, text: string): number {
+    if (player.isComplete) return player.duration;
+    return Math.max(player.duration, text.length / SPOKEN_CHARS_PER_SECOND);
+}
+
+interface NarrationPlayerProps {
+    player: NarrationPlayback;
+    duration: number;
+}
+
+export const NarrationPlayer: React.FC<NarrationPlayerProps> = ({ player, duration }) => {
+    const position = Math.min(player.position, duration);
+
+    return (
+        <div className="w-full">
+            <div className="flex items-center gap-3">
+                <span className="text-xs text-gray-400 tabular-nums w-10 text-right">{formatDuration(position)}</span>
+                <input
+                    type="range"
+                    min={0}
+                    max={duration || 1}
+                    step={0.1}
+                    value={position}
+                    onChange={(e) => player.seek(Number(e.target.value))}
+                    disabled={!player.hasAudio}
+                    aria-label="Seek narration"
+                    aria-valuetext={`${formatDuration(position)} of ${formatDuration(duration)}`}
+                    className="flex-grow accent-cyan-500 disabled:opacity-50"
+                />
+                <span className="text-xs text-gray-400 tabular-nums w-10">
+                    {player.isComplete ? formatDuration(duration) : `~${formatDuration(duration)}`}
+                </span>
+            </div>
+            <div className="mt-2 flex items-center justify-center gap-3">
+                <button
+                    onClick={() => player.skip(-SKIP_SECONDS)}
+                    disabled={!player.hasAudio}
+                    aria-label={`Back ${SKIP_SECONDS} seconds`}
+                    className="p-2 rounded-full text-gray-300 hover:bg-gray-700 hover:text-white transition-colors disabled:opacity-50 disabled:cursor-not-allowed"
+                >
+                    <RewindIcon className="w-6 h-6"/>
+                </button>
+                <button
+                    onClick={player.toggle}
+                    aria-label={player.isPlaying ? 'Pause narration' : 'Play narration'}
+                    className="p-3 bg-cyan-500 text-white rounded-full shadow-md hover:bg-cyan-600 transition-all duration-300 transform hover:scale-105 focus:outline-none focus:ring-2 focus:ring-offset-2 focus:ring-offset-gray-900 focus:ring-cyan-400"
+                >
+                    {player.isPlaying ? <PauseIcon className="w-7 h-7"/> : <PlayIcon className="w-7 h-7"/>}
+                </button>
+                <button
+                    onClick={() => player.skip(SKIP_SECONDS)}
+                    disabled={!player.hasAudio}
+                    aria-label={`Forward ${SKIP_SECONDS} seconds`}
+                    className="p-2 rounded-full text-gray-300 hover:bg-gray-700 hover:text-white transition-colors disabled:opacity-50 disabled:cursor-not-allowed"
+                >
+                    <FastForwardIcon className="w-6 h-6"/>
+                </button>
+                <select
+                    value={player.playbackRate}
+                    onChange={(e) => player.setPlaybackRate(Number(e.target.value))}
+                    aria-label="Playback speed"
+                    className="bg-gray-700 border border-gray-600 rounded-lg px-2 py-1 text-sm text-gray-200 focus:ring-2 focus:ring-cyan-500 focus:border-cyan-500"
+                >
+                    {PLAYBACK_RATES.map(rate => (
+                        <option key={rate} value={rate}>{rate}×</option>
+                    ))}
+                </select>
+            </div>
+        </div>
+    );
+};
+
+interface NarrationTranscriptProps {
+    text: string;
+    /** BCP 47 code of the text's language, used to find sentence boundaries. */
+    language?: string;
+    player: NarrationPlayback;
+    duration: number;
+}
+
+/**
+ * Renders the narrated text with the sentence currently being spoken
+ * highlighted. Sentence timings are estimated from their length, and
+ * clicking a sentence jumps the narration to it.
+ */
+export const NarrationTranscript: React.FC<NarrationTranscriptProps> = ({ text, language, player, duration }) => {
+    const activeRef = useRef<HTMLSpanElement | null>(null);
+
+    const paragraphs = useMemo(
+        () => text.split(/\n\s*\n/).map(paragraph => splitIntoSentences(paragraph, language)).filter(sentences => sentences.length > 0),
+        [text, language]
+    );
+    const starts = useMemo(() => estimateSentenceStarts(paragraphs.flat(), duration), [paragraphs, duration]);
+
+    const hasStarted = player.isPlaying || player.position > 0;
+    let activeIndex = -1;
+    if (hasStarted) {
+        for (let i = starts.length - 1; i >= 0; i--) {
+            if (starts[i] <= player.position) {
+                activeIndex = i;
+                break;
+            }
+        }
+    }
+
+    useEffect(() => {
+        if (player.isPlaying) {
+            activeRef.current?.scrollIntoView({ block: 'nearest', behavior: 'smooth' });
+        }
+    }, [activeIndex, player.isPlaying]);
+
+    const handleSentenceClick = (index: number) => {
+        if (!player.hasAudio) return;
+        player.seek(starts[index]);
+        if (!player.isPlaying) {
+            player.play();
+        }
+    };
+
+    let sentenceIndex = 0;
+    return (
+        <div lang={language} dir="auto" className="space-y-4">
+            {paragraphs.map((sentences, paragraphIndex) => (
+                <p key={paragraphIndex} className="text-gray-300 leading-relaxed">
+                    {sentences.map(sentence => {
+                        const index = sentenceIndex++;
+                        const isActive = index === activeIndex;
+                        return (
+                            <React.Fragment key={index}>
+                                <span
+                                    ref={isActive ? activeRef : undefined}
+                                    onClick={() => handleSentenceClick(index)}
+                                    className={`rounded transition-colors duration-200 ${player.hasAudio ? 'cursor-pointer hover:text-white' : ''} ${isActive ? 'bg-cyan-500/20 text-white' : ''}`}
+                                >
+                                    {sentence}
+                                </span>
+                                {' '}
+                            </React.Fragment>
+                        );
+                    })}
+                </p>
+            ))}
+        </div>
+    );
+};
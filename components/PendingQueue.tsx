@@ -0,0 +1,65 @@
+import React from 'react';
+import { PendingPhoto } from '../types';
+import { isPermanentFailure } from '../services/errors';
+import { TrashIcon } from './icons';
+
+interface PendingQueueProps {
+    photos: PendingPhoto[];
+    isOnline: boolean;
+    onRemove: (photo: PendingPhoto) => void;
+}
+
+/**
+ * Photos taken without a connection, waiting to be analyzed once it returns,
+ * and those whose analysis failed, with the reason.
+ */
+export const PendingQueue: React.FC<PendingQueueProps> = ({ photos, isOnline, onRemove }) => {
+    if (photos.length === 0) return null;
+    const failed = photos.filter(photo => photo.failure);
+    const waitingCount = photos.length - failed.length;
+
+    return (
+        <section className="w-full max-w-lg mx-auto mt-6 bg-gray-800/50 rounded-lg border border-gray-700 p-4 text-left" aria-labelledby="pending-queue-title">
+            <h2 id="pending-queue-title" className="font-semibold text-gray-200">
+                {photos.length === 1 ? '1 photo waiting' : `${photos.length} photos waiting`}
+            </h2>
+            {waitingCount > 0 && (
+                <p className="text-sm text-gray-400 mb-3">
+                    {isOnline
+                        ? 'Back online. Starting the analysis...'
+                        : "They'll be analyzed and saved to your history as soon as you're back online."}
+                </p>
+            )}
+            <ul className="flex flex-wrap gap-2" aria-label="Waiting photos">
+                {photos.map(photo => (
+                    <li key={photo.id} className="relative group">
+                        {photo.thumbnail ? (
+                            <img src={photo.thumbnail} alt={photo.file.name} title={photo.failure?.message} className={`w-16 h-16 object-cover rounded-md bg-gray-700 ${photo.failure ? 'ring-2 ring-red-500' : ''}`} />
+                        ) : (
+                            <div title={photo.failure?.message} className={`w-16 h-16 rounded-md bg-gray-700 text-xs text-gray-400 p-1 overflow-hidden break-all ${photo.failure ? 'ring-2 ring-red-500' : ''}`}>{photo.file.name}</div>
+                        )}
+                        <button
+                            onClick={() => onRemove(photo)}
+                            aria-label={`Remove ${photo.file.name} from the queue`}
+                            className="absolute -top-2 -right-2 p-1 rounded-full bg-gray-900 text-gray-400 hover:text-red-400 opacity-0 group-hover:opacity-100 focus:opacity-100 transition-opacity"
+                        >
+                            <TrashIcon className="w-4 h-4" />
+                        </button>
+                    </li>
+                ))}
+            </ul>
+            {failed.length > 0 && (
+                <ul className="mt-3 space-y-1 text-xs text-red-400" aria-label="Photos that could not be analyzed">
+                    {failed.map(photo => (
+                        <li key={photo.id}>
+                            <span className="font-semibold">{photo.file.name}:</span> {photo.failure!.message}{' '}
+                            <span className="text-gray-400">
+                                {isPermanentFailure(photo.failure!.kind) ? "It won't be tried again." : "It will be tried again next time you open the app."}
+                            </span>
+                        </li>
+                    ))}
+                </ul>
+            )}
+        </section>
+    );
+};
@@ -1,19 +1,103 @@
-import React, { useState, useEffect } from 'react';
+import React, { useState, useEffect, useMemo } from 'react';
 import { LandmarkAnalysis } from '../types';
-import { CloseIcon, CopyIcon, CheckIcon, WhatsAppIcon, InstagramIcon, YouTubeIcon } from './icons';
+import { CloseIcon, CopyIcon, CheckIcon, WhatsAppIcon, InstagramIcon, YouTubeIcon, ShareIcon, DownloadIcon } from './icons';
+import { canShareFiles, createMediaAttachments, createPostcardAttachment, createShareLink, ShareAttachment, ShareAttachmentKind } from '../services/shareService';
+import { PostcardFormat, renderPostcard } from '../utils/postcard';
 
 interface ShareModalProps {
     analysis: LandmarkAnalysis;
+    /** Object URL of the generated video, offered as an attachment when present. */
+    videoUrl: string | null;
     onClose: () => void;
 }
 
-export const ShareModal: React.FC<ShareModalProps> = ({ analysis, onClose }) => {
+const POSTCARD_FORMATS: { format: PostcardFormat, label: string }[] = [
+    { format: 'square', label: 'Square' },
+    { format: 'story', label: 'Story' },
+    { format: 'card', label: 'Photo' },
+];
+
+export const ShareModal: React.FC<ShareModalProps> = ({ analysis, videoUrl, onClose }) => {
     const [shareUrl, setShareUrl] = useState('');
+    const [linkError, setLinkError] = useState<string | null>(null);
     const [isCopied, setIsCopied] = useState(false);
+    const [postcardFormat, setPostcardFormat] = useState<PostcardFormat>('square');
+    const [postcard, setPostcard] = useState<{ attachment: ShareAttachment, previewUrl: string } | null>(null);
+    const [postcardError, setPostcardError] = useState<string | null>(null);
+    // Narration and video the system share sheet accepts; empty when file sharing isn't supported
+    const [mediaAttachments, setMediaAttachments] = useState<ShareAttachment[]>([]);
+    const [selectedKinds, setSelectedKinds] = useState<Set<ShareAttachmentKind>>(new Set(['card']));
+    const [isPreparingFiles, setIsPreparingFiles] = useState(typeof navigator.canShare === 'function');
+    const [shareError, setShareError] = useState<string | null>(null);
+
+    useEffect(() => {
+        let isCurrent = true;
+        createShareLink(analysis)
+            .then(url => {
+                if (isCurrent) setShareUrl(url);
+            })
+            .catch(err => {
+                console.error("Could not create share link:", err);
+                if (isCurrent) setLinkError("The share link could not be created. Please try again.");
+            });
+        return () => { isCurrent = false; };
+    }, [analysis]);
+
+    useEffect(() => {
+        let isCurrent = true;
+        let previewUrl: string | null = null;
+        setPostcard(null);
+        setPostcardError(null);
+        renderPostcard(analysis, postcardFormat)
+            .then(blob => {
+                if (!isCurrent) return;
+                previewUrl = URL.createObjectURL(blob);
+                setPostcard({ attachment: createPostcardAttachment(analysis, blob, postcardFormat), previewUrl });
+            })
+            .catch(err => {
+                console.error("Could not render postcard:", err);
+                if (isCurrent) setPostcardError("The postcard could not be created.");
+            });
+        return () => {
+            isCurrent = false;
+            if (previewUrl) URL.revokeObjectURL(previewUrl);
+        };
+    }, [analysis, postcardFormat]);
 
+    // Files are prepared up front: the share sheet must open straight from the click.
     useEffect(() => {
-        setShareUrl(window.location.href);
-    }, []);
+        if (typeof navigator.canShare !== 'function') return;
+        let isCurrent = true;
+        createMediaAttachments(analysis, videoUrl)
+            .then(prepared => {
+                if (!isCurrent) return;
+                const shareable = prepared.filter(attachment => canShareFiles([attachment.file]));
+                setMediaAttachments(shareable);
+                setSelectedKinds(new Set<ShareAttachmentKind>(['card', ...shareable.map(attachment => attachment.kind)]));
+            })
+            .catch(err => console.error("Could not prepare files for sharing:", err))
+            .finally(() => {
+                if (isCurrent) setIsPreparingFiles(false);
+            });
+        return () => { isCurrent = false; };
+    }, [analysis, videoUrl]);
+
+    const attachments = useMemo(() => {
+        const card = postcard && canShareFiles([postcard.attachment.file]) ? [postcard.attachment] : [];
+        return [...card, ...mediaAttachments];
+    }, [postcard, mediaAttachments]);
+
+    const toggleAttachment = (kind: ShareAttachmentKind) => {
+        setSelectedKinds(current => {
+            const next = new Set(current);
+            if (next.has(kind)) {
+                next.delete(kind);
+            } else {
+                next.add(kind);
+            }
+            return next;
+        });
+    };
 
     const handleCopy = () => {
         navigator.clipboard.writeText(shareUrl).then(() => {
@@ -27,6 +111,19 @@ export const ShareModal: React.FC<ShareModalProps> = ({ analysis, onClose }) =>
     const shareText = `Check out this landmark: ${analysis.name}. Here's a brief history: ${analysis.history.substring(0, 150)}...`;
     const shareTitle = `LandmarkLens Discovery: ${analysis.name}`;
 
+    const handleNativeShare = async () => {
+        setShareError(null);
+        const files = attachments.filter(attachment => selectedKinds.has(attachment.kind)).map(attachment => attachment.file);
+        try {
+            await navigator.share({ title: shareTitle, text: shareText, url: shareUrl || undefined, files });
+        } catch (err) {
+            // The user closed the share sheet.
+            if (err instanceof DOMException && err.name === 'AbortError') return;
+            console.error("Could not share:", err);
+            setShareError("Sharing didn't work. Try fewer attachments, or use one of the options below.");
+        }
+    };
+
     return (
         <div className="fixed inset-0 bg-black/60 backdrop-blur-sm z-50 flex items-center justify-center p-4" role="dialog" aria-modal="true" aria-labelledby="share-modal-title" onClick={onClose}>
             <div className="w-full max-w-md bg-gray-800 rounded-2xl shadow-2xl border border-gray-700 animate-fade-in-up" onClick={(e) => e.stopPropagation()}>
@@ -43,8 +140,76 @@ export const ShareModal: React.FC<ShareModalProps> = ({ analysis, onClose }) =>
                 </div>
 
                 {/* Content */}
-                <div className="p-6">
-                    <p className="text-gray-300 mb-4">Share a link to this discovery with your friends!</p>
+                <div className="p-6 max-h-[80vh] overflow-y-auto">
+                    <div className="mb-6 pb-6 border-b border-gray-700">
+                        <div className="flex items-center justify-between mb-3">
+                            <p className="text-gray-300">Postcard</p>
+                            <div className="flex rounded-lg bg-gray-900 border border-gray-600 p-0.5" role="group" aria-label="Postcard format">
+                                {POSTCARD_FORMATS.map(({ format, label }) => (
+                                    <button
+                                        key={format}
+                                        onClick={() => setPostcardFormat(format)}
+                                        aria-pressed={postcardFormat === format}
+                                        className={`px-3 py-1 text-sm rounded-md transition-colors ${postcardFormat === format ? 'bg-cyan-500 text-white' : 'text-gray-300 hover:text-white'}`}
+                                    >
+                                        {label}
+                                    </button>
+                                ))}
+                            </div>
+                        </div>
+                        <div className="flex justify-center items-center bg-gray-900 rounded-lg h-64 mb-3">
+                            {postcard ? (
+                                <img src={postcard.previewUrl} alt={`Postcard of ${analysis.name}`} className="max-h-full max-w-full rounded shadow-lg" />
+                            ) : postcardError ? (
+                                <p className="text-sm text-red-400">{postcardError}</p>
+                            ) : (
+                                <p className="text-sm text-gray-400 animate-pulse">Drawing postcard...</p>
+                            )}
+                        </div>
+                        <a
+                            href={postcard?.previewUrl}
+                            download={postcard?.attachment.file.name}
+                            aria-disabled={!postcard}
+                            className={`w-full flex items-center justify-center gap-2 bg-gray-700 hover:bg-gray-600 text-white font-semibold py-2.5 rounded-lg transition-colors duration-200 ${postcard ? '' : 'pointer-events-none opacity-50'}`}
+                        >
+                            <DownloadIcon className="w-5 h-5" />
+                            Download PNG
+                        </a>
+                    </div>
+
+                    {(isPreparingFiles || attachments.length > 0) && (
+                        <div className="mb-6 pb-6 border-b border-gray-700">
+                            <p className="text-gray-300 mb-3">Post the postcard, narration or video straight to your apps and stories.</p>
+                            {isPreparingFiles ? (
+                                <p className="text-sm text-gray-400 mb-3 animate-pulse">Preparing files...</p>
+                            ) : (
+                                <div className="flex flex-wrap gap-2 mb-3" role="group" aria-label="Attachments">
+                                    {attachments.map(attachment => (
+                                        <label key={attachment.kind} className="flex items-center gap-2 bg-gray-900 border border-gray-600 rounded-lg px-3 py-1.5 text-sm text-gray-200 cursor-pointer">
+                                            <input
+                                                type="checkbox"
+                                                checked={selectedKinds.has(attachment.kind)}
+                                                onChange={() => toggleAttachment(attachment.kind)}
+                                                className="accent-cyan-500"
+                                            />
+                                            {attachment.label}
+                                        </label>
+                                    ))}
+                                </div>
+                            )}
+                            <button
+                                onClick={handleNativeShare}
+                                disabled={isPreparingFiles || selectedKinds.size === 0}
+                                className="w-full flex items-center justify-center gap-2 bg-cyan-500 hover:bg-cyan-600 text-white font-semibold py-2.5 rounded-lg transition-colors duration-200 disabled:bg-gray-500 disabled:cursor-not-allowed"
+                            >
+                                <ShareIcon className="w-5 h-5" />
+                                Share...
+                            </button>
+                            {shareError && <p className="text-sm text-red-400 mt-2">{shareError}</p>}
+                        </div>
+                    )}
+
+                    <p className="text-gray-300 mb-4">Share a link to this discovery with your friends! They'll see the landmark and its story, no app needed.</p>
                     
                     <div className="flex items-center space-x-2">
                         <label htmlFor="share-link" className="sr-only">Shareable Link</label>
@@ -52,18 +217,21 @@ export const ShareModal: React.FC<ShareModalProps> = ({ analysis, onClose }) =>
                             id="share-link"
                             type="text"
                             value={shareUrl}
+                            placeholder={linkError ? '' : 'Creating link...'}
                             readOnly
                             className="w-full bg-gray-900 border border-gray-600 rounded-lg px-3 py-2 text-gray-200 focus:ring-2 focus:ring-cyan-500 focus:border-cyan-500"
                         />
                         <button
                             onClick={handleCopy}
-                            className="flex-shrink-0 bg-cyan-500 hover:bg-cyan-600 text-white font-semibold p-2.5 rounded-lg transition-colors duration-200"
+                            disabled={!shareUrl}
+                            className="flex-shrink-0 bg-cyan-500 hover:bg-cyan-600 text-white font-semibold p-2.5 rounded-lg transition-colors duration-200 disabled:bg-gray-500 disabled:cursor-not-allowed"
                             aria-live="polite"
                         >
                             {isCopied ? <CheckIcon className="w-5 h-5" /> : <CopyIcon className="w-5 h-5" />}
                             <span className="sr-only">{isCopied ? 'Copied!' : 'Copy link'}</span>
                         </button>
                     </div>
+                    {linkError && <p className="text-sm text-red-400 mt-2">{linkError}</p>}
 
                     <div className="mt-6 flex justify-center space-x-4">
                          <a href={`https://twitter.com/intent/tweet?text=${encodeURIComponent(shareText)}&url=${encodeURIComponent(shareUrl)}`} target="_blank" rel="noopener noreferrer" className="p-3 bg-gray-700 rounded-full text-gray-300 hover:bg-gray-600 hover:text-white transition-colors" title="Share on X">
@@ -0,0 +1,86 @@
+import React from 'react';
+import { SharedAnalysis } from '../types';
+import { Loader } from './Loader';
+
+interface SharedAnalysisViewProps {
+    shared: SharedAnalysis | null;
+    isLoading: boolean;
+    error: string | null;
+    /** Leaves the shared view to try the app with your own photo. */
+    onOpenApp: () => void;
+}
+
+/**
+ * Read-only view of an analysis someone shared through a link.
+ */
+export const SharedAnalysisView: React.FC<SharedAnalysisViewProps> = ({ shared, isLoading, error, onOpenApp }) => {
+    if (isLoading) {
+        return <Loader message="Opening shared landmark..." />;
+    }
+
+    if (!shared) {
+        return (
+            <div className="text-center animate-fade-in p-8 bg-red-900/20 border border-red-500/50 rounded-lg max-w-lg mx-auto" role="alert">
+                <h3 className="text-2xl font-bold text-red-400 mb-4">Link Not Available</h3>
+                <p className="text-red-200 mb-6">{error ?? "This share link is broken or has expired."}</p>
+                <button onClick={onOpenApp} className="bg-red-500 text-white font-semibold py-2 px-6 rounded-lg hover:bg-red-600 transition-colors">
+                    Explore Your Own Photos
+                </button>
+            </div>
+        );
+    }
+
+    const paragraphs = shared.history.split(/\n\s*\n/).filter(paragraph => paragraph.trim());
+
+    return (
+        <div className="w-full max-w-3xl mx-auto p-4 md:p-8 animate-fade-in">
+            <article className="bg-gray-800/50 backdrop-blur-sm rounded-2xl shadow-2xl overflow-hidden border border-gray-700">
+                {shared.thumbnail && (
+                    <img src={shared.thumbnail} alt={shared.name} className="w-full max-h-80 object-cover" />
+                )}
+                <div className="p-6">
+                    <p className="text-sm font-semibold text-cyan-400 uppercase tracking-wider mb-1">Shared with LandmarkLens</p>
+                    <h2 className="text-3xl font-bold text-white mb-4">{shared.name}</h2>
+
+                    {shared.narrationUrl && (
+                        <audio src={shared.narrationUrl} controls className="w-full mb-4" aria-label={`Narration of ${shared.name}`} />
+                    )}
+
+                    <div lang={shared.language} dir="auto" className="space-y-4">
+                        {paragraphs.map((paragraph, index) => (
+                            <p key={index} className="text-gray-300 leading-relaxed">{paragraph}</p>
+                        ))}
+                    </div>
+
+                    {shared.sources.length > 0 && (
+                        <div className="mt-6">
+                            <h3 className="text-sm font-semibold text-gray-400 uppercase tracking-wider">Sources</h3>
+                            <ul className="mt-2 space-y-2">
+                                {shared.sources.map((source, index) => (
+                                    <li key={index} className="flex items-start">
+                                        <span className="text-cyan-400 mr-2 mt-1">&#8226;</span>
+                                        <a
+                                            href={source.uri}
+                                            target="_blank"
+                                            rel="noopener noreferrer"
+                                            className="text-gray-300 hover:text-cyan-400 text-sm transition-colors break-all"
+                                        >
+                                            {source.title}
+                                        </a>
+                                    </li>
+                                ))}
+                            </ul>
+                        </div>
+                    )}
+
+                    <button
+                        onClick={onOpenApp}
+                        className="mt-8 w-full bg-cyan-500 hover:bg-cyan-600 text-white font-semibold py-3 rounded-lg transition-colors duration-200"
+                    >
+                        Discover a Landmark from Your Own Photo
+                    </button>
+                </div>
+            </article>
+        </div>
+    );
+};
@@ -0,0 +1,165 @@
+import React, { useMemo, useState } from 'react';
+import { HistoryEntry, TourGrouping } from '../types';
+import { CloseIcon } from './icons';
+import { groupEntriesByDate, groupEntriesByProximity, EntryGroup } from '../utils/itinerary';
+
+interface TourPlannerProps {
+    history: HistoryEntry[];
+    /** Creates the tour; rejects with a user-facing message if that fails. */
+    onCreate: (entries: HistoryEntry[], grouping: TourGrouping, title: string) => Promise<void>;
+    onClose: () => void;
+}
+
+const GROUPING_OPTIONS: { id: TourGrouping, name: string }[] = [
+    { id: 'date', name: 'By day' },
+    { id: 'proximity', name: 'Nearby' },
+    { id: 'selection', name: 'Pick stops' },
+];
+
+export const TourPlanner: React.FC<TourPlannerProps> = ({ history, onCreate, onClose }) => {
+    const [grouping, setGrouping] = useState<TourGrouping>('date');
+    const [selectedGroupId, setSelectedGroupId] = useState<string | null>(null);
+    const [selectedIds, setSelectedIds] = useState<Set<string>>(new Set());
+    const [title, setTitle] = useState('');
+    const [isCreating, setIsCreating] = useState(false);
+    const [error, setError] = useState<string | null>(null);
+
+    const groups = useMemo<EntryGroup[]>(() => {
+        if (grouping === 'date') return groupEntriesByDate(history).filter(group => group.entries.length > 1);
+        if (grouping === 'proximity') return groupEntriesByProximity(history);
+        return [];
+    }, [grouping, history]);
+
+    const selectedGroup = groups.find(group => group.id === selectedGroupId) ?? null;
+    const stops = grouping === 'selection'
+        ? history.filter(entry => selectedIds.has(entry.id))
+        : selectedGroup?.entries ?? [];
+
+    const handleGroupingChange = (next: TourGrouping) => {
+        setGrouping(next);
+        setSelectedGroupId(null);
+        setError(null);
+    };
+
+    const handleSelectGroup = (group: EntryGroup) => {
+        setSelectedGroupId(group.id);
+        setTitle(group.title);
+    };
+
+    const toggleEntry = (id: string) => {
+        setSelectedIds(current => {
+            const next = new Set(current);
+            if (next.has(id)) {
+                next.delete(id);
+            } else {
+                next.add(id);
+            }
+            return next;
+        });
+    };
+
+    const handleCreate = async () => {
+        setIsCreating(true);
+        setError(null);
+        try {
+            await onCreate(stops, grouping, title.trim() || `Tour of ${stops[0].name}`);
+        } catch (err) {
+            console.error("Could not create tour:", err);
+            setError(err instanceof Error ? err.message : "The tour could not be created. Please try again.");
+            setIsCreating(false);
+        }
+    };
+
+    return (
+        <div className="fixed inset-0 bg-black/60 backdrop-blur-sm z-50 flex items-center justify-center p-4" role="dialog" aria-modal="true" aria-labelledby="tour-planner-title" onClick={onClose}>
+            <div className="w-full max-w-lg max-h-[90vh] flex flex-col bg-gray-800 rounded-2xl shadow-2xl border border-gray-700 animate-fade-in-up" onClick={(e) => e.stopPropagation()}>
+                <div className="p-4 border-b border-gray-700 flex justify-between items-center flex-shrink-0">
+                    <h2 id="tour-planner-title" className="text-lg font-bold text-white">Plan a Walking Tour</h2>
+                    <button
+                        onClick={onClose}
+                        className="p-1 rounded-full text-gray-400 hover:bg-gray-700 hover:text-white transition-colors"
+                        aria-label="Close tour planner"
+                    >
+                        <CloseIcon className="w-6 h-6" />
+                    </button>
+                </div>
+
+                <div className="p-6 overflow-y-auto custom-scrollbar">
+                    <div className="flex rounded-lg bg-gray-900 p-1 mb-4" role="tablist" aria-label="Choose stops">
+                        {GROUPING_OPTIONS.map(option => (
+                            <button
+                                key={option.id}
+                                role="tab"
+                                aria-selected={grouping === option.id}
+                                onClick={() => handleGroupingChange(option.id)}
+                                className={`flex-1 py-1.5 text-sm font-semibold rounded-md transition-colors ${grouping === option.id ? 'bg-gray-600 text-white' : 'text-gray-400 hover:text-white'}`}
+                            >
+                                {option.name}
+                            </button>
+                        ))}
+                    </div>
+
+                    {grouping === 'selection' ? (
+                        <ul className="space-y-1 mb-4" aria-label="Stops">
+                            {history.map(entry => (
+                                <li key={entry.id}>
+                                    <label className="flex items-center gap-3 p-2 rounded-lg hover:bg-gray-700/50 cursor-pointer">
+                                        <input
+                                            type="checkbox"
+                                            checked={selectedIds.has(entry.id)}
+                                            onChange={() => toggleEntry(entry.id)}
+                                            className="accent-cyan-500"
+                                        />
+                                        <img src={entry.thumbnail} alt="" className="w-10 h-10 object-cover rounded-md bg-gray-700" />
+                                        <span className="text-gray-200">{entry.name}</span>
+                                    </label>
+                                </li>
+                            ))}
+                        </ul>
+                    ) : groups.length > 0 ? (
+                        <ul className="space-y-2 mb-4" aria-label="Suggested tours">
+                            {groups.map(group => (
+                                <li key={group.id}>
+                                    <button
+                                        onClick={() => handleSelectGroup(group)}
+                                        aria-pressed={group.id === selectedGroupId}
+                                        className={`w-full text-left p-3 rounded-lg border transition-colors ${group.id === selectedGroupId ? 'border-cyan-500 bg-cyan-500/10' : 'border-gray-700 hover:bg-gray-700/50'}`}
+                                    >
+                                        <p className="font-semibold text-gray-200">{group.title}</p>
+                                        <p className="text-sm text-gray-400 truncate">{group.entries.map(entry => entry.name).join(' · ')}</p>
+                                    </button>
+                                </li>
+                            ))}
+                        </ul>
+                    ) : (
+                        <p className="text-gray-400 mb-4">
+                            {grouping === 'date'
+                                ? "No day has more than one landmark yet. Try picking stops yourself."
+                                : "No landmarks with a known location are close to each other yet. Try picking stops yourself."}
+                        </p>
+                    )}
+
+                    <label htmlFor="tour-title" className="block text-sm font-medium text-gray-300 mb-1">Tour name</label>
+                    <input
+                        id="tour-title"
+                        type="text"
+                        value={title}
+                        onChange={(e) => setTitle(e.target.value)}
+                        placeholder={stops[0] ? `Tour of ${stops[0].name}` : 'My walking tour'}
+                        className="w-full bg-gray-900 border border-gray-600 rounded-lg px-3 py-2 text-gray-200 focus:ring-2 focus:ring-cyan-500 focus:border-cyan-500"
+                    />
+
+                    {error && <p className="text-sm text-red-400 mt-3">{error}</p>}
+
+                    <button
+                        onClick={handleCreate}
+                        disabled={stops.length < 2 || isCreating}
+                        className="mt-4 w-full bg-cyan-500 hover:bg-cyan-600 text-white font-semibold py-2.5 rounded-lg transition-colors duration-200 disabled:bg-gray-500 disabled:cursor-not-allowed"
+                    >
+                        {isCreating ? 'Planning the route...' : `Create tour with ${stops.length} stops`}
+                    </button>
+                </div>
+            </div>
+        </div>
+    );
+};
@@ -0,0 +1,123 @@
+import React, { useState } from 'react';
+import { Tour, TourStop } from '../types';
+import { CloseIcon, DownloadIcon, SoundWaveIcon, TrashIcon } from './icons';
+import { AUDIO_EXPORT_OPTIONS, AudioExportFormat } from '../utils/audioExport';
+import { useAudioExportFormats } from '../hooks/useAudioExportFormats';
+
+interface TourViewProps {
+    tour: Tour;
+    /** Progress of the narration being generated, or null when idle. */
+    narrationProgress: string | null;
+    error: string | null;
+    onNarrate: () => void;
+    /** Saves the narration in the chosen format; resolves once the download has started. */
+    onDownload: (format: AudioExportFormat) => Promise<void>;
+    onDelete: () => void;
+    onOpenStop: (stop: TourStop) => void;
+    onClose: () => void;
+}
+
+export const TourView: React.FC<TourViewProps> = ({ tour, narrationProgress, error, onNarrate, onDownload, onDelete, onOpenStop, onClose }) => {
+    const isNarrating = narrationProgress !== null;
+    const { formats: audioFormats, format: audioFormat, setFormat: setAudioFormat } = useAudioExportFormats();
+    const [isDownloading, setIsDownloading] = useState(false);
+
+    const handleDownload = async () => {
+        setIsDownloading(true);
+        try {
+            await onDownload(audioFormat);
+        } finally {
+            setIsDownloading(false);
+        }
+    };
+
+    return (
+        <div className="fixed inset-0 bg-black/60 backdrop-blur-sm z-50 flex items-center justify-center p-4" role="dialog" aria-modal="true" aria-labelledby="tour-view-title" onClick={onClose}>
+            <div className="w-full max-w-lg max-h-[90vh] flex flex-col bg-gray-800 rounded-2xl shadow-2xl border border-gray-700 animate-fade-in-up" onClick={(e) => e.stopPropagation()}>
+                <div className="p-4 border-b border-gray-700 flex justify-between items-center flex-shrink-0">
+                    <div className="min-w-0">
+                        <h2 id="tour-view-title" className="text-lg font-bold text-white truncate">{tour.title}</h2>
+                        <p className="text-sm text-gray-400">{tour.stops.length} stops</p>
+                    </div>
+                    <button
+                        onClick={onClose}
+                        className="p-1 rounded-full text-gray-400 hover:bg-gray-700 hover:text-white transition-colors"
+                        aria-label="Close tour"
+                    >
+                        <CloseIcon className="w-6 h-6" />
+                    </button>
+                </div>
+
+                <ol className="p-6 overflow-y-auto custom-scrollbar space-y-3" lang={tour.language} dir="auto">
+                    {tour.stops.map((stop, index) => (
+                        <li key={stop.entryId}>
+                            {stop.transition && (
+                                <p className="text-sm text-gray-400 italic border-l-2 border-gray-600 pl-3 mb-3">{stop.transition}</p>
+                            )}
+                            <button
+                                onClick={() => onOpenStop(stop)}
+                                className="w-full flex items-center gap-3 text-left p-3 rounded-lg bg-gray-900/60 hover:bg-gray-700/50 transition-colors"
+                            >
+                                <span className="flex items-center justify-center w-8 h-8 rounded-full bg-cyan-500 text-white font-bold flex-shrink-0">{index + 1}</span>
+                                <span className="font-semibold text-gray-200">{stop.name}</span>
+                            </button>
+                        </li>
+                    ))}
+                </ol>
+
+                <div className="p-4 border-t border-gray-700 flex-shrink-0">
+                    {error && <p className="text-sm text-red-400 mb-3">{error}</p>}
+                    {isNarrating && <p className="text-sm text-cyan-300 mb-3 animate-pulse">{narrationProgress}</p>}
+                    <div className="flex items-center gap-3">
+                        {tour.hasNarration ? (
+                            <>
+                                {audioFormats.length > 1 && (
+                                    <>
+                                        <label htmlFor="tour-audio-format" className="sr-only">Audio format</label>
+                                        <select
+                                            id="tour-audio-format"
+                                            value={audioFormat}
+                                            onChange={(e) => setAudioFormat(e.target.value as AudioExportFormat)}
+                                            disabled={isDownloading}
+                                            className="bg-gray-700/60 border border-gray-600 rounded-lg text-sm text-gray-200 px-2 py-2.5 focus:ring-2 focus:ring-cyan-500 focus:border-cyan-500 disabled:opacity-50"
+                                        >
+                                            {AUDIO_EXPORT_OPTIONS.filter(option => audioFormats.includes(option.format)).map(option => (
+                                                <option key={option.format} value={option.format}>{option.label}</option>
+                                            ))}
+                                        </select>
+                                    </>
+                                )}
+                                <button
+                                    onClick={handleDownload}
+                                    disabled={isDownloading}
+                                    aria-busy={isDownloading}
+                                    className="flex-grow flex items-center justify-center gap-2 bg-cyan-500 hover:bg-cyan-600 text-white font-semibold py-2.5 rounded-lg transition-colors duration-200 disabled:bg-gray-500 disabled:cursor-not-allowed"
+                                >
+                                    <DownloadIcon className="w-5 h-5" />
+                                    {isDownloading ? 'Preparing download...' : 'Download Tour Narration'}
+                                </button>
+                            </>
+                        ) : (
+                            <button
+                                onClick={onNarrate}
+                                disabled={isNarrating}
+                                className="flex-grow flex items-center justify-center gap-2 bg-cyan-500 hover:bg-cyan-600 text-white font-semibold py-2.5 rounded-lg transition-colors duration-200 disabled:bg-gray-500 disabled:cursor-not-allowed"
+                            >
+                                <SoundWaveIcon className="w-5 h-5" />
+                                {isNarrating ? 'Creating narration...' : 'Create Tour Narration'}
+                            </button>
+                        )}
+                        <button
+                            onClick={onDelete}
+                            disabled={isNarrating}
+                            aria-label="Delete tour"
+                            className="p-2.5 rounded-lg text-red-400 hover:bg-gray-700 hover:text-red-300 transition-colors disabled:opacity-50 disabled:cursor-not-allowed"
+                        >
+                            <TrashIcon className="w-5 h-5" />
+                        </button>
+                    </div>
+                </div>
+            </div>
+        </div>
+    );
+};
@@ -0,0 +1,24 @@
+import React, { createContext, useContext } from 'react';
+import { AIProvider } from '../services/aiProvider';
+
+const AIProviderContext = createContext<AIProvider | null>(null);
+
+interface AIProviderScopeProps {
+    provider: AIProvider;
+    children: React.ReactNode;
+}
+
+export const AIProviderScope: React.FC<AIProviderScopeProps> = ({ provider, children }) => (
+    <AIProviderContext.Provider value={provider}>{children}</AIProviderContext.Provider>
+);
+
+/**
+ * Returns the AI provider supplied by the nearest AIProviderScope.
+ */
+export function useAIProvider(): AIProvider {
+    const provider = useContext(AIProviderContext);
+    if (!provider) {
+        throw new Error("useAIProvider must be used inside an AIProviderScope");
+    }
+    return provider;
+}
@@ -0,0 +1,31 @@
+import { useState, useEffect } from 'react';
+import { AudioExportFormat, getSupportedAudioExportFormats } from '../utils/audioExport';
+
+export interface AudioExportFormats {
+    /** The formats this browser can export, WAV until they are known. */
+    formats: AudioExportFormat[];
+    /** The chosen format, the first supported one to begin with. */
+    format: AudioExportFormat;
+    setFormat: (format: AudioExportFormat) => void;
+}
+
+/**
+ * Finds the audio formats narration can be downloaded in and keeps track of
+ * the one chosen.
+ */
+export function useAudioExportFormats(): AudioExportFormats {
+    const [formats, setFormats] = useState<AudioExportFormat[]>(['wav']);
+    const [format, setFormat] = useState<AudioExportFormat>('wav');
+
+    useEffect(() => {
+        let isCurrent = true;
+        getSupportedAudioExportFormats().then(supported => {
+            if (!isCurrent) return;
+            setFormats(supported);
+            setFormat(supported[0]);
+        });
+        return () => { isCurrent = false; };
+    }, []);
+
+    return { formats, format, setFormat };
+}
@@ -0,0 +1,218 @@
+import { useState, useEffect, useRef, useCallback } from 'react';
+import { HistoryEntry, LandmarkAnalysis, TourOptions } from '../types';
+import { useAIProvider } from '../contexts/AIProviderContext';
+import { saveAnalysis } from '../services/historyRepository';
+import { ErrorKind, toAppError } from '../services/errors';
+import { preprocessImage, readPhotoMetadata } from '../utils/image';
+
+export type BatchItemStatus = 'queued' | 'running' | 'done' | 'skipped' | 'failed';
+
+export interface BatchItem {
+    id: string;
+    fileName: string;
+    status: BatchItemStatus;
+    /** What the item is doing now, or why it ended the way it did. */
+    step: string;
+    thumbnail: string | null;
+    landmarkName: string | null;
+    error: string | null;
+    errorKind: ErrorKind | null;
+    /** The history record written for the item, once it is done. */
+    entry: HistoryEntry | null;
+}
+
+/** The voice, language and tour options photos are narrated with. */
+export interface BatchSettings {
+    voiceName: string;
+    language: string;
+    tourOptions: TourOptions;
+}
+
+export interface BatchAnalysis {
+    items: BatchItem[];
+    /** True while any photo is queued or being analyzed. */
+    isRunning: boolean;
+    /** Adds photos to the batch and returns the ids of their items, in the same order. */
+    enqueue: (files: File[], settings: BatchSettings) => string[];
+    retry: (id: string) => void;
+    /** Removes every item that is not currently being analyzed. */
+    clear: () => void;
+}
+
+interface BatchJob {
+    id: string;
+    file: File;
+    settings: BatchSettings;
+}
+
+// Photos analyzed at the same time. Each one makes several model calls, so
+// this stays low to avoid hitting rate limits on large albums.
+const DEFAULT_CONCURRENCY = 2;
+
+/**
+ * Analyzes many photos in the background: each is identified, and those
+ * that show a landmark get a history and narration and are saved to the
+ * history. Photos without a landmark, or of a landmark already covered by
+ * the batch, are skipped.
+ * @param onSaved Called with the history record of each saved analysis.
+ */
+export function useBatchAnalysis(onSaved: (entry: HistoryEntry) => void, concurrency = DEFAULT_CONCURRENCY): BatchAnalysis {
+    const provider = useAIProvider();
+    const [items, setItems] = useState<BatchItem[]>([]);
+    const providerRef = useRef(provider);
+    providerRef.current = provider;
+    const onSavedRef = useRef(onSaved);
+    onSavedRef.current = onSaved;
+
+    const queueRef = useRef<BatchJob[]>([]);
+    const jobsRef = useRef(new Map<string, BatchJob>());
+    const activeCountRef = useRef(0);
+    // Landmarks already claimed by an item of this batch, so duplicates are skipped
+    const coveredLandmarksRef = useRef(new Set<string>());
+    const isMountedRef = useRef(true);
+
+    useEffect(() => {
+        isMountedRef.current = true;
+        return () => {
+            isMountedRef.current = false;
+            queueRef.current = [];
+        };
+    }, []);
+
+    const updateItem = useCallback((id: string, changes: Partial<BatchItem>) => {
+        if (!isMountedRef.current) return;
+        setItems(current => current.map(item => item.id === id ? { ...item, ...changes } : item));
+    }, []);
+
+    const runJob = useCallback(async ({ id, file, settings }: BatchJob) => {
+        const ai = providerRef.current;
+        const { voiceName, language, tourOptions } = settings;
+        updateItem(id, { status: 'running', step: 'Preparing photo...', error: null, errorKind: null });
+
+        let claimedName: string | null = null;
+        try {
+            const photoMetadata = await readPhotoMetadata(file);
+            const image = await preprocessImage(file);
+            const { orientation, ...hints } = photoMetadata;
+            updateItem(id, { thumbnail: image.thumbnail, step: 'Identifying landmark...' });
+
+            const identification = await ai.identifyLandmark(image.base64, image.mimeType, hints);
+            if (!identification.isLandmark || !identification.name) {
+                updateItem(id, { status: 'skipped', step: 'No landmark found' });
+                return;
+            }
+
+            const landmarkName = identification.name;
+            if (coveredLandmarksRef.current.has(landmarkName)) {
+                updateItem(id, { status: 'skipped', landmarkName, step: 'Already covered by another photo' });
+                return;
+            }
+            coveredLandmarksRef.current.add(landmarkName);
+            claimedName = landmarkName;
+            updateItem(id, { landmarkName, step: 'Fetching history...' });
+
+            const { text: history, sources } = await ai.fetchLandmarkHistory(landmarkName, language, tourOptions);
+
+            updateItem(id, { step: 'Generating narration...' });
+            let audioData: string | null = null;
+            try {
+                audioData = await ai.narrateText(history, voiceName, language, tourOptions);
+            } catch (error) {
+                // The history is still worth keeping; narration can be regenerated later.
+                console.error(`Narration failed for ${landmarkName}:`, error);
+            }
+
+            const analysis: LandmarkAnalysis = {
+                id: crypto.randomUUID(),
+                createdAt: Date.now(),
+                name: landmarkName,
+                history,
+                sources,
+                audioData,
+                imageBase64: image.base64,
+                imageMimeType: image.mimeType,
+                isLandmark: true,
+                detectedLandmarks: identification.landmarks,
+                photoMetadata: hints,
+                language,
+                tourOptions,
+            };
+            const entry = await saveAnalysis(analysis, image.thumbnail);
+            updateItem(id, {
+                status: 'done',
+                step: audioData ? 'Saved to history' : 'Saved to history without narration',
+                entry,
+            });
+            onSavedRef.current(entry);
+        } catch (error) {
+            console.error(`Batch analysis failed for ${file.name}:`, error);
+            if (claimedName) {
+                coveredLandmarksRef.current.delete(claimedName);
+            }
+            const failure = toAppError(error, "An unknown error occurred during analysis.");
+            updateItem(id, { status: 'failed', step: 'Failed', error: failure.message, errorKind: failure.kind });
+        }
+    }, [updateItem]);
+
+    const pump = useCallback(function pump() {
+        while (isMountedRef.current && activeCountRef.current < concurrency && queueRef.current.length > 0) {
+            const job = queueRef.current.shift()!;
+            activeCountRef.current++;
+            runJob(job).finally(() => {
+                activeCountRef.current--;
+                pump();
+            });
+        }
+    }, [concurrency, runJob]);
+
+    const enqueue = useCallback((files: File[], settings: BatchSettings) => {
+        const jobs = files.map(file => ({ id: crypto.randomUUID(), file, settings }));
+        jobs.forEach(job => jobsRef.current.set(job.id, job));
+        setItems(current => [
+            ...current,
+            ...jobs.map(({ id, file }): BatchItem => ({
+                id,
+                fileName: file.name,
+                status: 'queued',
+                step: 'Waiting...',
+                thumbnail: null,
+                landmarkName: null,
+                error: null,
+                errorKind: null,
+                entry: null,
+            })),
+        ]);
+        queueRef.current.push(...jobs);
+        pump();
+        return jobs.map(job => job.id);
+    }, [pump]);
+
+    const retry = useCallback((id: string) => {
+        const job = jobsRef.current.get(id);
+        if (!job) return;
+        updateItem(id, { status: 'queued', step: 'Waiting...', error: null, errorKind: null });
+        queueRef.current.push(job);
+        pump();
+    }, [updateItem, pump]);
+
+    const clear = useCallback(() => {
+        queueRef.current = [];
+        coveredLandmarksRef.current.clear();
+        setItems(current => {
+            const remaining = current.filter(item => item.status === 'running');
+            const remainingIds = new Set(remaining.map(item => item.id));
+            jobsRef.current.forEach((_, id) => {
+                if (!remainingIds.has(id)) jobsRef.current.delete(id);
+            });
+            return remaining;
+        });
+    }, []);
+
+    return {
+        items,
+        isRunning: items.some(item => item.status === 'queued' || item.status === 'running'),
+        enqueue,
+        retry,
+        clear,
+    };
+}
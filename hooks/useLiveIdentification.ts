@@ -0,0 +1,97 @@
+import { useState, useEffect, useRef, RefObject } from 'react';
+import { LandmarkIdentificationResult, PhotoMetadata } from '../types';
+import { useAIProvider } from '../contexts/AIProviderContext';
+import { captureVideoFrame, computeImageHash, hashDistance } from '../utils/image';
+
+export interface LiveIdentification {
+    /** The landmark currently in view, or null if none has been recognised. */
+    identification: LandmarkIdentificationResult | null;
+    isIdentifying: boolean;
+    error: string | null;
+}
+
+const SAMPLE_INTERVAL_MS = 2500;
+const MAX_RETRY_INTERVAL_MS = 20000;
+// Frames whose hashes differ in at most this many of 64 bits show the same scene.
+const SAME_SCENE_DISTANCE = 10;
+// A single frame without a landmark (motion blur, someone walking past) should not hide the label.
+const MISSES_BEFORE_CLEAR = 2;
+
+/**
+ * Periodically identifies the landmark in view of a live video. At most one
+ * request is in flight, and frames that look like the last identified one
+ * are skipped so a steady camera does not trigger repeated calls.
+ */
+export function useLiveIdentification(
+    videoRef: RefObject<HTMLVideoElement | null>,
+    enabled: boolean,
+    hints: PhotoMetadata | undefined,
+): LiveIdentification {
+    const provider = useAIProvider();
+    const [identification, setIdentification] = useState<LandmarkIdentificationResult | null>(null);
+    const [isIdentifying, setIsIdentifying] = useState(false);
+    const [error, setError] = useState<string | null>(null);
+    const hintsRef = useRef(hints);
+    hintsRef.current = hints;
+
+    useEffect(() => {
+        setIdentification(null);
+        setError(null);
+        if (!enabled) return;
+
+        let cancelled = false;
+        let timer: number | undefined;
+        let lastHash: string | null = null;
+        let misses = 0;
+        let interval = SAMPLE_INTERVAL_MS;
+
+        const identifyFrame = async (video: HTMLVideoElement) => {
+            const hash = computeImageHash(video);
+            if (hash && lastHash && hashDistance(hash, lastHash) <= SAME_SCENE_DISTANCE) return;
+
+            const frame = captureVideoFrame(video);
+            if (!frame) return;
+
+            setIsIdentifying(true);
+            try {
+                const result = await provider.identifyLandmark(frame, 'image/jpeg', hintsRef.current);
+                if (cancelled) return;
+                lastHash = hash;
+                interval = SAMPLE_INTERVAL_MS;
+                setError(null);
+                if (result.isLandmark && result.name) {
+                    misses = 0;
+                    setIdentification(result);
+                } else if (++misses >= MISSES_BEFORE_CLEAR) {
+                    setIdentification(null);
+                }
+            } catch (err) {
+                if (cancelled) return;
+                console.error("Live identification failed:", err);
+                setError("Having trouble recognising landmarks. Retrying…");
+                interval = Math.min(interval * 2, MAX_RETRY_INTERVAL_MS);
+            } finally {
+                if (!cancelled) setIsIdentifying(false);
+            }
+        };
+
+        const sample = async () => {
+            const video = videoRef.current;
+            if (video && !document.hidden && video.readyState >= HTMLMediaElement.HAVE_CURRENT_DATA) {
+                await identifyFrame(video);
+            }
+            if (!cancelled) {
+                timer = window.setTimeout(sample, interval);
+            }
+        };
+
+        timer = window.setTimeout(sample, 500);
+        return () => {
+            cancelled = true;
+            clearTimeout(timer);
+            setIsIdentifying(false);
+        };
+    }, [enabled, provider, videoRef]);
+
+    return { identification, isIdentifying, error };
+}
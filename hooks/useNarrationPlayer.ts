@@ -0,0 +1,284 @@
+import { useState, useEffect, useRef, useCallback } from 'react';
+import { decodeAudioData, createStreamingPcmDecoder, NarrationStream } from '../utils/audio';
+
+interface Segment {
+    buffer: AudioBuffer;
+    /** Position of the segment within the narration, in seconds. */
+    start: number;
+}
+
+interface Playback {
+    sources: Set<AudioBufferSourceNode>;
+    /** AudioContext time at which `offset` is heard. */
+    contextStartTime: number;
+    offset: number;
+    rate: number;
+    scheduledCount: number;
+}
+
+export interface NarrationPlayback {
+    isPlaying: boolean;
+    /** Current playback position, in seconds. */
+    position: number;
+    /** Length of the audio available so far, in seconds. */
+    duration: number;
+    /** False while a streamed narration is still arriving. */
+    isComplete: boolean;
+    hasAudio: boolean;
+    playbackRate: number;
+    play: () => void;
+    pause: () => void;
+    toggle: () => void;
+    seek: (position: number) => void;
+    skip: (seconds: number) => void;
+    setPlaybackRate: (rate: number) => void;
+}
+
+// Scheduling slightly ahead of "now" avoids clipping the first samples.
+const SCHEDULE_AHEAD_SECONDS = 0.05;
+
+/**
+ * Plays narration audio through the given AudioContext with true pause and
+ * resume, seeking and variable speed. Audio is held as a list of segments so
+ * a streamed narration can be played while it is still arriving; a complete
+ * narration is simply a single segment.
+ */
+export function useNarrationPlayer(
+    audioContext: AudioContext | null,
+    audioData: string | null,
+    narrationStream: NarrationStream | null,
+): NarrationPlayback {
+    const [isPlaying, setIsPlaying] = useState(false);
+    const [position, setPosition] = useState(0);
+    const [duration, setDuration] = useState(0);
+    const [isComplete, setIsComplete] = useState(false);
+    const [playbackRate, setPlaybackRateState] = useState(1);
+
+    const segmentsRef = useRef<Segment[]>([]);
+    const isCompleteRef = useRef(false);
+    const playbackRef = useRef<Playback | null>(null);
+    const pausedPositionRef = useRef(0);
+    const rateRef = useRef(1);
+    // A live stream already carries the audio; ignoring `audioData` once it is
+    // filled in keeps playback from restarting when synthesis completes.
+    const savedAudio = narrationStream ? null : audioData;
+
+    const availableDuration = () => {
+        const last = segmentsRef.current[segmentsRef.current.length - 1];
+        return last ? last.start + last.buffer.duration : 0;
+    };
+
+    const currentPosition = useCallback(() => {
+        const playback = playbackRef.current;
+        if (!playback || !audioContext) return pausedPositionRef.current;
+        const elapsed = Math.max(0, audioContext.currentTime - playback.contextStartTime) * playback.rate;
+        return Math.min(playback.offset + elapsed, availableDuration());
+    }, [audioContext]);
+
+    const stopSources = useCallback(() => {
+        const playback = playbackRef.current;
+        if (!playback) return;
+        playback.sources.forEach(source => {
+            source.onended = null;
+            source.stop();
+        });
+        playbackRef.current = null;
+    }, []);
+
+    const finishIfDrained = useCallback((playback: Playback) => {
+        const drained = playback.sources.size === 0
+            && playback.scheduledCount >= segmentsRef.current.length
+            && isCompleteRef.current;
+        if (drained && playbackRef.current === playback) {
+            playbackRef.current = null;
+            pausedPositionRef.current = availableDuration();
+            setPosition(pausedPositionRef.current);
+            setIsPlaying(false);
+        }
+    }, []);
+
+    const scheduleSegments = useCallback((playback: Playback) => {
+        if (!audioContext) return;
+        const segments = segmentsRef.current;
+
+        while (playback.scheduledCount < segments.length) {
+            const segment = segments[playback.scheduledCount++];
+            if (segment.start + segment.buffer.duration <= playback.offset) continue;
+
+            const segmentOffset = Math.max(0, playback.offset - segment.start);
+            let when = playback.contextStartTime + (segment.start + segmentOffset - playback.offset) / playback.rate;
+            if (when < audioContext.currentTime) {
+                // Playback ran ahead of synthesis and everything scheduled has
+                // finished: re-anchor the timeline at this segment.
+                playback.contextStartTime = audioContext.currentTime + SCHEDULE_AHEAD_SECONDS;
+                playback.offset = segment.start + segmentOffset;
+                when = playback.contextStartTime;
+            }
+
+            const source = audioContext.createBufferSource();
+            source.buffer = segment.buffer;
+            source.playbackRate.value = playback.rate;
+            source.connect(audioContext.destination);
+            source.start(when, segmentOffset);
+            playback.sources.add(source);
+
+            source.onended = () => {
+                playback.sources.delete(source);
+                finishIfDrained(playback);
+            };
+        }
+    }, [audioContext, finishIfDrained]);
+
+    const startPlayback = useCallback((from: number) => {
+        if (!audioContext) return;
+        if (audioContext.state === 'suspended') {
+            audioContext.resume();
+        }
+        stopSources();
+
+        const atEnd = isCompleteRef.current && from >= availableDuration() - SCHEDULE_AHEAD_SECONDS;
+        const playback: Playback = {
+            sources: new Set(),
+            contextStartTime: audioContext.currentTime + SCHEDULE_AHEAD_SECONDS,
+            offset: atEnd ? 0 : from,
+            rate: rateRef.current,
+            scheduledCount: 0,
+        };
+        playbackRef.current = playback;
+        pausedPositionRef.current = playback.offset;
+        setPosition(playback.offset);
+        setIsPlaying(true);
+        scheduleSegments(playback);
+        finishIfDrained(playback);
+    }, [audioContext, stopSources, scheduleSegments, finishIfDrained]);
+
+    const play = useCallback(() => startPlayback(currentPosition()), [startPlayback, currentPosition]);
+
+    const pause = useCallback(() => {
+        pausedPositionRef.current = currentPosition();
+        stopSources();
+        setPosition(pausedPositionRef.current);
+        setIsPlaying(false);
+    }, [currentPosition, stopSources]);
+
+    const toggle = useCallback(() => {
+        if (playbackRef.current) {
+            pause();
+        } else {
+            play();
+        }
+    }, [play, pause]);
+
+    const seek = useCallback((target: number) => {
+        const clamped = Math.min(Math.max(target, 0), availableDuration());
+        if (playbackRef.current) {
+            startPlayback(clamped);
+        } else {
+            pausedPositionRef.current = clamped;
+            setPosition(clamped);
+        }
+    }, [startPlayback]);
+
+    const skip = useCallback((seconds: number) => seek(currentPosition() + seconds), [seek, currentPosition]);
+
+    const setPlaybackRate = useCallback((rate: number) => {
+        rateRef.current = rate;
+        setPlaybackRateState(rate);
+        if (playbackRef.current) {
+            startPlayback(currentPosition());
+        }
+    }, [startPlayback, currentPosition]);
+
+    // Load the audio: a live stream is decoded chunk by chunk, saved audio in one go
+    useEffect(() => {
+        stopSources();
+        segmentsRef.current = [];
+        isCompleteRef.current = false;
+        pausedPositionRef.current = 0;
+        setIsPlaying(false);
+        setPosition(0);
+        setDuration(0);
+        setIsComplete(false);
+
+        if (!audioContext) return;
+
+        const appendSegment = (buffer: AudioBuffer) => {
+            segmentsRef.current.push({ buffer, start: availableDuration() });
+            setDuration(availableDuration());
+            if (playbackRef.current) {
+                scheduleSegments(playbackRef.current);
+            }
+        };
+        const markComplete = () => {
+            isCompleteRef.current = true;
+            setIsComplete(true);
+            // Synthesis may finish after everything received so far has been played.
+            if (playbackRef.current) {
+                finishIfDrained(playbackRef.current);
+            }
+        };
+
+        if (narrationStream) {
+            const decoder = createStreamingPcmDecoder(audioContext);
+            let decodedChunks = 0;
+            const consumeChunks = () => {
+                while (decodedChunks < narrationStream.chunks.length) {
+                    const buffer = decoder.push(narrationStream.chunks[decodedChunks++]);
+                    if (buffer) appendSegment(buffer);
+                }
+                if (narrationStream.done) markComplete();
+            };
+
+            const unsubscribe = narrationStream.subscribe(consumeChunks);
+            const shouldAutoPlay = !narrationStream.done;
+            consumeChunks();
+            if (shouldAutoPlay) {
+                startPlayback(0);
+            }
+            return () => {
+                unsubscribe();
+                stopSources();
+            };
+        }
+
+        if (savedAudio) {
+            let cancelled = false;
+            decodeAudioData(savedAudio, audioContext)
+                .then(buffer => {
+                    if (cancelled) return;
+                    appendSegment(buffer);
+                    markComplete();
+                })
+                .catch(error => console.error("Failed to decode audio data:", error));
+            return () => {
+                cancelled = true;
+                stopSources();
+            };
+        }
+    }, [audioContext, savedAudio, narrationStream, stopSources, scheduleSegments, finishIfDrained, startPlayback]);
+
+    // Keep the reported position moving while audio plays
+    useEffect(() => {
+        if (!isPlaying) return;
+        let frame = requestAnimationFrame(function tick() {
+            setPosition(currentPosition());
+            frame = requestAnimationFrame(tick);
+        });
+        return () => cancelAnimationFrame(frame);
+    }, [isPlaying, currentPosition]);
+
+    return {
+        isPlaying,
+        position,
+        duration,
+        isComplete,
+        hasAudio: duration > 0,
+        playbackRate,
+        play,
+        pause,
+        toggle,
+        seek,
+        skip,
+        setPlaybackRate,
+    };
+}
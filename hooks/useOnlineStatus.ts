@@ -0,0 +1,20 @@
+import { useState, useEffect } from 'react';
+
+/**
+ * Tracks whether the browser believes it has a network connection.
+ */
+export function useOnlineStatus(): boolean {
+    const [isOnline, setIsOnline] = useState(() => navigator.onLine);
+
+    useEffect(() => {
+        const update = () => setIsOnline(navigator.onLine);
+        window.addEventListener('online', update);
+        window.addEventListener('offline', update);
+        return () => {
+            window.removeEventListener('online', update);
+            window.removeEventListener('offline', update);
+        };
+    }, []);
+
+    return isOnline;
+}
@@ -0,0 +1,68 @@
+import { useState, useEffect, useCallback } from 'react';
+import { SharedAnalysis } from '../types';
+import { isShareLink, readShareLink } from '../services/shareService';
+
+export interface SharedAnalysisLink {
+    /** The analysis the page was opened with, once it has been read. */
+    shared: SharedAnalysis | null;
+    /** True when the page was opened with a share link. */
+    isShareLink: boolean;
+    isLoading: boolean;
+    error: string | null;
+    /** Leaves the shared view for the app itself. */
+    close: () => void;
+}
+
+/**
+ * Reads the shared analysis when the page is opened with a share link, or
+ * when a share link is followed later.
+ */
+export function useSharedAnalysis(): SharedAnalysisLink {
+    const [hash, setHash] = useState(() => window.location.hash);
+    const [shared, setShared] = useState<SharedAnalysis | null>(null);
+    const [isLoading, setIsLoading] = useState(false);
+    const [error, setError] = useState<string | null>(null);
+    const isLink = isShareLink(hash);
+
+    useEffect(() => {
+        const handleHashChange = () => setHash(window.location.hash);
+        window.addEventListener('hashchange', handleHashChange);
+        return () => window.removeEventListener('hashchange', handleHashChange);
+    }, []);
+
+    useEffect(() => {
+        if (!isLink) {
+            setShared(null);
+            setError(null);
+            return;
+        }
+
+        let isCurrent = true;
+        setIsLoading(true);
+        setError(null);
+        readShareLink(hash)
+            .then(result => {
+                if (!isCurrent) return;
+                setShared(result);
+                if (!result) {
+                    setError("This share link is broken or has expired.");
+                }
+            })
+            .catch(err => {
+                console.error("Could not open share link:", err);
+                if (isCurrent) setError("This shared landmark could not be loaded. Please check your connection and try again.");
+            })
+            .finally(() => {
+                if (isCurrent) setIsLoading(false);
+            });
+        return () => { isCurrent = false; };
+    }, [hash, isLink]);
+
+    const close = useCallback(() => {
+        // Drop the fragment without adding a history entry or reloading.
+        window.history.replaceState(null, '', `${window.location.pathname}${window.location.search}`);
+        setHash('');
+    }, []);
+
+    return { shared, isShareLink: isLink, isLoading, error, close };
+}
@@ -0,0 +1,116 @@
+import { useState, useEffect, useRef, useCallback } from 'react';
+
+export interface VoiceRecorder {
+    isRecording: boolean;
+    error: string | null;
+    /** Asks for the microphone if needed and starts recording. Resolves false if recording could not start. */
+    start: () => Promise<boolean>;
+    /** Stops recording and resolves with the recorded audio, or null if nothing was recorded. */
+    stop: () => Promise<Blob | null>;
+}
+
+// Questions are short; stop automatically in case the button is never released.
+const MAX_RECORDING_MS = 30000;
+
+function describeMicrophoneError(err: unknown): string {
+    if (err instanceof Error) {
+        if (err.name === "NotAllowedError") {
+            return "Microphone access was denied. Please allow microphone permissions in your browser settings.";
+        } else if (err.name === "NotFoundError") {
+            return "No microphone found. Please ensure a microphone is connected and enabled.";
+        }
+        return "Could not access the microphone. Please check your browser permissions.";
+    }
+    return "An unknown error occurred while trying to access the microphone.";
+}
+
+/**
+ * Records short voice clips from the microphone with MediaRecorder. The
+ * microphone is only held while recording, so the browser's recording
+ * indicator turns off between questions.
+ */
+export function useVoiceRecorder(): VoiceRecorder {
+    const [isRecording, setIsRecording] = useState(false);
+    const [error, setError] = useState<string | null>(null);
+    const recorderRef = useRef<MediaRecorder | null>(null);
+    const chunksRef = useRef<Blob[]>([]);
+    const stoppedRef = useRef<Promise<Blob | null> | null>(null);
+    const timeoutRef = useRef<number | null>(null);
+
+    const releaseMicrophone = useCallback((recorder: MediaRecorder) => {
+        recorder.stream.getTracks().forEach(track => track.stop());
+        if (timeoutRef.current !== null) {
+            clearTimeout(timeoutRef.current);
+            timeoutRef.current = null;
+        }
+    }, []);
+
+    const stop = useCallback((): Promise<Blob | null> => {
+        const recorder = recorderRef.current;
+        const stopped = stoppedRef.current;
+        recorderRef.current = null;
+        stoppedRef.current = null;
+        if (recorder && recorder.state !== 'inactive') {
+            recorder.stop();
+        }
+        return stopped ?? Promise.resolve(null);
+    }, []);
+
+    const start = useCallback(async (): Promise<boolean> => {
+        if (recorderRef.current) return true;
+        setError(null);
+
+        if (typeof MediaRecorder === 'undefined' || !navigator.mediaDevices?.getUserMedia) {
+            setError("Voice questions are not supported in this browser.");
+            return false;
+        }
+
+        let stream: MediaStream;
+        try {
+            stream = await navigator.mediaDevices.getUserMedia({ audio: { echoCancellation: true, noiseSuppression: true } });
+        } catch (err) {
+            console.error("Error accessing microphone:", err);
+            setError(describeMicrophoneError(err));
+            return false;
+        }
+
+        const recorder = new MediaRecorder(stream);
+        chunksRef.current = [];
+        recorder.ondataavailable = (event) => {
+            if (event.data.size > 0) {
+                chunksRef.current.push(event.data);
+            }
+        };
+        stoppedRef.current = new Promise(resolve => {
+            recorder.onstop = () => {
+                releaseMicrophone(recorder);
+                setIsRecording(false);
+                const blob = new Blob(chunksRef.current, { type: recorder.mimeType || 'audio/webm' });
+                resolve(blob.size > 0 ? blob : null);
+            };
+        });
+
+        recorderRef.current = recorder;
+        recorder.start();
+        setIsRecording(true);
+        // The clip stays available to `stop` so it is still sent when the button is released.
+        timeoutRef.current = window.setTimeout(() => {
+            if (recorder.state !== 'inactive') recorder.stop();
+        }, MAX_RECORDING_MS);
+        return true;
+    }, [releaseMicrophone]);
+
+    // Never leave the microphone on after the component goes away
+    useEffect(() => {
+        return () => {
+            const recorder = recorderRef.current;
+            if (recorder) {
+                recorder.onstop = null;
+                if (recorder.state !== 'inactive') recorder.stop();
+                releaseMicrophone(recorder);
+            }
+        };
+    }, [releaseMicrophone]);
+
+    return { isRecording, error, start, stop };
+}
@@ -2,6 +2,9 @@
 import React from 'react';
 import ReactDOM from 'react-dom/client';
 import App from './App';
+import { AIProviderScope } from './contexts/AIProviderContext';
+import { createAIProvider } from './services/aiProvider';
+import { registerServiceWorker } from './utils/serviceWorker';
 
 const rootElement = document.getElementById('root');
 if (!rootElement) {
@@ -11,6 +14,10 @@ if (!rootElement) {
 const root = ReactDOM.createRoot(rootElement);
 root.render(
   <React.StrictMode>
-    <App />
+    <AIProviderScope provider={createAIProvider()}>
+      <App />
+    </AIProviderScope>
   </React.StrictMode>
 );
+
+registerServiceWorker();
@@ -0,0 +1,98 @@
+// Service worker: keeps the app shell available offline. Saved history lives
+// in IndexedDB, so once the shell loads it can be browsed and replayed
+// without a connection. Calls to the model APIs are never cached here.
+
+// Filled in by the precache plugin in vite.config.ts with the build's hashed
+// scripts and styles. Each build changes this file, so browsers install the
+// new worker and the shell cache is replaced along with it.
+const BUILD = { id: 'dev', assets: [] };
+
+const CACHE_VERSION = 'v1';
+const SHELL_CACHE = `landmarklens-shell-${CACHE_VERSION}-${BUILD.id}`;
+const RUNTIME_CACHE = `landmarklens-runtime-${CACHE_VERSION}`;
+
+const SHELL_URLS = ['/', '/index.html', ...BUILD.assets];
+
+// Third-party hosts serving the versioned libraries and styles the page loads.
+const STATIC_HOSTS = ['aistudiocdn.com', 'cdn.tailwindcss.com'];
+
+self.addEventListener('install', (event) => {
+    event.waitUntil(
+        caches.open(SHELL_CACHE)
+            .then(cache => cache.addAll(SHELL_URLS))
+            .then(() => self.skipWaiting())
+    );
+});
+
+self.addEventListener('activate', (event) => {
+    event.waitUntil(
+        caches.keys()
+            .then(keys => Promise.all(
+                keys
+                    .filter(key => key.startsWith('landmarklens-') && key !== SHELL_CACHE && key !== RUNTIME_CACHE)
+                    .map(key => caches.delete(key))
+            ))
+            .then(() => self.clients.claim())
+    );
+});
+
+/** Pages: the latest version when online, the cached shell when not. */
+async function networkFirst(request) {
+    const cache = await caches.open(SHELL_CACHE);
+    try {
+        const response = await fetch(request);
+        if (response.ok) {
+            cache.put('/index.html', response.clone());
+        }
+        return response;
+    } catch (error) {
+        const cached = await cache.match('/index.html');
+        if (cached) return cached;
+        throw error;
+    }
+}
+
+/** Our own scripts and assets: served from the cache at once, refreshed in the background. */
+async function staleWhileRevalidate(request) {
+    const cache = await caches.open(RUNTIME_CACHE);
+    const cached = await caches.match(request);
+    const refresh = fetch(request)
+        .then(response => {
+            if (response.ok) {
+                cache.put(request, response.clone());
+            }
+            return response;
+        });
+    if (cached) {
+        refresh.catch(() => {});
+        return cached;
+    }
+    return refresh;
+}
+
+/** Versioned third-party files never change, so the network is only asked once. */
+async function cacheFirst(request) {
+    const cache = await caches.open(RUNTIME_CACHE);
+    const cached = await cache.match(request);
+    if (cached) return cached;
+    const response = await fetch(request);
+    // Cross-origin scripts loaded without CORS come back opaque; they are still worth keeping.
+    if (response.ok || response.type === 'opaque') {
+        cache.put(request, response.clone());
+    }
+    return response;
+}
+
+self.addEventListener('fetch', (event) => {
+    const { request } = event;
+    if (request.method !== 'GET') return;
+
+    const url = new URL(request.url);
+    if (request.mode === 'navigate') {
+        event.respondWith(networkFirst(request));
+    } else if (url.origin === self.location.origin) {
+        event.respondWith(staleWhileRevalidate(request));
+    } else if (STATIC_HOSTS.includes(url.hostname)) {
+        event.respondWith(cacheFirst(request));
+    }
+});
@@ -0,0 +1,84 @@
+import { LandmarkChatContext, LandmarkIdentificationResult, PhotoMetadata, TourLeg, TourOptions } from '../types';
+import { geminiProvider } from './geminiService';
+import { mockProvider } from './mockProvider';
+import { withResponseCache } from './cachedProvider';
+import type { RequestOptions } from './request';
+
+/**
+ * The set of AI capabilities the app relies on. Every backend (Gemini, the
+ * offline mock, ...) implements this interface so the UI never talks to a
+ * specific SDK directly.
+ *
+ * Every call takes optional RequestOptions last, to cancel it or change its
+ * time limit.
+ */
+export interface AIProvider {
+    /** Human readable name, shown in dev tooling and logs. */
+    name: string;
+    /** True when the user must pick a billing-enabled key before generating videos. */
+    requiresVideoKeySelection: boolean;
+    /** `hints` carries where and when the photo was taken, to help disambiguate look-alike landmarks. */
+    identifyLandmark(base64Image: string, mimeType: string, hints?: PhotoMetadata, options?: RequestOptions): Promise<LandmarkIdentificationResult>;
+    /**
+     * `language` is the BCP 47 code of the language the history is written in;
+     * `tour` sets its style and target length.
+     */
+    fetchLandmarkHistory(landmarkName: string, language: string, tour: TourOptions, options?: RequestOptions): Promise<{ text: string, sources: any[] }>;
+    narrateText(text: string, voiceName: string, language: string, tour: TourOptions, options?: RequestOptions): Promise<string>;
+    /**
+     * Like narrateText, but passes base64 PCM chunks to `onChunk` as they are
+     * synthesized and resolves with the complete narration.
+     */
+    narrateTextStream(
+        text: string,
+        voiceName: string,
+        language: string,
+        tour: TourOptions,
+        onChunk: (pcmBase64: string) => void,
+        options?: RequestOptions,
+    ): Promise<string>;
+    createVideoFromLandmark(
+        landmarkName: string,
+        initialImage: { imageBase64: string, imageMimeType: string },
+        updateProgress: (message: string) => void,
+        options?: RequestOptions,
+    ): Promise<Blob>;
+    /** Transcribes a short spoken question; `language` is the BCP 47 code the user is expected to speak. */
+    transcribeSpeech(audioBase64: string, mimeType: string, language: string, options?: RequestOptions): Promise<string>;
+    /** Starts a follow-up conversation about an identified landmark. */
+    startLandmarkChat(context: LandmarkChatContext): LandmarkChatSession;
+    /**
+     * Writes the spoken passage that leads from one stop of a walking tour to
+     * the next, one per leg and in the same order.
+     */
+    writeTourTransitions(legs: TourLeg[], language: string, options?: RequestOptions): Promise<string[]>;
+}
+
+/**
+ * A conversation that remembers earlier questions, so follow-ups like
+ * "and who designed it?" are understood.
+ */
+export interface LandmarkChatSession {
+    sendMessage(question: string, options?: RequestOptions): Promise<{ text: string, sources: any[] }>;
+}
+
+export type AIProviderId = 'gemini' | 'mock';
+
+/**
+ * Resolves the provider selected by the AI_PROVIDER environment variable.
+ * Defaults to Gemini so existing deployments keep their behaviour. Gemini
+ * responses are cached; the mock's are not, so fixture changes show up at once.
+ */
+export function createAIProvider(id: string | undefined = process.env.AI_PROVIDER): AIProvider {
+    switch (id) {
+        case 'mock':
+            return mockProvider;
+        case 'gemini':
+        case undefined:
+        case '':
+            return withResponseCache(geminiProvider);
+        default:
+            console.warn(`Unknown AI_PROVIDER "${id}", falling back to Gemini.`);
+            return withResponseCache(geminiProvider);
+    }
+}
@@ -0,0 +1,204 @@
+import { HistoryEntry, LandmarkAnalysis } from '../types';
+import { loadAnalysis } from './historyRepository';
+import { createWavBlobFromBase64 } from '../utils/audio';
+import { blobToBase64 } from '../utils/encoding';
+import { downloadBlob } from '../utils/files';
+import { formatPhotoMetadata } from '../utils/format';
+import { DEFAULT_LANGUAGE } from '../utils/language';
+
+/** An offline web page with narration players, or a layout printed to PDF. */
+export type BookletFormat = 'html' | 'pdf';
+
+export interface BookletOptions {
+    /** Shown on the cover and used as the file name. */
+    title: string;
+    /** Embeds each landmark's narration as an audio player. Printed booklets leave it out. */
+    includeAudio: boolean;
+}
+
+// Print dialogs that never report closing still release the frame eventually.
+const PRINT_FRAME_LIFETIME_MS = 60_000;
+// A booklet that hasn't loaded by then (e.g. too many large photos) is given up on.
+const PRINT_LOAD_TIMEOUT_MS = 30_000;
+
+const BOOKLET_STYLES = `
+    *, *::before, *::after { box-sizing: border-box; }
+    body { margin: 0; font-family: system-ui, -apple-system, "Segoe UI", Roboto, sans-serif; line-height: 1.6; color: #1f2937; background: #f9fafb; }
+    main { max-width: 48rem; margin: 0 auto; padding: 2rem 1.5rem; }
+    .cover { text-align: center; padding: 3rem 0 2rem; border-bottom: 2px solid #06b6d4; margin-bottom: 2rem; }
+    .cover h1 { font-size: 2.5rem; margin: 0 0 0.5rem; }
+    .cover p { color: #6b7280; margin: 0; }
+    .contents { text-align: left; display: inline-block; margin: 1.5rem auto 0; }
+    .landmark { margin-bottom: 3rem; }
+    .landmark img { width: 100%; max-height: 28rem; object-fit: cover; border-radius: 0.75rem; }
+    .landmark h2 { font-size: 1.875rem; margin: 1rem 0 0.25rem; }
+    .meta { color: #6b7280; font-size: 0.875rem; margin: 0 0 1rem; }
+    audio { width: 100%; margin-bottom: 1rem; }
+    .sources h3 { font-size: 0.75rem; text-transform: uppercase; letter-spacing: 0.05em; color: #6b7280; }
+    .sources a { color: #0e7490; word-break: break-all; }
+    footer { text-align: center; color: #9ca3af; font-size: 0.75rem; padding: 2rem 0; }
+    @page { margin: 1.5cm; }
+    @media print {
+        body { background: #fff; }
+        main { max-width: none; padding: 0; }
+        .cover { break-after: page; border: none; }
+        .landmark { break-before: page; margin: 0; }
+        .landmark img { max-height: 45vh; break-inside: avoid; }
+        audio { display: none; }
+        .sources a::after { content: " (" attr(href) ")"; color: #6b7280; }
+    }
+`;
+
+function escapeHtml(text: string): string {
+    return text
+        .replace(/&/g, '&amp;')
+        .replace(/</g, '&lt;')
+        .replace(/>/g, '&gt;')
+        .replace(/"/g, '&quot;')
+        .replace(/'/g, '&#39;');
+}
+
+async function renderLandmark(analysis: LandmarkAnalysis, index: number, includeAudio: boolean): Promise<string> {
+    const meta = formatPhotoMetadata(analysis.photoMetadata)
+        ?? new Date(analysis.createdAt).toLocaleDateString(undefined, { dateStyle: 'long' });
+    const paragraphs = analysis.history
+        .split(/\n\s*\n/)
+        .filter(paragraph => paragraph.trim())
+        .map(paragraph => `<p>${escapeHtml(paragraph.trim())}</p>`)
+        .join('\n');
+
+    let audio = '';
+    if (includeAudio && analysis.audioData) {
+        const wav = await blobToBase64(createWavBlobFromBase64(analysis.audioData));
+        audio = `<audio controls preload="none" src="data:audio/wav;base64,${wav}" aria-label="Narration of ${escapeHtml(analysis.name)}"></audio>`;
+    }
+
+    const links = analysis.sources
+        .filter(source => /^https?:/.test(source.web?.uri ?? ''))
+        .map(source => `<li><a href="${escapeHtml(source.web.uri)}">${escapeHtml(source.web.title || source.web.uri)}</a></li>`);
+    const sources = links.length > 0
+        ? `<section class="sources"><h3>Sources</h3><ul>${links.join('')}</ul></section>`
+        : '';
+
+    return `<article class="landmark" id="landmark-${index + 1}" lang="${escapeHtml(analysis.language ?? DEFAULT_LANGUAGE)}" dir="auto">
+<img src="data:${escapeHtml(analysis.imageMimeType)};base64,${analysis.imageBase64}" alt="${escapeHtml(analysis.name)}">
+<h2>${escapeHtml(analysis.name)}</h2>
+<p class="meta">${escapeHtml(meta)}</p>
+${audio}
+${paragraphs}
+${sources}
+</article>`;
+}
+
+/**
+ * Builds a booklet of analyses as a single HTML document. Photos and
+ * narration are embedded, so the page works without a connection.
+ * @param analyses The landmarks, in the order they appear.
+ * @returns The complete HTML document.
+ */
+export async function createBookletHtml(analyses: LandmarkAnalysis[], options: BookletOptions): Promise<string> {
+    const landmarks = await Promise.all(analyses.map((analysis, index) => renderLandmark(analysis, index, options.includeAudio)));
+    const contents = analyses.length > 1
+        ? `<ol class="contents">${analyses.map((analysis, index) => `<li><a href="#landmark-${index + 1}">${escapeHtml(analysis.name)}</a></li>`).join('')}</ol>`
+        : '';
+    const count = analyses.length === 1 ? '1 landmark' : `${analyses.length} landmarks`;
+    const date = new Date().toLocaleDateString(undefined, { dateStyle: 'long' });
+
+    return `<!DOCTYPE html>
+<html lang="${escapeHtml(analyses[0]?.language ?? DEFAULT_LANGUAGE)}">
+<head>
+<meta charset="utf-8">
+<meta name="viewport" content="width=device-width, initial-scale=1">
+<title>${escapeHtml(options.title)}</title>
+<style>${BOOKLET_STYLES}</style>
+</head>
+<body>
+<main>
+<header class="cover">
+<h1>${escapeHtml(options.title)}</h1>
+<p>${count} · ${escapeHtml(date)}</p>
+${contents}
+</header>
+${landmarks.join('\n')}
+<footer>Made with LandmarkLens</footer>
+</main>
+</body>
+</html>`;
+}
+
+/**
+ * Opens the browser's print dialog for a document, where it can be printed
+ * or saved as a PDF. The document is loaded in a hidden frame so the app
+ * stays as it is.
+ */
+function printHtml(html: string): Promise<void> {
+    return new Promise((resolve, reject) => {
+        const frame = document.createElement('iframe');
+        frame.setAttribute('aria-hidden', 'true');
+        frame.style.position = 'fixed';
+        frame.style.width = '0';
+        frame.style.height = '0';
+        frame.style.border = '0';
+
+        const remove = () => frame.remove();
+        const fail = () => {
+            clearTimeout(loadTimer);
+            remove();
+            reject(new Error("The booklet could not be prepared for printing."));
+        };
+        const loadTimer = setTimeout(fail, PRINT_LOAD_TIMEOUT_MS);
+
+        frame.onerror = fail;
+        frame.onload = async () => {
+            const printWindow = frame.contentWindow;
+            if (!printWindow) {
+                fail();
+                return;
+            }
+            // Print only once every photo is decoded, or pages come out blank.
+            await Promise.all(Array.from(printWindow.document.images).map(image => image.decode().catch(() => undefined)));
+            // Timed out meanwhile; the frame is already gone.
+            if (!frame.isConnected) return;
+            clearTimeout(loadTimer);
+            try {
+                printWindow.addEventListener('afterprint', remove, { once: true });
+                setTimeout(remove, PRINT_FRAME_LIFETIME_MS);
+                printWindow.focus();
+                printWindow.print();
+                resolve();
+            } catch (error) {
+                // Sandboxed or embedded pages may not be allowed to print.
+                remove();
+                reject(new Error("The print dialog could not be opened.", { cause: error }));
+            }
+        };
+        frame.srcdoc = html;
+        document.body.appendChild(frame);
+    });
+}
+
+/**
+ * Exports history entries as a booklet: a self-contained HTML file to
+ * download, or a printable layout to save as a PDF.
+ * @param entries The entries to include, in order.
+ * @param format 'html' downloads the file; 'pdf' opens the print dialog.
+ */
+export async function exportBooklet(entries: HistoryEntry[], format: BookletFormat): Promise<void> {
+    if (entries.length === 0) {
+        throw new Error("Choose at least one landmark to export.");
+    }
+
+    const loaded = await Promise.all(entries.map(entry => loadAnalysis(entry.id)));
+    const analyses = loaded.filter((analysis): analysis is LandmarkAnalysis => analysis !== null);
+    if (analyses.length === 0) {
+        throw new Error("These landmarks could not be found. They may have been deleted.");
+    }
+
+    const title = analyses.length === 1 ? analyses[0].name : 'My Landmark Tour';
+    const html = await createBookletHtml(analyses, { title, includeAudio: format === 'html' });
+    if (format === 'pdf') {
+        await printHtml(html);
+    } else {
+        downloadBlob(new Blob([html], { type: 'text/html' }), `${title.replace(/\s+/g, '_')}.html`);
+    }
+}
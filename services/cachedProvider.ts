@@ -0,0 +1,81 @@
+import { PhotoMetadata, TourOptions } from '../types';
+import type { AIProvider } from './aiProvider';
+import type { RequestOptions } from './request';
+import { CacheKind, CachedResponse, readCache, writeCache } from './responseCache';
+import { base64ToBytes, sha256Hex } from '../utils/encoding';
+
+// The cache only saves cost: when it can't be read or written, the model is asked as usual.
+
+async function lookup<T>(kind: CacheKind, key: string, options: RequestOptions): Promise<CachedResponse<T> | null> {
+    if (options.refresh) return null;
+    try {
+        const hit = await readCache<T>(kind, key);
+        if (hit) {
+            options.onCacheHit?.(hit.storedAt);
+        }
+        return hit;
+    } catch (error) {
+        console.warn(`Could not read the ${kind} cache:`, error);
+        return null;
+    }
+}
+
+function store(kind: CacheKind, key: string, value: unknown) {
+    writeCache(kind, key, value).catch(error => console.warn(`Could not write the ${kind} cache:`, error));
+}
+
+async function cached<T>(kind: CacheKind, key: string, options: RequestOptions, fetch: () => Promise<T>): Promise<T> {
+    const hit = await lookup<T>(kind, key, options);
+    if (hit) return hit.value;
+    const value = await fetch();
+    store(kind, key, value);
+    return value;
+}
+
+async function identificationKey(base64Image: string, hints?: PhotoMetadata): Promise<string> {
+    // Where the photo was taken steers the identification, so it is part of the key.
+    return `${await sha256Hex(base64ToBytes(base64Image))}:${JSON.stringify(hints ?? {})}`;
+}
+
+function historyKey(landmarkName: string, language: string, tour: TourOptions): string {
+    return `${landmarkName.trim().toLowerCase()}:${language}:${tour.style}:${tour.length}`;
+}
+
+async function narrationKey(text: string, voiceName: string, language: string, tour: TourOptions): Promise<string> {
+    return `${await sha256Hex(text)}:${voiceName}:${language}:${tour.style}:${tour.length}`;
+}
+
+/**
+ * Wraps a provider so that identifications, histories and narrations are
+ * kept in a persistent cache: the same photo, the same landmark or the same
+ * text is only sent to the model once. Pass `refresh` in the RequestOptions
+ * to fetch a fresh response instead.
+ */
+export function withResponseCache(provider: AIProvider): AIProvider {
+    return {
+        ...provider,
+        async identifyLandmark(base64Image, mimeType, hints, options = {}) {
+            const key = await identificationKey(base64Image, hints);
+            return cached('identification', key, options, () => provider.identifyLandmark(base64Image, mimeType, hints, options));
+        },
+        async fetchLandmarkHistory(landmarkName, language, tour, options = {}) {
+            const key = historyKey(landmarkName, language, tour);
+            return cached('history', key, options, () => provider.fetchLandmarkHistory(landmarkName, language, tour, options));
+        },
+        async narrateText(text, voiceName, language, tour, options = {}) {
+            const key = await narrationKey(text, voiceName, language, tour);
+            return cached('narration', key, options, () => provider.narrateText(text, voiceName, language, tour, options));
+        },
+        async narrateTextStream(text, voiceName, language, tour, onChunk, options = {}) {
+            const key = await narrationKey(text, voiceName, language, tour);
+            const hit = await lookup<string>('narration', key, options);
+            if (hit) {
+                onChunk(hit.value);
+                return hit.value;
+            }
+            const audioData = await provider.narrateTextStream(text, voiceName, language, tour, onChunk, options);
+            store('narration', key, audioData);
+            return audioData;
+        },
+    };
+}
@@ -0,0 +1,93 @@
+/**
+ * The kinds of failure the app can tell apart, each with its own message and
+ * recovery action.
+ */
+export type ErrorKind = 'auth' | 'quota' | 'safety' | 'network' | 'parse' | 'not-found' | 'timeout' | 'unknown';
+
+/** Base class of every failure the UI knows how to explain. */
+export class AppError extends Error {
+    constructor(message: string, readonly kind: ErrorKind, options?: { cause?: unknown }) {
+        super(message, options);
+        this.name = 'AppError';
+    }
+}
+
+/** The API key is missing, invalid or lacks access to the model. */
+export class AuthError extends AppError {
+    constructor(message = "The API key was rejected. Please select a different key and try again.", options?: { cause?: unknown }) {
+        super(message, 'auth', options);
+        this.name = 'AuthError';
+    }
+}
+
+/** The rate limit or quota of the API key has been used up. */
+export class QuotaError extends AppError {
+    constructor(message = "Too many requests right now. Please wait a moment and try again.", options?: { cause?: unknown }) {
+        super(message, 'quota', options);
+        this.name = 'QuotaError';
+    }
+}
+
+/** The model refused the photo, prompt or its own answer on safety grounds. */
+export class SafetyBlockError extends AppError {
+    constructor(message = "This photo couldn't be analyzed because it was flagged by the safety filters. Please try a different photo.", options?: { cause?: unknown }) {
+        super(message, 'safety', options);
+        this.name = 'SafetyBlockError';
+    }
+}
+
+/** The service could not be reached, or is temporarily unavailable. */
+export class NetworkError extends AppError {
+    constructor(message = "Could not reach the service. Please check your connection and try again.", options?: { cause?: unknown }) {
+        super(message, 'network', options);
+        this.name = 'NetworkError';
+    }
+}
+
+/** The model answered, but not in the shape that was asked for. */
+export class ParseError extends AppError {
+    constructor(message = "Could not understand the response from the service. Please try again.", options?: { cause?: unknown }) {
+        super(message, 'parse', options);
+        this.name = 'ParseError';
+    }
+}
+
+/** The model, operation or resource requested does not exist for this key. */
+export class NotFoundError extends AppError {
+    constructor(message = "The requested model or resource could not be found.", options?: { cause?: unknown }) {
+        super(message, 'not-found', options);
+        this.name = 'NotFoundError';
+    }
+}
+
+/** Thrown when an attempt takes longer than its time limit. */
+export class RequestTimeoutError extends AppError {
+    constructor(message = "The request took too long. Please try again.", options?: { cause?: unknown }) {
+        super(message, 'timeout', options);
+        this.name = 'RequestTimeoutError';
+    }
+}
+
+/**
+ * True for failures that trying the same request again won't fix: the model
+ * refuses the photo or can't answer it in the expected shape.
+ */
+export function isPermanentFailure(kind: ErrorKind): boolean {
+    return kind === 'safety' || kind === 'parse';
+}
+
+/**
+ * Wraps any thrown value in an AppError so the UI can always show a message
+ * and a recovery action. AppErrors are returned unchanged.
+ * @param error The value that was thrown.
+ * @param fallbackMessage The message used when `error` carries none.
+ * @returns The error as an AppError.
+ */
+export function toAppError(error: unknown, fallbackMessage: string): AppError {
+    if (error instanceof AppError) return error;
+    if (typeof navigator !== 'undefined' && !navigator.onLine) {
+        return new NetworkError("You appear to be offline. Please check your connection and try again.", { cause: error });
+    }
+    const message = error instanceof Error && error.message ? error.message : fallbackMessage;
+    return new AppError(message, 'unknown', { cause: error });
+}
@@ -1,11 +1,104 @@
-import { GoogleGenAI, Modality, Type, VideoGenerationReferenceImage, VideoGenerationReferenceType } from "@google/genai";
-import { LandmarkIdentificationResult } from '../types';
+import { Content, FinishReason, GenerateContentResponse, GoogleGenAI, Modality, Type, VideoGenerationReferenceImage, VideoGenerationReferenceType } from "@google/genai";
+import { LandmarkIdentificationResult, DetectedLandmark, LandmarkCandidate, PhotoMetadata, TourLength, TourOptions, TourStyle, LandmarkChatContext, TourLeg } from '../types';
+import type { AIProvider, LandmarkChatSession } from './aiProvider';
+import { HttpError, RequestOptions, RetryPolicy, isAbortError, sleep, withRetry } from './request';
+import { AppError, AuthError, NetworkError, NotFoundError, ParseError, QuotaError, RequestTimeoutError, SafetyBlockError } from './errors';
+import { base64ToBytes, bytesToBase64, concatBytes } from '../utils/encoding';
+import { chunkSentences, splitIntoSentences } from '../utils/text';
+import { DEFAULT_LANGUAGE, getEnglishLanguageName } from '../utils/language';
+import { DEFAULT_TOUR_OPTIONS, getTourSeconds } from '../utils/tour';
+import { fallbackTransition } from '../utils/itinerary';
 
-if (!process.env.API_KEY) {
-    throw new Error("API_KEY environment variable not set");
+let client: GoogleGenAI | null = null;
+let clientApiKey: string | undefined;
+
+/**
+ * Lazily creates the shared Gemini client so that importing this module
+ * without an API key (e.g. when running against the mock provider) is safe.
+ * The client is recreated when the user switches to another key.
+ */
+function getClient(): GoogleGenAI {
+    if (!process.env.API_KEY) {
+        throw new AuthError("No API key is configured. Please set the API_KEY environment variable.");
+    }
+    if (!client || clientApiKey !== process.env.API_KEY) {
+        client = new GoogleGenAI({ apiKey: process.env.API_KEY });
+        clientApiKey = process.env.API_KEY;
+    }
+    return client;
+}
+
+// Speech synthesis of a long history can take well over a minute.
+const NARRATION_TIMEOUT_MS = 180000;
+const VIDEO_POLL_INTERVAL_MS = 10000;
+// Veo usually finishes within a few minutes; past this the operation is assumed stuck.
+const MAX_VIDEO_POLL_MS = 15 * 60 * 1000;
+const VIDEO_DOWNLOAD_TIMEOUT_MS = 120000;
+
+/**
+ * Turns what the SDK or fetch threw into the matching AppError, so the UI can
+ * explain it and offer the right recovery. Aborts pass through unchanged.
+ */
+function classifyError(error: unknown): unknown {
+    if (error instanceof AppError || isAbortError(error)) return error;
+    const status = (error as { status?: unknown })?.status;
+    const message = error instanceof Error ? error.message : '';
+    if (status === 401 || status === 403 || /API key not valid|API_KEY_INVALID|PERMISSION_DENIED/i.test(message)) {
+        return new AuthError(undefined, { cause: error });
+    }
+    if (status === 404 || message.includes("Requested entity was not found")) {
+        return new NotFoundError("The requested model isn't available for this API key. Please select a different key and try again.", { cause: error });
+    }
+    if (status === 429 || /RESOURCE_EXHAUSTED|quota/i.test(message)) {
+        return new QuotaError(undefined, { cause: error });
+    }
+    if (typeof status === 'number' && status >= 500) {
+        return new NetworkError("The service is temporarily unavailable. Please try again in a few minutes.", { cause: error });
+    }
+    if (error instanceof TypeError && /fetch|network/i.test(message)) {
+        return new NetworkError(undefined, { cause: error });
+    }
+    return error;
+}
+
+/**
+ * Makes a model call through the shared retry wrapper and reports failures
+ * as typed errors.
+ */
+async function callModel<T>(
+    call: (signal: AbortSignal) => Promise<T>,
+    options: RequestOptions,
+    policy?: Partial<RetryPolicy>,
+): Promise<T> {
+    try {
+        return await withRetry(call, options, policy);
+    } catch (error) {
+        throw classifyError(error);
+    }
 }
 
-const ai = new GoogleGenAI({ apiKey: process.env.API_KEY });
+const BLOCKED_FINISH_REASONS: ReadonlySet<string> = new Set([
+    FinishReason.SAFETY,
+    FinishReason.BLOCKLIST,
+    FinishReason.PROHIBITED_CONTENT,
+    FinishReason.SPII,
+    FinishReason.IMAGE_SAFETY,
+    FinishReason.IMAGE_PROHIBITED_CONTENT,
+]);
+
+/**
+ * A blocked prompt or answer comes back as an ordinary response with no
+ * content, so it has to be recognised before the content is read.
+ */
+function assertNotBlocked(response: GenerateContentResponse): void {
+    const finishReason = response.candidates?.[0]?.finishReason;
+    if (response.promptFeedback?.blockReason || (finishReason && BLOCKED_FINISH_REASONS.has(finishReason))) {
+        throw new SafetyBlockError();
+    }
+}
+
+/** Maximum number of alternative candidates returned for an identification. */
+const MAX_ALTERNATIVES = 3;
 
 const landmarkIdentificationSchema = {
     type: Type.OBJECT,
@@ -22,62 +115,233 @@ const landmarkIdentificationSchema = {
             type: Type.STRING, 
             description: 'If no landmark is identified, this is a brief, one-sentence description of the main subject of the image. Otherwise, this is null.' 
         },
+        confidence: {
+            type: Type.NUMBER,
+            description: 'Confidence that name is correct, from 0 (a guess) to 1 (certain). 0 if no landmark is identified.'
+        },
+        alternatives: {
+            type: Type.ARRAY,
+            description: `Up to ${MAX_ALTERNATIVES} other landmarks the image could plausibly show instead of name, most likely first. Empty if the identification is certain.`,
+            items: {
+                type: Type.OBJECT,
+                properties: {
+                    name: { type: Type.STRING, description: 'Official name and location of the alternative landmark.' },
+                    confidence: { type: Type.NUMBER, description: 'Confidence in this alternative, from 0 to 1.' },
+                },
+                required: ['name', 'confidence'],
+            },
+        },
+        landmarks: {
+            type: Type.ARRAY,
+            description: 'Every famous, identifiable landmark visible in the image, most prominent first. Empty if there are none.',
+            items: {
+                type: Type.OBJECT,
+                properties: {
+                    name: {
+                        type: Type.STRING,
+                        description: 'Official name and location of the landmark (e.g., "Eiffel Tower, Paris, France").'
+                    },
+                    confidence: {
+                        type: Type.NUMBER,
+                        description: 'Confidence in this identification, from 0 (a guess) to 1 (certain).'
+                    },
+                    box_2d: {
+                        type: Type.ARRAY,
+                        description: 'Bounding box of the landmark as [ymin, xmin, ymax, xmax], normalized to 0-1000.',
+                        items: { type: Type.INTEGER },
+                    },
+                    latitude: {
+                        type: Type.NUMBER,
+                        description: 'Approximate latitude of the landmark in decimal degrees.',
+                        nullable: true,
+                    },
+                    longitude: {
+                        type: Type.NUMBER,
+                        description: 'Approximate longitude of the landmark in decimal degrees.',
+                        nullable: true,
+                    },
+                },
+                required: ['name', 'confidence', 'box_2d'],
+            },
+        },
     },
-    required: ['isLandmark', 'name', 'description'],
+    required: ['isLandmark', 'name', 'description', 'confidence', 'alternatives', 'landmarks'],
 };
 
+interface RawDetectedLandmark {
+    name: string;
+    confidence: number;
+    box_2d: number[];
+    latitude?: number | null;
+    longitude?: number | null;
+}
+
+function clampConfidence(value: unknown): number {
+    return typeof value === 'number' ? Math.min(Math.max(value, 0), 1) : 0;
+}
+
+function toDetectedLandmark(raw: RawDetectedLandmark): DetectedLandmark {
+    const [yMin, xMin, yMax, xMax] = raw.box_2d.map(value => Math.min(Math.max(value / 1000, 0), 1));
+    return {
+        name: raw.name,
+        confidence: clampConfidence(raw.confidence),
+        boundingBox: { xMin, yMin, xMax, yMax },
+        ...(typeof raw.latitude === 'number' && typeof raw.longitude === 'number'
+            && Math.abs(raw.latitude) <= 90 && Math.abs(raw.longitude) <= 180
+            && { location: { latitude: raw.latitude, longitude: raw.longitude } }),
+    };
+}
 
-export async function identifyLandmark(base64Image: string, mimeType: string): Promise<LandmarkIdentificationResult> {
-    const response = await ai.models.generateContent({
+
+/**
+ * Turns photo metadata into a prompt sentence the model can use to tell
+ * look-alike landmarks apart. Returns an empty string when nothing is known.
+ */
+function describePhotoContext(hints?: PhotoMetadata): string {
+    if (!hints) return '';
+    const facts: string[] = [];
+    if (hints.latitude !== undefined && hints.longitude !== undefined) {
+        facts.push(`taken at GPS coordinates ${hints.latitude.toFixed(5)}, ${hints.longitude.toFixed(5)}`);
+    }
+    if (hints.heading !== undefined) {
+        facts.push(`with the camera facing ${Math.round(hints.heading)} degrees from north`);
+    }
+    if (hints.capturedAt) {
+        facts.push(`on ${hints.capturedAt}`);
+    }
+    return facts.length > 0
+        ? ` The photo was ${facts.join(' ')}. Use this to disambiguate between similar-looking landmarks, but trust what is visible in the image.`
+        : '';
+}
+
+export async function identifyLandmark(
+    base64Image: string,
+    mimeType: string,
+    hints?: PhotoMetadata,
+    options: RequestOptions = {},
+): Promise<LandmarkIdentificationResult> {
+    const response = await callModel(signal => getClient().models.generateContent({
         model: 'gemini-2.5-flash',
         contents: {
             parts: [
-                { text: "Analyze the image. If it contains a famous, identifiable landmark, set isLandmark to true and provide its name and location. If not, set isLandmark to false and provide a brief description of the image's subject." },
+                { text: "Analyze the image. If it contains one or more famous, identifiable landmarks, set isLandmark to true, set name to the most prominent one with your confidence in it, suggest alternatives if you are unsure, and list every landmark you can see with its name, location, confidence, bounding box and approximate coordinates. If not, set isLandmark to false, return an empty landmarks list and provide a brief description of the image's subject." + describePhotoContext(hints) },
                 { inlineData: { data: base64Image, mimeType } }
             ]
         },
         config: {
             responseMimeType: "application/json",
             responseSchema: landmarkIdentificationSchema,
+            abortSignal: signal,
         },
-    });
+    }), options);
+    assertNotBlocked(response);
 
     try {
         const jsonString = response.text.trim();
-        const result: LandmarkIdentificationResult = JSON.parse(jsonString);
+        const result = JSON.parse(jsonString);
         
         if (typeof result.isLandmark !== 'boolean') {
-            throw new Error("Invalid response format from identification model.");
+            throw new ParseError("Invalid response format from identification model.");
         }
+
+        const landmarks: DetectedLandmark[] = (Array.isArray(result.landmarks) ? result.landmarks : [])
+            .filter((landmark: RawDetectedLandmark) => landmark?.name && Array.isArray(landmark.box_2d) && landmark.box_2d.length === 4)
+            .map(toDetectedLandmark)
+            .sort((a: DetectedLandmark, b: DetectedLandmark) => b.confidence - a.confidence);
         
-        return result;
+        const alternatives: LandmarkCandidate[] = (Array.isArray(result.alternatives) ? result.alternatives : [])
+            .filter((candidate: LandmarkCandidate) => candidate?.name && candidate.name !== result.name)
+            .map((candidate: LandmarkCandidate) => ({ name: candidate.name, confidence: clampConfidence(candidate.confidence) }))
+            .slice(0, MAX_ALTERNATIVES);
+        
+        return {
+            isLandmark: result.isLandmark,
+            name: result.name ?? landmarks[0]?.name ?? null,
+            description: result.description ?? null,
+            confidence: clampConfidence(result.confidence ?? landmarks[0]?.confidence),
+            alternatives,
+            landmarks,
+        };
 
     } catch (e) {
         console.error("Failed to parse landmark identification response:", e);
         console.error("Raw response text:", response.text);
-        throw new Error("Could not understand the response from the identification service.");
+        throw new ParseError("Could not understand the response from the identification service.", { cause: e });
     }
 }
 
-export async function fetchLandmarkHistory(landmarkName: string): Promise<{ text: string, sources: any[] }> {
-    const response = await ai.models.generateContent({
+const HISTORY_STYLE_PROMPTS: Record<TourStyle, (landmarkName: string) => string> = {
+    'standard': name => `Provide a brief, engaging history of ${name} suitable for a tourist.`,
+    'kids': name => `Tell the history of ${name} for children aged 6 to 11, using simple words, fun facts and a question or two to spark their curiosity.`,
+    'architecture': name => `Give an architecture-focused tour of ${name}: its style, materials, construction techniques, engineering challenges and the architects and builders behind it.`,
+    'quick-facts': name => `Tell a visitor the key facts about ${name}: when and why it was built, notable numbers and details worth looking for. Use short, punchy sentences rather than a list.`,
+    'storytelling': name => `Tell the history of ${name} as a vivid story centred on the real people and turning points behind it, while staying historically accurate.`,
+    'legends': name => `Share the local legends, myths and folklore associated with ${name}, making clear which parts are legend and which are documented history.`,
+};
+
+const NARRATION_STYLE_VOICES: Record<TourStyle, string> = {
+    'standard': 'a clear, friendly tour guide voice',
+    'kids': 'a warm, playful and enthusiastic voice for children',
+    'architecture': 'a calm, knowledgeable and precise voice',
+    'quick-facts': 'a crisp, upbeat voice',
+    'storytelling': "an expressive storyteller's voice",
+    'legends': "a hushed, atmospheric storyteller's voice",
+};
+
+const NARRATION_LENGTH_PACES: Record<TourLength, string> = {
+    'short': ', at a brisk pace',
+    'medium': '',
+    'long': ', at a relaxed, unhurried pace',
+};
+
+// Typical speaking rate of the narration voices, used to size the history text.
+const WORDS_PER_SECOND = 2.5;
+
+function buildHistoryPrompt(landmarkName: string, language: string, tour: TourOptions): string {
+    const seconds = getTourSeconds(tour.length);
+    const readingTime = seconds < 60 ? `${seconds} seconds` : `${seconds / 60} minutes`;
+    let prompt = `${HISTORY_STYLE_PROMPTS[tour.style](landmarkName)} Keep it to about ${Math.round(seconds * WORDS_PER_SECOND)} words (roughly ${readingTime} when read aloud), written as plain prose without headings or lists.`;
+    if (language !== DEFAULT_LANGUAGE) {
+        prompt += ` Write it in ${getEnglishLanguageName(language)}, keeping proper names in their usual local form.`;
+    }
+    return prompt;
+}
+
+export async function fetchLandmarkHistory(
+    landmarkName: string,
+    language: string = DEFAULT_LANGUAGE,
+    tour: TourOptions = DEFAULT_TOUR_OPTIONS,
+    options: RequestOptions = {},
+): Promise<{ text: string, sources: any[] }> {
+    const prompt = buildHistoryPrompt(landmarkName, language, tour);
+
+    const response = await callModel(signal => getClient().models.generateContent({
         model: 'gemini-2.5-flash',
-        contents: `Provide a brief, engaging history of ${landmarkName} suitable for a tourist. Keep it to one or two paragraphs.`,
+        contents: prompt,
         config: {
-            tools: [{ googleSearch: {} }]
+            tools: [{ googleSearch: {} }],
+            abortSignal: signal,
         }
-    });
+    }), options);
+    assertNotBlocked(response);
     
     const text = response.text;
+    if (!text) {
+        throw new ParseError("The history service returned an empty answer. Please try again.");
+    }
     const sources = response.candidates?.[0]?.groundingMetadata?.groundingChunks || [];
 
     return { text, sources };
 }
 
-export async function narrateText(text: string, voiceName: string): Promise<string> {
-    const response = await ai.models.generateContent({
+function buildNarrationRequest(text: string, voiceName: string, language: string, tour: TourOptions, signal: AbortSignal) {
+    const delivery = `${NARRATION_STYLE_VOICES[tour.style]}${NARRATION_LENGTH_PACES[tour.length]}`;
+    const instruction = language === DEFAULT_LANGUAGE
+        ? `Read this in ${delivery}`
+        : `Read this aloud in ${getEnglishLanguageName(language)}, in ${delivery}`;
+    return {
         model: "gemini-2.5-flash-preview-tts",
-        contents: [{ parts: [{ text: `Read this in a clear, friendly tour guide voice: ${text}` }] }],
+        contents: [{ parts: [{ text: `${instruction}: ${text}` }] }],
         config: {
             responseModalities: [Modality.AUDIO],
             speechConfig: {
@@ -85,23 +349,86 @@ export async function narrateText(text: string, voiceName: string): Promise<stri
                     prebuiltVoiceConfig: { voiceName },
                 },
             },
+            abortSignal: signal,
         },
-    });
+    };
+}
+
+export async function narrateText(
+    text: string,
+    voiceName: string,
+    language: string = DEFAULT_LANGUAGE,
+    tour: TourOptions = DEFAULT_TOUR_OPTIONS,
+    options: RequestOptions = {},
+): Promise<string> {
+    const response = await callModel(
+        signal => getClient().models.generateContent(buildNarrationRequest(text, voiceName, language, tour, signal)),
+        options,
+        { timeoutMs: NARRATION_TIMEOUT_MS },
+    );
+    assertNotBlocked(response);
 
     const audioData = response.candidates?.[0]?.content?.parts?.[0]?.inlineData?.data;
     if (!audioData) {
-        throw new Error("Failed to generate audio from text.");
+        throw new ParseError("Failed to generate audio from text.");
     }
     return audioData;
 }
 
-async function generateReferenceImage(landmarkName: string, prompt: string): Promise<{ imageBytes: string; mimeType: string; } | null> {
+/**
+ * Streams narration sentence by sentence. Each PCM chunk is handed to
+ * `onChunk` as soon as it arrives, so playback can begin while the rest of
+ * the text is still being synthesized.
+ * @returns The complete narration, once every chunk has arrived.
+ */
+export async function narrateTextStream(
+    text: string,
+    voiceName: string,
+    language: string,
+    tour: TourOptions,
+    onChunk: (pcmBase64: string) => void,
+    options: RequestOptions = {},
+): Promise<string> {
+    const pcmChunks: Uint8Array[] = [];
+
+    for (const segment of chunkSentences(splitIntoSentences(text, language))) {
+        await callModel(async signal => {
+            let received = 0;
+            try {
+                const stream = await getClient().models.generateContentStream(buildNarrationRequest(segment, voiceName, language, tour, signal));
+                for await (const chunk of stream) {
+                    assertNotBlocked(chunk);
+                    const audioData = chunk.candidates?.[0]?.content?.parts?.[0]?.inlineData?.data;
+                    if (audioData) {
+                        received++;
+                        pcmChunks.push(base64ToBytes(audioData));
+                        onChunk(audioData);
+                    }
+                }
+            } catch (error) {
+                // Audio already handed to the player can't be taken back, so a
+                // segment that broke off part-way must not be retried.
+                if (received > 0 && !isAbortError(error) && !(error instanceof AppError)) {
+                    throw new NetworkError("The narration was interrupted. Please try again.", { cause: error });
+                }
+                throw error;
+            }
+        }, options, { timeoutMs: NARRATION_TIMEOUT_MS });
+    }
+
+    if (pcmChunks.length === 0) {
+        throw new ParseError("Failed to generate audio from text.");
+    }
+    return bytesToBase64(concatBytes(pcmChunks));
+}
+
+async function generateReferenceImage(landmarkName: string, prompt: string, options: RequestOptions): Promise<{ imageBytes: string; mimeType: string; } | null> {
     try {
-        const response = await ai.models.generateContent({
+        const response = await callModel(signal => getClient().models.generateContent({
             model: 'gemini-2.5-flash-image',
             contents: { parts: [{ text: prompt }] },
-            config: { responseModalities: [Modality.IMAGE] },
-        });
+            config: { responseModalities: [Modality.IMAGE], abortSignal: signal },
+        }), options);
         const part = response.candidates?.[0]?.content?.parts?.[0];
         if (part?.inlineData) {
             return {
@@ -111,6 +438,8 @@ async function generateReferenceImage(landmarkName: string, prompt: string): Pro
         }
         return null;
     } catch (error) {
+        // Without a usable key the video itself would fail too, so say so now.
+        if (isAbortError(error) || error instanceof AuthError || error instanceof NotFoundError) throw error;
         console.error(`Failed to generate reference image for prompt "${prompt}":`, error);
         return null;
     }
@@ -120,7 +449,8 @@ async function generateReferenceImage(landmarkName: string, prompt: string): Pro
 export async function createVideoFromLandmark(
     landmarkName: string,
     initialImage: { imageBase64: string, imageMimeType: string },
-    updateProgress: (message: string) => void
+    updateProgress: (message: string) => void,
+    options: RequestOptions = {},
 ): Promise<string> {
 
     updateProgress("Generating additional scenes...");
@@ -130,7 +460,7 @@ export async function createVideoFromLandmark(
     ];
 
     const generatedImages = await Promise.all(
-        imagePrompts.map(prompt => generateReferenceImage(landmarkName, prompt))
+        imagePrompts.map(prompt => generateReferenceImage(landmarkName, prompt, options))
     );
     
     const referenceImagesPayload: VideoGenerationReferenceImage[] = [
@@ -151,35 +481,226 @@ export async function createVideoFromLandmark(
 
     updateProgress(`Composing video with ${referenceImagesPayload.length} scenes...`);
 
+    // A fresh client picks up a key the user may have just selected for Veo.
     const veoAi = new GoogleGenAI({ apiKey: process.env.API_KEY });
 
-    let operation = await veoAi.models.generateVideos({
+    // Each submission starts a separate billed job, so a failed one isn't
+    // repeated; only the polls below are retried.
+    let operation = await callModel(signal => veoAi.models.generateVideos({
         model: 'veo-3.1-generate-preview',
         prompt: `Create a short, cinematic video tour of ${landmarkName}, using the provided images as creative reference.`,
         config: {
             numberOfVideos: 1,
             referenceImages: referenceImagesPayload,
             resolution: '720p',
-            aspectRatio: '16:9'
+            aspectRatio: '16:9',
+            abortSignal: signal,
         }
-    });
+    }), options, { retries: 0 });
 
     updateProgress("Video generation in progress... This may take a few minutes.");
 
+    const deadline = Date.now() + MAX_VIDEO_POLL_MS;
     let pollCount = 0;
     while (!operation.done) {
+        if (Date.now() > deadline) {
+            throw new RequestTimeoutError("Video generation is taking much longer than expected. Please try again later.");
+        }
         pollCount++;
-        await new Promise(resolve => setTimeout(resolve, 10000));
-        operation = await veoAi.operations.getVideosOperation({ operation: operation });
+        await sleep(VIDEO_POLL_INTERVAL_MS, options.signal);
+        const pending = operation;
+        operation = await callModel(signal => veoAi.operations.getVideosOperation({ operation: pending, config: { abortSignal: signal } }), options);
         
         const progress = operation.metadata?.progressPercentage || (pollCount * 5); // Fallback progress
         updateProgress(`Rendering video... ${Math.min(progress, 99)}% complete. This may take a few minutes.`);
     }
 
+    if (operation.error) {
+        console.error("Video generation operation failed:", operation.error);
+        throw new AppError(`Video generation failed: ${operation.error.message ?? 'unknown error'}`, 'unknown');
+    }
+    if (operation.response?.raiMediaFilteredCount) {
+        throw new SafetyBlockError("The video was blocked by the safety filters. Please try a different photo.");
+    }
     const downloadLink = operation.response?.generatedVideos?.[0]?.video?.uri;
     if (!downloadLink) {
-        throw new Error("Video generation completed, but no download link was provided.");
+        throw new ParseError("Video generation completed, but no download link was provided.");
     }
     
     return downloadLink;
 }
+
+async function downloadVideo(downloadLink: string, options: RequestOptions = {}): Promise<Blob> {
+    return callModel(async signal => {
+        const response = await fetch(`${downloadLink}&key=${process.env.API_KEY}`, { signal });
+        if (!response.ok) {
+            throw new HttpError(`Failed to download video: ${response.statusText}`, response.status);
+        }
+        return response.blob();
+    }, options, { timeoutMs: VIDEO_DOWNLOAD_TIMEOUT_MS });
+}
+
+export async function transcribeSpeech(
+    audioBase64: string,
+    mimeType: string,
+    language: string = DEFAULT_LANGUAGE,
+    options: RequestOptions = {},
+): Promise<string> {
+    const response = await callModel(signal => getClient().models.generateContent({
+        model: 'gemini-2.5-flash',
+        contents: {
+            parts: [
+                { inlineData: { data: audioBase64, mimeType } },
+                { text: `Transcribe the question spoken in this recording, most likely in ${getEnglishLanguageName(language)}. Reply with the transcription only, without quotes or commentary. If nothing intelligible is said, reply with an empty message.` },
+            ],
+        },
+        config: { abortSignal: signal },
+    }), options);
+    assertNotBlocked(response);
+
+    const text = response.text?.trim();
+    if (!text) {
+        throw new ParseError("Sorry, we couldn't make out your question. Please try again.");
+    }
+    return text;
+}
+
+/**
+ * Starts a grounded chat about a landmark. The conversation is seeded with
+ * the photo and the history already shown to the user, so answers can refer
+ * back to both, followed by any earlier questions and answers.
+ */
+export function startLandmarkChat(context: LandmarkChatContext): LandmarkChatSession {
+    let systemInstruction = `You are a knowledgeable, friendly tour guide answering a visitor's follow-up questions about ${context.landmarkName}. Answer concisely in a few sentences of plain prose, without headings or lists, and use Google Search for anything time-sensitive such as opening hours, prices or events.`;
+    if (context.language !== DEFAULT_LANGUAGE) {
+        systemInstruction += ` Always answer in ${getEnglishLanguageName(context.language)}.`;
+    }
+
+    const history: Content[] = [
+        {
+            role: 'user',
+            parts: [
+                { inlineData: { data: context.imageBase64, mimeType: context.imageMimeType } },
+                { text: `This is my photo of ${context.landmarkName}. Tell me about it.` },
+            ],
+        },
+        { role: 'model', parts: [{ text: context.history }] },
+        ...context.transcript.map((message): Content => ({
+            role: message.role === 'user' ? 'user' : 'model',
+            parts: [{ text: message.text }],
+        })),
+    ];
+
+    // A per-message config replaces the chat's own, so it is repeated with each message.
+    const config = {
+        systemInstruction,
+        tools: [{ googleSearch: {} }],
+    };
+    const chat = getClient().chats.create({
+        model: 'gemini-2.5-flash',
+        config,
+        history,
+    });
+
+    return {
+        async sendMessage(question, options = {}) {
+            const response = await callModel(
+                signal => chat.sendMessage({ message: question, config: { ...config, abortSignal: signal } }),
+                options,
+            );
+            assertNotBlocked(response);
+            const text = response.text;
+            if (!text) {
+                throw new ParseError("The guide could not answer that question. Please try rephrasing it.");
+            }
+            return { text, sources: response.candidates?.[0]?.groundingMetadata?.groundingChunks || [] };
+        },
+    };
+}
+
+const tourTransitionsSchema = {
+    type: Type.OBJECT,
+    properties: {
+        transitions: {
+            type: Type.ARRAY,
+            description: "One passage per leg, in the order the legs were given.",
+            items: { type: Type.STRING },
+        },
+    },
+    required: ['transitions'],
+};
+
+function describeTourLeg(leg: TourLeg, index: number): string {
+    let description = `${index + 1}. From ${leg.from} to ${leg.to}`;
+    if (leg.distanceMeters !== undefined) {
+        description += `: about ${Math.round(leg.distanceMeters)} m to the ${leg.direction}, roughly ${leg.walkingMinutes} minutes on foot`;
+    }
+    return `${description}.`;
+}
+
+/**
+ * Asks the model for a transition per leg.
+ * @returns One passage per leg, or null where the model skipped a leg.
+ */
+async function requestTourTransitions(legs: TourLeg[], language: string, options: RequestOptions): Promise<(string | null)[]> {
+    let prompt = `You are a tour guide narrating a walking tour. For each leg below, write one or two spoken sentences that lead the listener from one stop to the next, for example "From the Colosseum, walk ten minutes north to the Roman Forum, once the heart of the city." Use the distances and directions given; where none are given, do not invent them. Write plain prose without headings or lists.\n\n${legs.map(describeTourLeg).join('\n')}`;
+    if (language !== DEFAULT_LANGUAGE) {
+        prompt += `\n\nWrite the passages in ${getEnglishLanguageName(language)}, keeping proper names in their usual local form.`;
+    }
+
+    const response = await callModel(signal => getClient().models.generateContent({
+        model: 'gemini-2.5-flash',
+        contents: prompt,
+        config: {
+            responseMimeType: "application/json",
+            responseSchema: tourTransitionsSchema,
+            abortSignal: signal,
+        },
+    }), options);
+    assertNotBlocked(response);
+
+    let transitions: unknown[];
+    try {
+        const result = JSON.parse(response.text.trim());
+        transitions = Array.isArray(result.transitions) ? result.transitions : [];
+    } catch (e) {
+        console.error("Failed to parse tour transitions response:", e);
+        console.error("Raw response text:", response.text);
+        throw new ParseError("Could not understand the response from the tour writer.", { cause: e });
+    }
+    return legs.map((_, index) => {
+        const transition = transitions[index];
+        return typeof transition === 'string' && transition.trim() ? transition.trim() : null;
+    });
+}
+
+export async function writeTourTransitions(legs: TourLeg[], language: string = DEFAULT_LANGUAGE, options: RequestOptions = {}): Promise<string[]> {
+    if (legs.length === 0) return [];
+
+    const transitions = await requestTourTransitions(legs, language, options);
+    // Legs the model skipped are asked for once more on their own.
+    const missing = legs.map((_, index) => index).filter(index => transitions[index] === null);
+    if (missing.length > 0) {
+        const retried = await requestTourTransitions(missing.map(index => legs[index]), language, options);
+        missing.forEach((legIndex, index) => { transitions[legIndex] = retried[index]; });
+    }
+    // A leg still without a passage needs something to bridge the two stops.
+    return legs.map((leg, index) => transitions[index] ?? fallbackTransition(leg.to, language));
+}
+
+export const geminiProvider: AIProvider = {
+    name: 'Gemini',
+    requiresVideoKeySelection: true,
+    identifyLandmark,
+    fetchLandmarkHistory,
+    narrateText,
+    narrateTextStream,
+    createVideoFromLandmark: async (landmarkName, initialImage, updateProgress, options) => {
+        const downloadLink = await createVideoFromLandmark(landmarkName, initialImage, updateProgress, options);
+        updateProgress('Downloading generated video...');
+        return downloadVideo(downloadLink, options);
+    },
+    transcribeSpeech,
+    startLandmarkChat,
+    writeTourTransitions,
+};
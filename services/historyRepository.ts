@@ -0,0 +1,393 @@
+import { ChatMessage, HistoryEntry, LandmarkAnalysis, PendingPhoto, Tour } from '../types';
+import { base64ToBlob, blobToBase64 } from '../utils/encoding';
+import { createThumbnail } from '../utils/image';
+import { getAnalysisLocation } from '../utils/geo';
+import { requestToPromise, transactionDone } from '../utils/indexedDb';
+import { DEFAULT_LANGUAGE } from '../utils/language';
+
+const DB_NAME = 'landmarklens';
+const DB_VERSION = 3;
+const LEGACY_STORAGE_KEY = 'landmarkHistory';
+const PCM_MIME_TYPE = 'audio/pcm;rate=24000';
+
+const ENTRIES_STORE = 'entries';
+const DETAILS_STORE = 'details';
+const IMAGES_STORE = 'images';
+const AUDIO_STORE = 'audio';
+const TOURS_STORE = 'tours';
+const TOUR_AUDIO_STORE = 'tourAudio';
+const PENDING_PHOTOS_STORE = 'pendingPhotos';
+
+/**
+ * Everything about an analysis except its image and audio, kept apart from
+ * the index so listing stays cheap.
+ */
+type StoredDetails = Omit<LandmarkAnalysis, 'name' | 'createdAt' | 'imageBase64' | 'audioData'>;
+
+let dbPromise: Promise<IDBDatabase> | null = null;
+
+function openDatabase(): Promise<IDBDatabase> {
+    if (!dbPromise) {
+        dbPromise = new Promise((resolve, reject) => {
+            const request = indexedDB.open(DB_NAME, DB_VERSION);
+            request.onupgradeneeded = (event) => {
+                const db = request.result;
+                if (event.oldVersion < 1) {
+                    const entries = db.createObjectStore(ENTRIES_STORE, { keyPath: 'id' });
+                    entries.createIndex('createdAt', 'createdAt');
+                    entries.createIndex('name', 'name');
+                    db.createObjectStore(DETAILS_STORE, { keyPath: 'id' });
+                    db.createObjectStore(IMAGES_STORE);
+                    db.createObjectStore(AUDIO_STORE);
+                }
+                if (event.oldVersion < 2) {
+                    const tours = db.createObjectStore(TOURS_STORE, { keyPath: 'id' });
+                    tours.createIndex('createdAt', 'createdAt');
+                    db.createObjectStore(TOUR_AUDIO_STORE);
+                }
+                if (event.oldVersion < 3) {
+                    const pending = db.createObjectStore(PENDING_PHOTOS_STORE, { keyPath: 'id' });
+                    pending.createIndex('createdAt', 'createdAt');
+                }
+            };
+            request.onsuccess = () => resolve(request.result);
+            request.onerror = () => {
+                dbPromise = null;
+                reject(request.error);
+            };
+        });
+    }
+    return dbPromise;
+}
+
+const ALL_STORES = [ENTRIES_STORE, DETAILS_STORE, IMAGES_STORE, AUDIO_STORE];
+
+function deleteFromStores(transaction: IDBTransaction, id: string) {
+    ALL_STORES.forEach(storeName => transaction.objectStore(storeName).delete(id));
+}
+
+/**
+ * Lists saved analyses, newest first. Only index records are read; images
+ * and audio stay in their own stores until an entry is opened.
+ */
+export async function listHistory(): Promise<HistoryEntry[]> {
+    const db = await openDatabase();
+    const transaction = db.transaction(ENTRIES_STORE, 'readonly');
+    const entries = await requestToPromise<HistoryEntry[]>(transaction.objectStore(ENTRIES_STORE).index('createdAt').getAll());
+    return entries.reverse();
+}
+
+/**
+ * Loads a full analysis, including its image and narration audio.
+ * @returns The analysis, or null if it no longer exists.
+ */
+export async function loadAnalysis(id: string): Promise<LandmarkAnalysis | null> {
+    const db = await openDatabase();
+    const transaction = db.transaction(ALL_STORES, 'readonly');
+    const [entry, details, image, audio] = await Promise.all([
+        requestToPromise<HistoryEntry | undefined>(transaction.objectStore(ENTRIES_STORE).get(id)),
+        requestToPromise<StoredDetails | undefined>(transaction.objectStore(DETAILS_STORE).get(id)),
+        requestToPromise<Blob | undefined>(transaction.objectStore(IMAGES_STORE).get(id)),
+        requestToPromise<Blob | undefined>(transaction.objectStore(AUDIO_STORE).get(id)),
+    ]);
+
+    if (!entry || !details || !image) {
+        return null;
+    }
+
+    return {
+        ...details,
+        createdAt: entry.createdAt,
+        name: entry.name,
+        imageBase64: await blobToBase64(image),
+        audioData: audio ? await blobToBase64(audio) : null,
+    };
+}
+
+/**
+ * Saves an analysis, replacing any earlier entry for the same landmark in the
+ * same language. Analyses of the landmark in other languages are kept.
+ * @param thumbnail A thumbnail already rendered for the image; one is created if omitted.
+ * @returns The index record that was written.
+ */
+export async function saveAnalysis(analysis: LandmarkAnalysis, thumbnail?: string): Promise<HistoryEntry> {
+    // Blobs and the thumbnail are prepared up front: IndexedDB transactions
+    // auto-commit as soon as they are left idle across an await.
+    const { name, createdAt, imageBase64, audioData, ...details } = analysis;
+    const entryThumbnail = thumbnail ?? await createThumbnail(imageBase64, analysis.imageMimeType);
+    const imageBlob = base64ToBlob(imageBase64, analysis.imageMimeType);
+    const audioBlob = audioData ? base64ToBlob(audioData, PCM_MIME_TYPE) : null;
+
+    const entry: HistoryEntry = {
+        id: analysis.id,
+        name,
+        createdAt,
+        thumbnail: entryThumbnail,
+        photoMetadata: analysis.photoMetadata,
+        location: getAnalysisLocation(analysis),
+    };
+
+    const db = await openDatabase();
+    const transaction = db.transaction(ALL_STORES, 'readwrite');
+    const done = transactionDone(transaction);
+
+    const language = analysis.language ?? DEFAULT_LANGUAGE;
+    const nameIndex = transaction.objectStore(ENTRIES_STORE).index('name');
+    nameIndex.getAllKeys(name).onsuccess = (event) => {
+        const keys = (event.target as IDBRequest<IDBValidKey[]>).result;
+        keys.filter(key => key !== analysis.id).forEach(key => {
+            transaction.objectStore(DETAILS_STORE).get(key).onsuccess = (detailsEvent) => {
+                const earlier = (detailsEvent.target as IDBRequest<StoredDetails | undefined>).result;
+                if ((earlier?.language ?? DEFAULT_LANGUAGE) === language) {
+                    deleteFromStores(transaction, key as string);
+                }
+            };
+        });
+
+        transaction.objectStore(ENTRIES_STORE).put(entry);
+        transaction.objectStore(DETAILS_STORE).put(details);
+        transaction.objectStore(IMAGES_STORE).put(imageBlob, analysis.id);
+        if (audioBlob) {
+            transaction.objectStore(AUDIO_STORE).put(audioBlob, analysis.id);
+        } else {
+            transaction.objectStore(AUDIO_STORE).delete(analysis.id);
+        }
+    };
+
+    await done;
+    return entry;
+}
+
+/**
+ * Stores the follow-up chat of a saved analysis without rewriting its image
+ * and audio.
+ * @returns False if the analysis has not been saved (yet).
+ */
+export async function saveChatTranscript(id: string, chatTranscript: ChatMessage[]): Promise<boolean> {
+    const db = await openDatabase();
+    const transaction = db.transaction(DETAILS_STORE, 'readwrite');
+    const done = transactionDone(transaction);
+    const store = transaction.objectStore(DETAILS_STORE);
+
+    let saved = false;
+    store.get(id).onsuccess = (event) => {
+        const details = (event.target as IDBRequest<StoredDetails | undefined>).result;
+        if (details) {
+            store.put({ ...details, chatTranscript });
+            saved = true;
+        }
+    };
+
+    await done;
+    return saved;
+}
+
+/**
+ * Stores narration generated later for a saved analysis, e.g. while narrating
+ * a tour, so it isn't generated again.
+ * @param audioData Base64 encoded 16-bit mono PCM.
+ * @returns False if the analysis no longer exists.
+ */
+export async function saveAnalysisAudio(id: string, audioData: string): Promise<boolean> {
+    const audioBlob = base64ToBlob(audioData, PCM_MIME_TYPE);
+    const db = await openDatabase();
+    const transaction = db.transaction([ENTRIES_STORE, AUDIO_STORE], 'readwrite');
+    const done = transactionDone(transaction);
+
+    let saved = false;
+    transaction.objectStore(ENTRIES_STORE).getKey(id).onsuccess = (event) => {
+        if ((event.target as IDBRequest<IDBValidKey | undefined>).result !== undefined) {
+            transaction.objectStore(AUDIO_STORE).put(audioBlob, id);
+            saved = true;
+        }
+    };
+
+    await done;
+    return saved;
+}
+
+export async function deleteAnalysis(id: string): Promise<void> {
+    const db = await openDatabase();
+    const transaction = db.transaction(ALL_STORES, 'readwrite');
+    deleteFromStores(transaction, id);
+    await transactionDone(transaction);
+}
+
+/**
+ * Removes every saved analysis, along with the tours built from them.
+ */
+export async function clearHistory(): Promise<void> {
+    const db = await openDatabase();
+    const storeNames = [...ALL_STORES, TOURS_STORE, TOUR_AUDIO_STORE];
+    const transaction = db.transaction(storeNames, 'readwrite');
+    storeNames.forEach(storeName => transaction.objectStore(storeName).clear());
+    await transactionDone(transaction);
+}
+
+/**
+ * Lists saved tours, newest first.
+ */
+export async function listTours(): Promise<Tour[]> {
+    const db = await openDatabase();
+    const transaction = db.transaction(TOURS_STORE, 'readonly');
+    const tours = await requestToPromise<Tour[]>(transaction.objectStore(TOURS_STORE).index('createdAt').getAll());
+    return tours.reverse();
+}
+
+/**
+ * Saves a tour's stops and transitions. Any narration already stored for it
+ * is kept.
+ */
+export async function saveTour(tour: Tour): Promise<void> {
+    const db = await openDatabase();
+    const transaction = db.transaction(TOURS_STORE, 'readwrite');
+    transaction.objectStore(TOURS_STORE).put(tour);
+    await transactionDone(transaction);
+}
+
+/**
+ * Stores the combined narration of a tour and marks the tour as narrated.
+ * @param pcm 16-bit mono PCM covering every stop and transition, in order.
+ * @returns The updated tour.
+ */
+export async function saveTourNarration(tour: Tour, pcm: Uint8Array): Promise<Tour> {
+    const narrated: Tour = { ...tour, hasNarration: true };
+    const audioBlob = new Blob([pcm], { type: PCM_MIME_TYPE });
+
+    const db = await openDatabase();
+    const transaction = db.transaction([TOURS_STORE, TOUR_AUDIO_STORE], 'readwrite');
+    transaction.objectStore(TOURS_STORE).put(narrated);
+    transaction.objectStore(TOUR_AUDIO_STORE).put(audioBlob, tour.id);
+    await transactionDone(transaction);
+    return narrated;
+}
+
+/**
+ * Loads the combined narration of a tour as raw PCM.
+ * @returns The audio, or null if none has been generated.
+ */
+export async function loadTourNarration(id: string): Promise<Blob | null> {
+    const db = await openDatabase();
+    const transaction = db.transaction(TOUR_AUDIO_STORE, 'readonly');
+    const audio = await requestToPromise<Blob | undefined>(transaction.objectStore(TOUR_AUDIO_STORE).get(id));
+    return audio ?? null;
+}
+
+export async function deleteTour(id: string): Promise<void> {
+    const db = await openDatabase();
+    const transaction = db.transaction([TOURS_STORE, TOUR_AUDIO_STORE], 'readwrite');
+    transaction.objectStore(TOURS_STORE).delete(id);
+    transaction.objectStore(TOUR_AUDIO_STORE).delete(id);
+    await transactionDone(transaction);
+}
+
+type LegacyItem = Omit<LandmarkAnalysis, 'id' | 'createdAt'>;
+
+/**
+ * Checks that a legacy history item has what an analysis needs to be opened.
+ */
+function isLegacyItem(value: unknown): value is LegacyItem {
+    const item = value as Partial<LegacyItem> | null;
+    return typeof item?.name === 'string'
+        && typeof item.history === 'string'
+        && typeof item.imageBase64 === 'string'
+        && typeof item.imageMimeType === 'string';
+}
+
+/**
+ * Moves history saved by older versions of the app (a single JSON blob in
+ * localStorage) into IndexedDB, then removes the localStorage key. Items that
+ * are malformed or can't be saved are skipped, so one bad item doesn't keep
+ * the rest from migrating on every launch.
+ */
+export async function migrateLegacyHistory(): Promise<void> {
+    const savedHistory = localStorage.getItem(LEGACY_STORAGE_KEY);
+    if (!savedHistory) {
+        return;
+    }
+
+    let legacyItems: unknown[] = [];
+    try {
+        const parsed = JSON.parse(savedHistory);
+        if (Array.isArray(parsed)) {
+            legacyItems = parsed;
+        } else {
+            console.warn("Legacy history is not a list; discarding it.");
+        }
+    } catch (error) {
+        console.warn("Could not parse legacy history; discarding it:", error);
+    }
+    const now = Date.now();
+
+    // Legacy history is ordered newest first; save oldest first so the
+    // synthesized timestamps keep the original order.
+    for (let i = legacyItems.length - 1; i >= 0; i--) {
+        const item = legacyItems[i];
+        if (!isLegacyItem(item)) {
+            console.warn(`Skipping malformed legacy history item ${i}.`);
+            continue;
+        }
+        try {
+            await saveAnalysis({
+                ...item,
+                sources: Array.isArray(item.sources) ? item.sources : [],
+                audioData: typeof item.audioData === 'string' ? item.audioData : null,
+                isLandmark: item.isLandmark ?? true,
+                id: crypto.randomUUID(),
+                createdAt: now - i * 1000,
+            });
+        } catch (error) {
+            console.warn(`Could not migrate legacy history item "${item.name}":`, error);
+        }
+    }
+
+    localStorage.removeItem(LEGACY_STORAGE_KEY);
+}
+
+/**
+ * Lists photos waiting to be analyzed, oldest first.
+ */
+export async function listPendingPhotos(): Promise<PendingPhoto[]> {
+    const db = await openDatabase();
+    const transaction = db.transaction(PENDING_PHOTOS_STORE, 'readonly');
+    return requestToPromise<PendingPhoto[]>(transaction.objectStore(PENDING_PHOTOS_STORE).index('createdAt').getAll());
+}
+
+/**
+ * Keeps a photo taken offline until it can be analyzed. The original file is
+ * stored, so its location and capture time can still be read later.
+ * @returns The queued photo.
+ */
+export async function queuePendingPhoto(file: File): Promise<PendingPhoto> {
+    let thumbnail: string | null = null;
+    try {
+        thumbnail = await createThumbnail(await blobToBase64(file), file.type);
+    } catch (error) {
+        console.warn("Could not create a thumbnail for the queued photo:", error);
+    }
+    const photo: PendingPhoto = { id: crypto.randomUUID(), createdAt: Date.now(), file, thumbnail };
+
+    const db = await openDatabase();
+    const transaction = db.transaction(PENDING_PHOTOS_STORE, 'readwrite');
+    transaction.objectStore(PENDING_PHOTOS_STORE).put(photo);
+    await transactionDone(transaction);
+    return photo;
+}
+
+/**
+ * Stores changes to a queued photo, e.g. why its analysis failed.
+ */
+export async function updatePendingPhoto(photo: PendingPhoto): Promise<void> {
+    const db = await openDatabase();
+    const transaction = db.transaction(PENDING_PHOTOS_STORE, 'readwrite');
+    transaction.objectStore(PENDING_PHOTOS_STORE).put(photo);
+    await transactionDone(transaction);
+}
+
+export async function deletePendingPhotos(ids: string[]): Promise<void> {
+    const db = await openDatabase();
+    const transaction = db.transaction(PENDING_PHOTOS_STORE, 'readwrite');
+    const store = transaction.objectStore(PENDING_PHOTOS_STORE);
+    ids.forEach(id => store.delete(id));
+    await transactionDone(transaction);
+}
@@ -0,0 +1,226 @@
+import { LandmarkIdentificationResult } from '../types';
+import type { AIProvider } from './aiProvider';
+import fixtures from './fixtures/mockLandmarks.json';
+import { bytesToBase64, concatBytes } from '../utils/encoding';
+import { chunkSentences, splitIntoSentences } from '../utils/text';
+import { DEFAULT_LANGUAGE, getEnglishLanguageName } from '../utils/language';
+import { sleep } from './request';
+
+const SAMPLE_RATE = 24000;
+const MOCK_LATENCY_MS = Number(process.env.MOCK_LATENCY_MS || 400);
+const VIDEO_DURATION_MS = 3000;
+
+/** Simulated network latency; like a real request it can be cancelled. */
+function delay(ms: number, signal?: AbortSignal): Promise<void> {
+    return sleep(ms, signal);
+}
+
+/**
+ * Small, stable string hash (FNV-1a) used to map inputs onto fixtures so the
+ * same photo always produces the same result.
+ */
+function hashString(value: string): number {
+    let hash = 0x811c9dc5;
+    for (let i = 0; i < value.length; i++) {
+        hash ^= value.charCodeAt(i);
+        hash = Math.imul(hash, 0x01000193);
+    }
+    return hash >>> 0;
+}
+
+function findFixture(landmarkName: string) {
+    return fixtures.landmarks.find(landmark => landmark.name === landmarkName);
+}
+
+/**
+ * Synthesises 16-bit mono PCM at 24kHz with one short tone per word, so the
+ * narration has a length and rhythm roughly matching the text.
+ */
+function synthesizePcm(text: string, voiceName: string): Uint8Array {
+    const words = text.split(/\s+/).filter(Boolean).slice(0, 120);
+    const wordSamples = Math.floor(SAMPLE_RATE * 0.22);
+    const gapSamples = Math.floor(SAMPLE_RATE * 0.06);
+    const samples = new Int16Array(Math.max(words.length, 1) * (wordSamples + gapSamples));
+    const basePitch = 160 + (hashString(voiceName) % 80);
+
+    words.forEach((word, wordIndex) => {
+        const frequency = basePitch + (hashString(word) % 60);
+        const offset = wordIndex * (wordSamples + gapSamples);
+        for (let i = 0; i < wordSamples; i++) {
+            const envelope = Math.sin((Math.PI * i) / wordSamples);
+            const value = Math.sin((2 * Math.PI * frequency * i) / SAMPLE_RATE) * envelope * 0.3;
+            samples[offset + i] = Math.round(value * 32767);
+        }
+    });
+
+    return new Uint8Array(samples.buffer);
+}
+
+/**
+ * Answers a question with the history sentence that shares the most words
+ * with it, which is enough to exercise the chat UI offline.
+ */
+function answerFromHistory(question: string, landmarkName: string, history: string): string {
+    if (/\b(open|hours|ticket|price|cost)/i.test(question)) {
+        return `Opening hours and ticket prices for ${landmarkName} change with the seasons, so check the official website before you visit. (This is a sample answer from the offline mock.)`;
+    }
+    const questionWords = new Set(question.toLowerCase().match(/\p{L}{4,}/gu) ?? []);
+    const sentences = splitIntoSentences(history);
+    const best = sentences
+        .map(sentence => ({ sentence, score: (sentence.toLowerCase().match(/\p{L}{4,}/gu) ?? []).filter(word => questionWords.has(word)).length }))
+        .sort((a, b) => b.score - a.score)[0];
+    return best ? `Good question! ${best.sentence}` : `I don't know much more about ${landmarkName}, I'm afraid.`;
+}
+
+function loadImage(src: string): Promise<HTMLImageElement> {
+    return new Promise((resolve, reject) => {
+        const image = new Image();
+        image.onload = () => resolve(image);
+        image.onerror = () => reject(new Error('Could not load the reference image for the sample video.'));
+        image.src = src;
+    });
+}
+
+/**
+ * Records a short slow-zoom clip of the photo with the landmark name on top,
+ * standing in for the Veo output without any network access.
+ */
+async function renderSampleVideo(landmarkName: string, imageDataUrl: string, signal?: AbortSignal): Promise<Blob> {
+    if (typeof MediaRecorder === 'undefined') {
+        throw new Error('Sample video generation requires MediaRecorder support.');
+    }
+
+    const image = await loadImage(imageDataUrl);
+    const canvas = document.createElement('canvas');
+    canvas.width = 1280;
+    canvas.height = 720;
+    const context = canvas.getContext('2d');
+    if (!context) {
+        throw new Error('Could not create a canvas for the sample video.');
+    }
+
+    const stream = canvas.captureStream(30);
+    const recorder = new MediaRecorder(stream, { mimeType: MediaRecorder.isTypeSupported('video/webm') ? 'video/webm' : undefined });
+    const chunks: Blob[] = [];
+    recorder.ondataavailable = (event) => {
+        if (event.data.size > 0) chunks.push(event.data);
+    };
+    const stopped = new Promise<void>(resolve => { recorder.onstop = () => resolve(); });
+
+    const start = performance.now();
+    const drawFrame = () => {
+        const progress = Math.min((performance.now() - start) / VIDEO_DURATION_MS, 1);
+        const scale = Math.max(canvas.width / image.width, canvas.height / image.height) * (1 + progress * 0.1);
+        const width = image.width * scale;
+        const height = image.height * scale;
+        context.drawImage(image, (canvas.width - width) / 2, (canvas.height - height) / 2, width, height);
+        context.fillStyle = 'rgba(0, 0, 0, 0.5)';
+        context.fillRect(0, canvas.height - 120, canvas.width, 120);
+        context.fillStyle = '#ffffff';
+        context.font = 'bold 48px sans-serif';
+        context.fillText(landmarkName, 40, canvas.height - 45);
+        if (progress < 1 && !signal?.aborted) {
+            requestAnimationFrame(drawFrame);
+        } else {
+            recorder.stop();
+        }
+    };
+
+    recorder.start();
+    drawFrame();
+    await stopped;
+    stream.getTracks().forEach(track => track.stop());
+    if (signal?.aborted) {
+        throw new DOMException('The request was cancelled.', 'AbortError');
+    }
+
+    return new Blob(chunks, { type: recorder.mimeType || 'video/webm' });
+}
+
+/**
+ * Deterministic offline provider backed by fixture JSON. Select it with
+ * AI_PROVIDER=mock to develop and demo the UI without network access.
+ */
+export const mockProvider: AIProvider = {
+    name: 'Mock',
+    requiresVideoKeySelection: false,
+
+    async identifyLandmark(base64Image, mimeType, hints, options): Promise<LandmarkIdentificationResult> {
+        await delay(MOCK_LATENCY_MS, options?.signal);
+        // One extra slot maps onto the non-landmark fixture so that flow can be exercised too.
+        const index = hashString(base64Image) % (fixtures.landmarks.length + 1);
+        const landmark = fixtures.landmarks[index];
+        if (!landmark) {
+            return { isLandmark: false, name: null, description: fixtures.nonLandmark.description, confidence: 0, alternatives: [], landmarks: [] };
+        }
+        const neighbour = fixtures.landmarks[(index + 1) % fixtures.landmarks.length];
+        return {
+            isLandmark: true,
+            name: landmark.name,
+            description: null,
+            confidence: landmark.confidence,
+            alternatives: landmark.alternatives,
+            landmarks: [
+                { name: landmark.name, confidence: landmark.confidence, location: landmark.location, boundingBox: { xMin: 0.3, yMin: 0.1, xMax: 0.75, yMax: 0.9 } },
+                { name: neighbour.name, confidence: 0.58, location: neighbour.location, boundingBox: { xMin: 0.02, yMin: 0.45, xMax: 0.25, yMax: 0.85 } },
+            ],
+        };
+    },
+
+    async fetchLandmarkHistory(landmarkName, language, tour, options) {
+        await delay(MOCK_LATENCY_MS, options?.signal);
+        const landmark = findFixture(landmarkName);
+        const text = landmark?.history ?? `${landmarkName} is a much-loved landmark with a long and fascinating history.`;
+        return {
+            // Fixtures are English only; tag other languages so the switch is visible.
+            text: language === DEFAULT_LANGUAGE ? text : `[${getEnglishLanguageName(language)}] ${text}`,
+            sources: landmark?.sources ?? [],
+        };
+    },
+
+    async narrateText(text, voiceName, language, tour, options): Promise<string> {
+        await delay(MOCK_LATENCY_MS, options?.signal);
+        return bytesToBase64(synthesizePcm(text, voiceName));
+    },
+
+    async narrateTextStream(text, voiceName, language, tour, onChunk, options) {
+        const segments: Uint8Array[] = [];
+        for (const sentence of chunkSentences(splitIntoSentences(text, language))) {
+            await delay(MOCK_LATENCY_MS / 2, options?.signal);
+            const pcm = synthesizePcm(sentence, voiceName);
+            segments.push(pcm);
+            // Split at an odd offset so consumers have to handle samples straddling chunk boundaries.
+            const splitAt = Math.floor(pcm.length / 2) | 1;
+            onChunk(bytesToBase64(pcm.subarray(0, splitAt)));
+            onChunk(bytesToBase64(pcm.subarray(splitAt)));
+        }
+        return bytesToBase64(concatBytes(segments));
+    },
+
+    async createVideoFromLandmark(landmarkName, initialImage, updateProgress, options) {
+        updateProgress('Rendering sample video...');
+        return renderSampleVideo(landmarkName, `data:${initialImage.imageMimeType};base64,${initialImage.imageBase64}`, options?.signal);
+    },
+
+    async transcribeSpeech(audioBase64, mimeType, language, options) {
+        await delay(MOCK_LATENCY_MS, options?.signal);
+        return 'Who built it?';
+    },
+
+    startLandmarkChat(context) {
+        const sources = findFixture(context.landmarkName)?.sources ?? [];
+        return {
+            async sendMessage(question, options) {
+                await delay(MOCK_LATENCY_MS, options?.signal);
+                return { text: answerFromHistory(question, context.landmarkName, context.history), sources };
+            },
+        };
+    },
+
+    async writeTourTransitions(legs, language, options) {
+        await delay(MOCK_LATENCY_MS, options?.signal);
+        return legs.map(leg => leg.distanceMeters === undefined
+            ? `From ${leg.from}, we continue to ${leg.to}.`
+            : `From ${leg.from}, walk about ${leg.walkingMinutes} minutes ${leg.direction} to ${leg.to}.`);
+    },
+};
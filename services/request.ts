@@ -0,0 +1,145 @@
+import { RequestTimeoutError } from './errors';
+
+/**
+ * Per-call controls accepted by every AIProvider method.
+ */
+export interface RequestOptions {
+    /** Aborts the call, e.g. when the user presses Cancel. */
+    signal?: AbortSignal;
+    /** Overrides the default time limit of each attempt, in milliseconds. */
+    timeoutMs?: number;
+    /** Skips any cached response and replaces it with a fresh one. */
+    refresh?: boolean;
+    /** Called with the time the response was first fetched, when it is served from the cache. */
+    onCacheHit?: (storedAt: number) => void;
+}
+
+/** Thrown for an unsuccessful HTTP response made outside the SDK. */
+export class HttpError extends Error {
+    constructor(message: string, readonly status: number) {
+        super(message);
+        this.name = 'HttpError';
+    }
+}
+
+export interface RetryPolicy {
+    /** Time limit of a single attempt, in milliseconds. */
+    timeoutMs: number;
+    /** How many times a failed attempt is repeated. */
+    retries: number;
+    /** Delay before the first retry; it doubles with every further one. */
+    initialDelayMs: number;
+}
+
+const DEFAULT_RETRY_POLICY: RetryPolicy = {
+    timeoutMs: 60000,
+    retries: 3,
+    initialDelayMs: 1000,
+};
+
+const MAX_RETRY_DELAY_MS = 16000;
+
+/**
+ * True for the error raised when a call is aborted through its AbortSignal.
+ */
+export function isAbortError(error: unknown): boolean {
+    return error instanceof DOMException && error.name === 'AbortError'
+        || error instanceof Error && error.name === 'AbortError';
+}
+
+function createAbortError(): DOMException {
+    return new DOMException("The request was cancelled.", 'AbortError');
+}
+
+/**
+ * Resolves after `ms` milliseconds, or rejects as soon as `signal` aborts.
+ */
+export function sleep(ms: number, signal?: AbortSignal): Promise<void> {
+    return new Promise((resolve, reject) => {
+        if (signal?.aborted) {
+            reject(createAbortError());
+            return;
+        }
+        const onAbort = () => {
+            clearTimeout(timer);
+            reject(createAbortError());
+        };
+        const timer = setTimeout(() => {
+            signal?.removeEventListener('abort', onAbort);
+            resolve();
+        }, ms);
+        signal?.addEventListener('abort', onAbort, { once: true });
+    });
+}
+
+/**
+ * Rate limits, server errors and dropped connections are worth another try;
+ * anything else (bad requests, invalid keys, parsing failures) is not.
+ */
+function isRetryable(error: unknown): boolean {
+    if (error instanceof RequestTimeoutError) return true;
+    const status = (error as { status?: unknown })?.status;
+    if (typeof status === 'number') {
+        return status === 408 || status === 429 || status >= 500;
+    }
+    return error instanceof TypeError && /fetch|network/i.test(error.message);
+}
+
+/**
+ * Runs a call with a time limit per attempt, retrying with exponential
+ * backoff when it fails with a retryable error. The call receives a signal
+ * that aborts when the attempt times out or the caller cancels.
+ * @param call The request to make.
+ * @param options The caller's signal and timeout override.
+ * @param policy Overrides for the default retry policy.
+ * @returns The call's result.
+ */
+export async function withRetry<T>(
+    call: (signal: AbortSignal) => Promise<T>,
+    options: RequestOptions = {},
+    policy: Partial<RetryPolicy> = {},
+): Promise<T> {
+    const { retries, initialDelayMs, ...limits } = { ...DEFAULT_RETRY_POLICY, ...policy };
+    const timeoutMs = options.timeoutMs ?? limits.timeoutMs;
+
+    for (let attempt = 0; ; attempt++) {
+        if (options.signal?.aborted) {
+            throw createAbortError();
+        }
+
+        const controller = new AbortController();
+        const onAbort = () => controller.abort(createAbortError());
+        options.signal?.addEventListener('abort', onAbort, { once: true });
+        let timedOut = false;
+        const timer = setTimeout(() => {
+            timedOut = true;
+            controller.abort(new RequestTimeoutError());
+        }, timeoutMs);
+
+        let failure: unknown;
+        try {
+            return await Promise.race([
+                call(controller.signal),
+                // Not every SDK call honours its signal, so stop waiting as soon as it fires.
+                new Promise<never>((_, reject) => {
+                    controller.signal.addEventListener('abort', () => reject(controller.signal.reason), { once: true });
+                }),
+            ]);
+        } catch (error) {
+            failure = timedOut ? new RequestTimeoutError() : error;
+        } finally {
+            clearTimeout(timer);
+            options.signal?.removeEventListener('abort', onAbort);
+        }
+
+        if (options.signal?.aborted) {
+            throw createAbortError();
+        }
+        if (attempt >= retries || !isRetryable(failure)) {
+            throw failure;
+        }
+        const delay = Math.min(initialDelayMs * 2 ** attempt, MAX_RETRY_DELAY_MS);
+        console.warn(`Request failed, retrying in ${delay}ms (attempt ${attempt + 1} of ${retries}):`, failure);
+        await sleep(delay * (0.75 + Math.random() * 0.5), options.signal);
+    }
+}
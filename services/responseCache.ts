@@ -0,0 +1,141 @@
+import { requestToPromise, transactionDone } from '../utils/indexedDb';
+
+const DB_NAME = 'landmarklens-cache';
+const DB_VERSION = 2;
+const RESPONSES_STORE = 'responses';
+// Indexes the fields eviction needs, so it can walk the keys without loading any values.
+const USAGE_INDEX = 'usage';
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+/** The kinds of model response kept, each with its own lifetime. */
+export type CacheKind = 'identification' | 'history' | 'narration';
+
+const CACHE_TTL_MS: Record<CacheKind, number> = {
+    // What a photo shows doesn't change.
+    'identification': 90 * DAY_MS,
+    // Histories are grounded in search results, which go stale.
+    'history': 14 * DAY_MS,
+    'narration': 90 * DAY_MS,
+};
+
+// Narration dominates the size; this keeps a few dozen of them.
+const MAX_CACHE_CHARS = 60 * 1024 * 1024;
+
+/** The key of a record in the usage index. */
+type UsageKey = [lastUsedAt: number, storedAt: number, size: number, kind: CacheKind];
+
+interface CacheRecord {
+    key: string;
+    kind: CacheKind;
+    value: unknown;
+    storedAt: number;
+    lastUsedAt: number;
+    /** Approximate size of `value`, in characters of its JSON form. */
+    size: number;
+}
+
+export interface CachedResponse<T> {
+    value: T;
+    /** When the response was fetched from the model. */
+    storedAt: number;
+}
+
+let dbPromise: Promise<IDBDatabase> | null = null;
+
+function openDatabase(): Promise<IDBDatabase> {
+    if (!dbPromise) {
+        dbPromise = new Promise((resolve, reject) => {
+            const request = indexedDB.open(DB_NAME, DB_VERSION);
+            request.onupgradeneeded = (event) => {
+                const responses = event.oldVersion < 1
+                    ? request.result.createObjectStore(RESPONSES_STORE, { keyPath: 'key' })
+                    : request.transaction!.objectStore(RESPONSES_STORE);
+                if (responses.indexNames.contains('lastUsedAt')) {
+                    responses.deleteIndex('lastUsedAt');
+                }
+                responses.createIndex(USAGE_INDEX, ['lastUsedAt', 'storedAt', 'size', 'kind']);
+            };
+            request.onsuccess = () => resolve(request.result);
+            request.onerror = () => {
+                dbPromise = null;
+                reject(request.error);
+            };
+        });
+    }
+    return dbPromise;
+}
+
+function isExpired(record: Pick<CacheRecord, 'kind' | 'storedAt'>, now: number): boolean {
+    return now - record.storedAt > CACHE_TTL_MS[record.kind];
+}
+
+/**
+ * Looks up a cached response. Expired responses are deleted rather than returned.
+ * @returns The response, or null if none is cached.
+ */
+export async function readCache<T>(kind: CacheKind, key: string): Promise<CachedResponse<T> | null> {
+    const db = await openDatabase();
+    const transaction = db.transaction(RESPONSES_STORE, 'readwrite');
+    const store = transaction.objectStore(RESPONSES_STORE);
+    const record = await requestToPromise<CacheRecord | undefined>(store.get(`${kind}:${key}`));
+    const now = Date.now();
+
+    let result: CachedResponse<T> | null = null;
+    if (record && isExpired(record, now)) {
+        store.delete(record.key);
+    } else if (record) {
+        store.put({ ...record, lastUsedAt: now });
+        result = { value: record.value as T, storedAt: record.storedAt };
+    }
+    await transactionDone(transaction);
+    return result;
+}
+
+/**
+ * Stores a response, then drops expired ones and, if the cache has grown too
+ * large, the least recently used ones.
+ */
+export async function writeCache(kind: CacheKind, key: string, value: unknown): Promise<void> {
+    const now = Date.now();
+    const record: CacheRecord = {
+        key: `${kind}:${key}`,
+        kind,
+        value,
+        storedAt: now,
+        lastUsedAt: now,
+        size: typeof value === 'string' ? value.length : JSON.stringify(value).length,
+    };
+
+    const db = await openDatabase();
+    const transaction = db.transaction(RESPONSES_STORE, 'readwrite');
+    const store = transaction.objectStore(RESPONSES_STORE);
+    store.put(record);
+
+    // Newest first, so whatever is left once the budget runs out is the least recently used.
+    let total = 0;
+    const cursorRequest = store.index(USAGE_INDEX).openKeyCursor(null, 'prev');
+    cursorRequest.onsuccess = () => {
+        const cursor = cursorRequest.result;
+        if (!cursor) return;
+        const [, storedAt, size, cachedKind] = cursor.key as UsageKey;
+        const isNew = cursor.primaryKey === record.key;
+        if (!isNew && (isExpired({ kind: cachedKind, storedAt }, now) || total + size > MAX_CACHE_CHARS)) {
+            store.delete(cursor.primaryKey);
+        } else {
+            total += size;
+        }
+        cursor.continue();
+    };
+    await transactionDone(transaction);
+}
+
+/**
+ * Deletes every cached response.
+ */
+export async function clearResponseCache(): Promise<void> {
+    const db = await openDatabase();
+    const transaction = db.transaction(RESPONSES_STORE, 'readwrite');
+    transaction.objectStore(RESPONSES_STORE).clear();
+    await transactionDone(transaction);
+}
@@ -0,0 +1,253 @@
+import { LandmarkAnalysis, SharedAnalysis } from '../types';
+import { createWavBlobFromBase64 } from '../utils/audio';
+import { compressToBase64Url, decompressFromBase64Url } from '../utils/encoding';
+import { createThumbnail } from '../utils/image';
+import { PostcardFormat } from '../utils/postcard';
+import { DEFAULT_LANGUAGE } from '../utils/language';
+
+/**
+ * Somewhere to keep shared analyses, so links can carry a short id instead
+ * of the whole analysis.
+ */
+export interface ShareStore {
+    /** Stores the analysis and returns the id that identifies it in links. */
+    save(payload: SharedAnalysis): Promise<string>;
+    /** @returns The analysis, or null if the id is unknown or has expired. */
+    load(id: string): Promise<SharedAnalysis | null>;
+    /** Uploads narration audio and returns a URL it can be played from. Stores that don't host audio omit this. */
+    saveNarration?(audio: Blob): Promise<string>;
+}
+
+// Links either carry the analysis itself (#share=...) or a share store id (#s=...).
+const PAYLOAD_PARAM = 'share';
+const ID_PARAM = 's';
+
+const SHARE_THUMBNAIL_SIZE = 240;
+const MAX_SHARED_SOURCES = 5;
+
+/**
+ * A share store served over HTTP:
+ * - `POST {baseUrl}` with the JSON payload responds with `{ "id": "..." }`;
+ * - `GET {baseUrl}/{id}` responds with the payload, or 404;
+ * - `POST {baseUrl}/audio` with a WAV body responds with `{ "url": "..." }`.
+ */
+export function createHttpShareStore(baseUrl: string): ShareStore {
+    const root = baseUrl.replace(/\/+$/, '');
+    return {
+        async save(payload) {
+            const response = await fetch(root, {
+                method: 'POST',
+                headers: { 'Content-Type': 'application/json' },
+                body: JSON.stringify(payload),
+            });
+            if (!response.ok) {
+                throw new Error(`Could not save the shared analysis: ${response.statusText}`);
+            }
+            const { id } = await response.json();
+            return id;
+        },
+        async load(id) {
+            const response = await fetch(`${root}/${encodeURIComponent(id)}`);
+            if (response.status === 404) return null;
+            if (!response.ok) {
+                throw new Error(`Could not load the shared analysis: ${response.statusText}`);
+            }
+            return parseSharedAnalysis(await response.json());
+        },
+        async saveNarration(audio) {
+            const response = await fetch(`${root}/audio`, {
+                method: 'POST',
+                headers: { 'Content-Type': audio.type },
+                body: audio,
+            });
+            if (!response.ok) {
+                throw new Error(`Could not upload the narration: ${response.statusText}`);
+            }
+            const { url } = await response.json();
+            return url;
+        },
+    };
+}
+
+/**
+ * The share store configured through SHARE_STORE_URL, or null to put the
+ * whole analysis in the link.
+ */
+export function createShareStore(url: string | undefined = process.env.SHARE_STORE_URL): ShareStore | null {
+    return url ? createHttpShareStore(url) : null;
+}
+
+const defaultShareStore = createShareStore();
+
+/**
+ * Checks that a decoded payload has the shape of a SharedAnalysis.
+ * @returns The analysis, or null if it is malformed or from an unknown version.
+ */
+function parseSharedAnalysis(value: unknown): SharedAnalysis | null {
+    const payload = value as Partial<SharedAnalysis> | null;
+    if (payload?.version !== 1 || typeof payload.name !== 'string' || typeof payload.history !== 'string') {
+        return null;
+    }
+    return {
+        version: 1,
+        name: payload.name,
+        history: payload.history,
+        sources: Array.isArray(payload.sources)
+            ? payload.sources
+                .filter(source => typeof source?.uri === 'string' && /^https?:/.test(source.uri))
+                .map(source => ({ title: typeof source.title === 'string' && source.title ? source.title : source.uri, uri: source.uri }))
+            : [],
+        thumbnail: typeof payload.thumbnail === 'string' && payload.thumbnail.startsWith('data:image/') ? payload.thumbnail : null,
+        language: typeof payload.language === 'string' ? payload.language : DEFAULT_LANGUAGE,
+        ...(typeof payload.narrationUrl === 'string' && /^https?:/.test(payload.narrationUrl) && { narrationUrl: payload.narrationUrl }),
+    };
+}
+
+async function toSharedAnalysis(analysis: LandmarkAnalysis, store: ShareStore | null): Promise<SharedAnalysis> {
+    // Only a share store has room for the photo; in the link itself it would
+    // make the URL too long for many chat apps.
+    let thumbnail: string | null = null;
+    if (store) {
+        try {
+            thumbnail = await createThumbnail(analysis.imageBase64, analysis.imageMimeType, SHARE_THUMBNAIL_SIZE);
+        } catch (error) {
+            console.warn("Could not create a thumbnail for the share link:", error);
+        }
+    }
+
+    let narrationUrl: string | undefined;
+    if (analysis.audioData && store?.saveNarration) {
+        try {
+            narrationUrl = await store.saveNarration(createWavBlobFromBase64(analysis.audioData));
+        } catch (error) {
+            // The link is still worth sharing without audio.
+            console.warn("Could not upload the narration for sharing:", error);
+        }
+    }
+
+    return {
+        version: 1,
+        name: analysis.name,
+        history: analysis.history,
+        sources: analysis.sources
+            .filter(source => source.web?.uri)
+            .slice(0, MAX_SHARED_SOURCES)
+            .map(source => ({ title: source.web.title || source.web.uri, uri: source.web.uri })),
+        thumbnail,
+        language: analysis.language ?? DEFAULT_LANGUAGE,
+        ...(narrationUrl && { narrationUrl }),
+    };
+}
+
+/**
+ * Creates a link that opens a read-only view of the analysis. With a share
+ * store the link carries a short id; without one, the compressed analysis
+ * itself travels in the URL fragment, which is never sent to a server, and
+ * the photo is left out to keep the link short.
+ * @returns The absolute URL to share.
+ */
+export async function createShareLink(analysis: LandmarkAnalysis, store: ShareStore | null = defaultShareStore): Promise<string> {
+    const payload = await toSharedAnalysis(analysis, store);
+    const base = `${window.location.origin}${window.location.pathname}`;
+    if (store) {
+        return `${base}#${ID_PARAM}=${encodeURIComponent(await store.save(payload))}`;
+    }
+    return `${base}#${PAYLOAD_PARAM}=${await compressToBase64Url(JSON.stringify(payload))}`;
+}
+
+/**
+ * True if a URL fragment belongs to a share link.
+ */
+export function isShareLink(hash: string): boolean {
+    const params = new URLSearchParams(hash.replace(/^#/, ''));
+    return params.has(PAYLOAD_PARAM) || params.has(ID_PARAM);
+}
+
+/**
+ * Reads the analysis a share link points to.
+ * @param hash The URL fragment, e.g. `window.location.hash`.
+ * @returns The shared analysis, or null if the link is broken or has expired.
+ */
+export async function readShareLink(hash: string, store: ShareStore | null = defaultShareStore): Promise<SharedAnalysis | null> {
+    const params = new URLSearchParams(hash.replace(/^#/, ''));
+    const encoded = params.get(PAYLOAD_PARAM);
+    if (encoded) {
+        try {
+            return parseSharedAnalysis(JSON.parse(await decompressFromBase64Url(encoded)));
+        } catch (error) {
+            console.error("Could not decode share link:", error);
+            return null;
+        }
+    }
+    const id = params.get(ID_PARAM);
+    if (id && store) {
+        return store.load(id);
+    }
+    return null;
+}
+
+export type ShareAttachmentKind = 'card' | 'narration' | 'video';
+
+/** A file offered for sharing through the system share sheet. */
+export interface ShareAttachment {
+    kind: ShareAttachmentKind;
+    label: string;
+    file: File;
+}
+
+/**
+ * True if the browser can hand these files to other apps through
+ * navigator.share. Many desktop browsers can share links but not files.
+ */
+export function canShareFiles(files: File[]): boolean {
+    return typeof navigator.share === 'function'
+        && typeof navigator.canShare === 'function'
+        && files.length > 0
+        && navigator.canShare({ files });
+}
+
+function attachmentBaseName(analysis: LandmarkAnalysis): string {
+    return analysis.name.replace(/\s+/g, '_');
+}
+
+/**
+ * Wraps a rendered postcard as a file to share or download.
+ * @param postcard The PNG from renderPostcard.
+ */
+export function createPostcardAttachment(analysis: LandmarkAnalysis, postcard: Blob, format: PostcardFormat): ShareAttachment {
+    const suffix = format === 'square' ? 'postcard' : format;
+    return {
+        kind: 'card',
+        label: 'Postcard',
+        file: new File([postcard], `${attachmentBaseName(analysis)}_${suffix}.png`, { type: 'image/png' }),
+    };
+}
+
+/**
+ * Prepares the narration and the generated video of an analysis for sharing,
+ * whichever exist. Files that can't be prepared are left out.
+ * @param videoUrl Object URL of the generated video, if any.
+ */
+export async function createMediaAttachments(analysis: LandmarkAnalysis, videoUrl: string | null): Promise<ShareAttachment[]> {
+    const baseName = attachmentBaseName(analysis);
+
+    const narration = analysis.audioData
+        ? Promise.resolve({ kind: 'narration' as const, label: 'Narration', file: new File([createWavBlobFromBase64(analysis.audioData)], `${baseName}_narration.wav`, { type: 'audio/wav' }) })
+        : null;
+    const video = videoUrl
+        ? fetch(videoUrl).then(response => response.blob()).then(blob => {
+            const type = blob.type || 'video/mp4';
+            const extension = type.includes('webm') ? 'webm' : 'mp4';
+            return { kind: 'video' as const, label: 'Video tour', file: new File([blob], `${baseName}_tour.${extension}`, { type }) };
+        })
+        : null;
+
+    const results = await Promise.allSettled([narration, video].filter(attachment => attachment !== null));
+    return results.flatMap(result => {
+        if (result.status === 'rejected') {
+            console.warn("Could not prepare a file for sharing:", result.reason);
+            return [];
+        }
+        return [result.value];
+    });
+}
@@ -0,0 +1,93 @@
+import { HistoryEntry, Tour, TourGrouping, TourOptions } from '../types';
+import type { AIProvider } from './aiProvider';
+import { loadAnalysis, saveAnalysisAudio, saveTour, saveTourNarration } from './historyRepository';
+import { base64ToBytes, concatBytes } from '../utils/encoding';
+import { createSilence } from '../utils/audio';
+import { describeTourLeg, findTourStopEntry, orderTourStops } from '../utils/itinerary';
+import { DEFAULT_LANGUAGE } from '../utils/language';
+
+// Pause inserted after each transition and each stop in the combined narration.
+const PAUSE_SECONDS = 1.2;
+
+/**
+ * Orders the chosen history entries into a route, writes the narration that
+ * leads from each stop to the next and saves the tour.
+ * @returns The saved tour, without combined narration yet.
+ */
+export async function createTour(
+    provider: AIProvider,
+    entries: HistoryEntry[],
+    grouping: TourGrouping,
+    title: string,
+    language: string,
+): Promise<Tour> {
+    if (entries.length < 2) {
+        throw new Error("A tour needs at least two stops.");
+    }
+
+    const ordered = orderTourStops(entries);
+    const legs = ordered.slice(1).map((entry, index) => describeTourLeg(ordered[index], entry));
+    const transitions = await provider.writeTourTransitions(legs, language);
+
+    const tour: Tour = {
+        id: crypto.randomUUID(),
+        title,
+        createdAt: Date.now(),
+        grouping,
+        language,
+        stops: ordered.map((entry, index) => ({
+            entryId: entry.id,
+            name: entry.name,
+            location: entry.location,
+            transition: index === 0 ? '' : transitions[index - 1],
+        })),
+        hasNarration: false,
+    };
+    await saveTour(tour);
+    return tour;
+}
+
+/**
+ * Joins the narration of every stop, with the transitions between them, into
+ * one recording and stores it with the tour. Stops whose narration was never
+ * generated are narrated now, and that narration is saved with their history
+ * entry.
+ * @param history The current history; a stop whose analysis was since
+ * replaced by a newer one of the same landmark uses the newer one.
+ * @returns The updated tour.
+ */
+export async function createTourNarration(
+    provider: AIProvider,
+    tour: Tour,
+    history: HistoryEntry[],
+    voiceName: string,
+    tourOptions: TourOptions,
+    updateProgress: (message: string) => void,
+): Promise<Tour> {
+    const segments: Uint8Array[] = [];
+    const pause = createSilence(PAUSE_SECONDS);
+
+    for (const [index, stop] of tour.stops.entries()) {
+        updateProgress(`Narrating stop ${index + 1} of ${tour.stops.length}: ${stop.name}...`);
+        if (stop.transition) {
+            segments.push(base64ToBytes(await provider.narrateText(stop.transition, voiceName, tour.language, tourOptions)), pause);
+        }
+
+        const entry = findTourStopEntry(stop, history);
+        const analysis = entry ? await loadAnalysis(entry.id) : null;
+        if (!analysis) {
+            throw new Error(`${stop.name} is no longer in your history, so the tour can't be narrated. Please create the tour again.`);
+        }
+        let audioData = analysis.audioData;
+        if (!audioData) {
+            audioData = await provider.narrateText(analysis.history, voiceName, analysis.language ?? DEFAULT_LANGUAGE, analysis.tourOptions ?? tourOptions);
+            // The tour is still worth finishing if the narration can't be kept.
+            await saveAnalysisAudio(analysis.id, audioData)
+                .catch(error => console.warn(`Could not save the narration of ${stop.name}:`, error));
+        }
+        segments.push(base64ToBytes(audioData), pause);
+    }
+
+    updateProgress('Saving tour narration...');
+    return saveTourNarration(tour, concatBytes(segments));
+}
@@ -1,10 +1,61 @@
+import type { NarrationStream } from './utils/audio';
+import type { AppError, ErrorKind } from './services/errors';
+
+/** Axis-aligned box in normalized image coordinates (0 to 1, origin top-left). */
+export interface BoundingBox {
+    xMin: number;
+    yMin: number;
+    xMax: number;
+    yMax: number;
+}
+
+export interface GeoPoint {
+    latitude: number;
+    longitude: number;
+}
+
+export interface DetectedLandmark {
+    name: string;
+    confidence: number;
+    boundingBox: BoundingBox;
+    /** Approximate position of the landmark itself, as geocoded by the model. */
+    location?: GeoPoint;
+}
+
+export interface LandmarkCandidate {
+    name: string;
+    confidence: number;
+}
+
 export interface LandmarkIdentificationResult {
     isLandmark: boolean;
+    /** Name of the most prominent landmark, kept for callers that only need one. */
     name: string | null;
     description: string | null;
+    /** Confidence in `name`, from 0 to 1. */
+    confidence: number;
+    /** Other landmarks the photo might show instead of `name`, most likely first. */
+    alternatives: LandmarkCandidate[];
+    /** Every landmark detected in the photo, most confident first. */
+    landmarks: DetectedLandmark[];
+}
+
+/** Where and when a photo was taken, read from EXIF or supplied by the browser. */
+export interface PhotoMetadata {
+    latitude?: number;
+    longitude?: number;
+    altitude?: number;
+    /** Compass direction the camera was facing, in degrees from north. */
+    heading?: number;
+    /** Capture time as an ISO 8601 string; without an offset it is the camera's local time. */
+    capturedAt?: string;
+    /** EXIF orientation tag (1-8). */
+    orientation?: number;
 }
 
 export interface LandmarkAnalysis {
+    id: string;
+    createdAt: number;
     name: string;
     history: string;
     sources: any[]; 
@@ -12,12 +63,124 @@ export interface LandmarkAnalysis {
     imageBase64: string;
     imageMimeType: string;
     isLandmark: boolean;
+    detectedLandmarks?: DetectedLandmark[];
+    photoMetadata?: PhotoMetadata;
+    /** BCP 47 code of the language the history and narration are in. Older analyses are English. */
+    language?: string;
+    /** Style and length the tour was generated with. Older analyses used the standard style. */
+    tourOptions?: TourOptions;
+    /** Follow-up questions about the landmark and their answers, oldest first. */
+    chatTranscript?: ChatMessage[];
+}
+
+export interface ChatMessage {
+    id: string;
+    role: 'user' | 'assistant';
+    text: string;
+    /** Grounding sources cited by an assistant answer, in the same shape as `LandmarkAnalysis.sources`. */
+    sources: any[];
+    createdAt: number;
+}
+
+/**
+ * The read-only part of an analysis carried by a share link.
+ */
+export interface SharedAnalysis {
+    /** Format version, so older links keep opening after the format changes. */
+    version: 1;
+    name: string;
+    history: string;
+    sources: { title: string, uri: string }[];
+    /** Small JPEG of the photo, as a data URL. */
+    thumbnail: string | null;
+    /** BCP 47 code of the language the history is in. */
+    language: string;
+    /** Where the narration can be played from, if the share store hosts audio. */
+    narrationUrl?: string;
+}
+
+/**
+ * What a follow-up chat about a landmark is seeded with.
+ */
+export interface LandmarkChatContext {
+    landmarkName: string;
+    history: string;
+    imageBase64: string;
+    imageMimeType: string;
+    language: string;
+    /** Earlier messages to resume from, e.g. when reopening a history item. */
+    transcript: ChatMessage[];
+}
+
+/**
+ * Lightweight index record for a saved analysis. The full analysis, including
+ * its image and narration audio, is loaded on demand from the history store.
+ */
+export interface HistoryEntry {
+    id: string;
+    name: string;
+    createdAt: number;
+    thumbnail: string;
+    photoMetadata?: PhotoMetadata;
+    /** Where the landmark is, for the history map. */
+    location?: GeoPoint;
+}
+
+/** How the stops of a tour were chosen from the history. */
+export type TourGrouping = 'date' | 'proximity' | 'selection';
+
+/** The walk from one tour stop to the next. */
+export interface TourLeg {
+    from: string;
+    to: string;
+    /** Straight-line distance, when both stops have a known location. */
+    distanceMeters?: number;
+    walkingMinutes?: number;
+    /** Compass direction of `to` as seen from `from`, e.g. "north-east". */
+    direction?: string;
+}
+
+export interface TourStop {
+    /** The history entry this stop narrates. */
+    entryId: string;
+    name: string;
+    location?: GeoPoint;
+    /** Narration leading from the previous stop to this one; empty for the first stop. */
+    transition: string;
+}
+
+/**
+ * An ordered walk through several saved analyses. The combined narration,
+ * once generated, is stored alongside it.
+ */
+export interface Tour {
+    id: string;
+    title: string;
+    createdAt: number;
+    grouping: TourGrouping;
+    /** BCP 47 code of the language the transitions are written in. */
+    language: string;
+    stops: TourStop[];
+    hasNarration: boolean;
+}
+
+/** A photo taken while offline, kept until it can be analyzed. */
+export interface PendingPhoto {
+    id: string;
+    createdAt: number;
+    file: File;
+    /** Small preview of the photo, or null if it could not be decoded. */
+    thumbnail: string | null;
+    /** Why the last analysis of the photo failed, if it did. */
+    failure?: { message: string, kind: ErrorKind };
 }
 
 export enum ProcessState {
     Idle,
     ImageUploaded,
+    BatchProcessing,
     Loading,
+    ConfirmingIdentification,
     GeneratingVideo,
     Done,
     Error
@@ -27,9 +190,18 @@ export interface AppState {
     processState: ProcessState;
     imageFile: File | null;
     imageDataUrl: string | null;
+    /** Small preview of the prepared image, saved as the history thumbnail. */
+    imageThumbnail: string | null;
+    photoMetadata: PhotoMetadata | null;
+    identification: LandmarkIdentificationResult | null;
     analysis: LandmarkAnalysis | null;
-    error: string | null;
+    /** Why processState is Error, with the kind of failure deciding the recovery offered. */
+    error: AppError | null;
     loadingMessage: string;
+    /** Narration still being synthesized for `analysis`, if any. */
+    narrationStream: NarrationStream | null;
+    /** When the history shown was first fetched, if it was served from the response cache. */
+    cachedAt: number | null;
     videoUrl: string | null;
     isVeoKeyModalOpen: boolean;
 }
@@ -38,3 +210,33 @@ export interface VoiceOption {
     id: string;
     name: string;
 }
+
+export type TourStyle = 'standard' | 'kids' | 'architecture' | 'quick-facts' | 'storytelling' | 'legends';
+
+export type TourLength = 'short' | 'medium' | 'long';
+
+export interface TourOptions {
+    style: TourStyle;
+    length: TourLength;
+}
+
+export interface LanguageOption {
+    /** BCP 47 language code, e.g. "fr". */
+    code: string;
+    /** The language's name in that language, e.g. "Français". */
+    name: string;
+}
+
+/** The key picker AI Studio provides to apps running inside it. */
+export interface AIStudio {
+    /** True once the user has picked a key for paid models such as Veo. */
+    hasSelectedApiKey(): Promise<boolean>;
+    /** Opens the picker for the user to choose a key. */
+    openSelectKey(): Promise<void>;
+}
+
+declare global {
+    interface Window {
+        aistudio: AIStudio;
+    }
+}
@@ -1,32 +1,122 @@
+import { base64ToBytes } from './encoding';
 
-function decodeBase64(base64: string): Uint8Array {
-    const binaryString = atob(base64);
-    const len = binaryString.length;
-    const bytes = new Uint8Array(len);
-    for (let i = 0; i < len; i++) {
-        bytes[i] = binaryString.charCodeAt(i);
-    }
-    return bytes;
-}
+/** The sample rate of narration, as used by the TTS model and in the app's AudioContext. */
+export const NARRATION_SAMPLE_RATE = 24000;
 
-export async function decodeAudioData(
-    base64: string,
-    ctx: AudioContext,
-): Promise<AudioBuffer> {
-    const data = decodeBase64(base64);
-    const dataInt16 = new Int16Array(data.buffer);
-    const frameCount = dataInt16.length; // Assuming mono channel
+/**
+ * Converts little-endian 16-bit mono PCM bytes into an AudioBuffer.
+ * The byte length must be even.
+ */
+function pcm16ToAudioBuffer(data: Uint8Array, ctx: AudioContext): AudioBuffer {
+    const view = new DataView(data.buffer, data.byteOffset, data.byteLength);
+    const frameCount = data.byteLength / 2; // Assuming mono channel
     const numChannels = 1;
     const buffer = ctx.createBuffer(numChannels, frameCount, ctx.sampleRate);
 
     const channelData = buffer.getChannelData(0);
     for (let i = 0; i < frameCount; i++) {
-        channelData[i] = dataInt16[i] / 32768.0;
+        channelData[i] = view.getInt16(i * 2, true) / 32768.0;
     }
     
     return buffer;
 }
 
+export async function decodeAudioData(
+    base64: string,
+    ctx: AudioContext,
+): Promise<AudioBuffer> {
+    const data = base64ToBytes(base64);
+    return pcm16ToAudioBuffer(data.subarray(0, data.byteLength - (data.byteLength % 2)), ctx);
+}
+
+export interface StreamingPcmDecoder {
+    /**
+     * Decodes the next chunk of a PCM stream. Returns null if the chunk did
+     * not complete a single sample.
+     */
+    push(base64Chunk: string): AudioBuffer | null;
+}
+
+/**
+ * Creates a decoder for PCM that arrives in arbitrary pieces. Network chunks
+ * may split a 16-bit sample across a boundary, so a trailing odd byte is held
+ * back and prepended to the next chunk.
+ */
+export function createStreamingPcmDecoder(ctx: AudioContext): StreamingPcmDecoder {
+    let pendingByte: number | null = null;
+
+    return {
+        push(base64Chunk: string): AudioBuffer | null {
+            const chunk = base64ToBytes(base64Chunk);
+            const carry = pendingByte === null ? 0 : 1;
+            const total = carry + chunk.byteLength;
+            const usable = total - (total % 2);
+
+            const data = new Uint8Array(usable);
+            if (carry && usable > 0) data[0] = pendingByte!;
+            data.set(chunk.subarray(0, usable - carry), carry);
+
+            if (total % 2 === 1) {
+                pendingByte = total === 1 ? pendingByte ?? chunk[0] : chunk[chunk.byteLength - 1];
+            } else {
+                pendingByte = null;
+            }
+
+            return usable > 0 ? pcm16ToAudioBuffer(data, ctx) : null;
+        },
+    };
+}
+
+/**
+ * A narration that is still being synthesized. Chunks are kept so that a
+ * listener subscribing late can replay everything received so far.
+ */
+export interface NarrationStream {
+    /** Base64 encoded PCM chunks received so far, in order. */
+    readonly chunks: readonly string[];
+    readonly done: boolean;
+    readonly error: Error | null;
+    /** Registers a listener called after every change; returns an unsubscribe function. */
+    subscribe(listener: () => void): () => void;
+}
+
+export interface NarrationStreamController extends NarrationStream {
+    push(chunk: string): void;
+    complete(): void;
+    fail(error: Error): void;
+}
+
+export function createNarrationStream(): NarrationStreamController {
+    const chunks: string[] = [];
+    const listeners = new Set<() => void>();
+    let done = false;
+    let error: Error | null = null;
+    const notify = () => listeners.forEach(listener => listener());
+
+    return {
+        get chunks() { return chunks; },
+        get done() { return done; },
+        get error() { return error; },
+        subscribe(listener) {
+            listeners.add(listener);
+            return () => { listeners.delete(listener); };
+        },
+        push(chunk) {
+            chunks.push(chunk);
+            notify();
+        },
+        complete() {
+            done = true;
+            notify();
+        },
+        fail(reason) {
+            done = true;
+            error = reason;
+            notify();
+        },
+    };
+}
+
 function writeString(view: DataView, offset: number, str: string) {
     for (let i = 0; i < str.length; i++) {
         view.setUint8(offset + i, str.charCodeAt(i));
@@ -39,36 +129,61 @@ function writeString(view: DataView, offset: number, str: string) {
  * @returns A Blob representing the WAV file.
  */
 export function createWavBlobFromBase64(base64: string): Blob {
-    const pcmData = decodeBase64(base64);
-    const sampleRate = 24000; // As used by the TTS model and in the app's AudioContext
+    return createWavBlob(base64ToBytes(base64));
+}
+
+/**
+ * Creates a stretch of silent PCM audio, e.g. to pause between narrations
+ * that are joined together.
+ * @param seconds The length of the silence.
+ * @returns 16-bit mono PCM at the narration sample rate.
+ */
+export function createSilence(seconds: number): Uint8Array {
+    // Two bytes per 16-bit sample
+    return new Uint8Array(Math.round(seconds * NARRATION_SAMPLE_RATE) * 2);
+}
+
+/** Further RIFF chunks of a WAV file, e.g. tags, placed around the audio. */
+export interface WavChunks {
+    beforeData?: Uint8Array[];
+    afterData?: Uint8Array[];
+}
+
+/**
+ * Creates a WAV file Blob from raw PCM audio data.
+ * @param pcmData 16-bit mono PCM at the narration sample rate.
+ * @param chunks Complete RIFF chunks to add before and after the audio.
+ * @returns A Blob representing the WAV file.
+ */
+export function createWavBlob(pcmData: Uint8Array, { beforeData = [], afterData = [] }: WavChunks = {}): Blob {
     const numChannels = 1; // Mono
     const bitsPerSample = 16; // 16-bit PCM
     const dataSize = pcmData.byteLength;
+    // Chunks are padded to an even length.
+    const padding = new Uint8Array(dataSize % 2);
+    const extraSize = [...beforeData, ...afterData].reduce((total, chunk) => total + chunk.byteLength, 0);
 
-    const buffer = new ArrayBuffer(44 + dataSize);
-    const view = new DataView(buffer);
+    const header = new DataView(new ArrayBuffer(36));
 
     // RIFF chunk descriptor
-    writeString(view, 0, 'RIFF');
-    view.setUint32(4, 36 + dataSize, true); // chunkSize
-    writeString(view, 8, 'WAVE');
-    
+    writeString(header, 0, 'RIFF');
+    header.setUint32(4, 36 + extraSize + dataSize + padding.byteLength, true); // chunkSize
+    writeString(header, 8, 'WAVE');
+
     // fmt sub-chunk
-    writeString(view, 12, 'fmt ');
-    view.setUint32(16, 16, true); // subchunk1Size (16 for PCM)
-    view.setUint16(20, 1, true); // audioFormat (1 for PCM)
-    view.setUint16(22, numChannels, true);
-    view.setUint32(24, sampleRate, true);
-    view.setUint32(28, sampleRate * numChannels * (bitsPerSample / 8), true); // byteRate
-    view.setUint16(32, numChannels * (bitsPerSample / 8), true); // blockAlign
-    view.setUint16(34, bitsPerSample, true);
-    
-    // data sub-chunk
-    writeString(view, 36, 'data');
-    view.setUint32(40, dataSize, true);
+    writeString(header, 12, 'fmt ');
+    header.setUint32(16, 16, true); // subchunk1Size (16 for PCM)
+    header.setUint16(20, 1, true); // audioFormat (1 for PCM)
+    header.setUint16(22, numChannels, true);
+    header.setUint32(24, NARRATION_SAMPLE_RATE, true);
+    header.setUint32(28, NARRATION_SAMPLE_RATE * numChannels * (bitsPerSample / 8), true); // byteRate
+    header.setUint16(32, numChannels * (bitsPerSample / 8), true); // blockAlign
+    header.setUint16(34, bitsPerSample, true);
 
-    // Write PCM data
-    new Uint8Array(buffer).set(pcmData, 44);
+    // data sub-chunk
+    const dataHeader = new DataView(new ArrayBuffer(8));
+    writeString(dataHeader, 0, 'data');
+    dataHeader.setUint32(4, dataSize, true);
 
-    return new Blob([view], { type: 'audio/wav' });
+    return new Blob([header, ...beforeData, dataHeader, pcmData, padding, ...afterData], { type: 'audio/wav' });
 }
@@ -0,0 +1,462 @@
+/**
+ * Writers for the files narration is exported in: Ogg Opus, M4A (AAC) and
+ * WAV, each with title, artist, album and cover art tags. They only arrange
+ * bytes; encoding happens in audioExport.ts.
+ */
+
+import { createWavBlob } from './audio';
+import { bytesToBase64, concatBytes } from './encoding';
+
+/** Tags written into an exported file. */
+export interface AudioTags {
+    title: string;
+    artist: string;
+    album?: string;
+    artwork?: CoverArt;
+}
+
+/** A square JPEG shown as the album art. */
+export interface CoverArt {
+    data: Uint8Array;
+    mimeType: string;
+    width: number;
+    height: number;
+}
+
+/** One encoded packet and how many samples it decodes to. */
+export interface EncodedPacket {
+    data: Uint8Array;
+    frames: number;
+}
+
+const textEncoder = new TextEncoder();
+
+function ascii(text: string): Uint8Array {
+    return Uint8Array.from(text, char => char.charCodeAt(0));
+}
+
+function uint32BE(value: number): Uint8Array {
+    const bytes = new Uint8Array(4);
+    new DataView(bytes.buffer).setUint32(0, value);
+    return bytes;
+}
+
+function uint32LE(value: number): Uint8Array {
+    const bytes = new Uint8Array(4);
+    new DataView(bytes.buffer).setUint32(0, value, true);
+    return bytes;
+}
+
+function uint16BE(value: number): Uint8Array {
+    const bytes = new Uint8Array(2);
+    new DataView(bytes.buffer).setUint16(0, value);
+    return bytes;
+}
+
+// --- Ogg Opus (RFC 7845) ---
+
+// Pages are flushed once they hold this much audio, keeping the per-page overhead small.
+const OGG_PAGE_TARGET_BYTES = 4096;
+
+const OGG_CRC_TABLE = (() => {
+    const table = new Uint32Array(256);
+    for (let i = 0; i < 256; i++) {
+        let crc = i << 24;
+        for (let bit = 0; bit < 8; bit++) {
+            crc = crc & 0x80000000 ? (crc << 1) ^ 0x04c11db7 : crc << 1;
+        }
+        table[i] = crc >>> 0;
+    }
+    return table;
+})();
+
+function oggCrc(bytes: Uint8Array): number {
+    let crc = 0;
+    for (const byte of bytes) {
+        crc = ((crc << 8) ^ OGG_CRC_TABLE[((crc >>> 24) ^ byte) & 0xff]) >>> 0;
+    }
+    return crc;
+}
+
+interface OggPacket {
+    data: Uint8Array;
+    /** Granule position once this packet ends: the 48 kHz sample count so far. */
+    granule: bigint;
+    /** Ends the page after this packet, as the spec requires for the headers. */
+    flush?: boolean;
+}
+
+/**
+ * Splits packets into Ogg pages of one logical stream. Packets larger than a
+ * page, such as tags with cover art, continue over several pages.
+ */
+function writeOggPages(packets: OggPacket[], serial: number): Uint8Array[] {
+    const pages: Uint8Array[] = [];
+    let segments: number[] = [];
+    let body: Uint8Array[] = [];
+    let bodySize = 0;
+    // -1 marks a page on which no packet ends.
+    let granule = -1n;
+    // Whether the current page starts with the rest of a packet from the previous one.
+    let continued = false;
+
+    const emit = (isLast: boolean, nextContinued = false) => {
+        const header = new Uint8Array(27 + segments.length);
+        const view = new DataView(header.buffer);
+        header.set(ascii('OggS'), 0);
+        header[5] = (continued ? 0x01 : 0) | (pages.length === 0 ? 0x02 : 0) | (isLast ? 0x04 : 0);
+        view.setBigInt64(6, granule, true);
+        view.setUint32(14, serial, true);
+        view.setUint32(18, pages.length, true);
+        header[26] = segments.length;
+        header.set(segments, 27);
+        const page = concatBytes([header, ...body]);
+        new DataView(page.buffer).setUint32(22, oggCrc(page), true);
+        pages.push(page);
+        segments = [];
+        body = [];
+        bodySize = 0;
+        granule = -1n;
+        continued = nextContinued;
+    };
+
+    packets.forEach((packet, index) => {
+        const isLastPacket = index === packets.length - 1;
+        let offset = 0;
+        // A packet is laced as 255-byte segments and one shorter segment, which may be empty.
+        while (true) {
+            const size = Math.min(255, packet.data.byteLength - offset);
+            segments.push(size);
+            body.push(packet.data.subarray(offset, offset + size));
+            bodySize += size;
+            offset += size;
+            const packetDone = size < 255;
+            if (packetDone) {
+                granule = packet.granule;
+            }
+            if (segments.length === 255 && !(packetDone && isLastPacket)) {
+                emit(false, !packetDone);
+            }
+            if (packetDone) break;
+        }
+        if (!isLastPacket && (packet.flush || bodySize >= OGG_PAGE_TARGET_BYTES) && segments.length > 0) {
+            emit(false);
+        }
+    });
+    emit(true);
+    return pages;
+}
+
+function createOpusHead(preSkip: number, inputSampleRate: number): Uint8Array {
+    const head = new Uint8Array(19);
+    const view = new DataView(head.buffer);
+    head.set(ascii('OpusHead'), 0);
+    head[8] = 1; // version
+    head[9] = 1; // mono
+    view.setUint16(10, preSkip, true);
+    view.setUint32(12, inputSampleRate, true);
+    view.setInt16(16, 0, true); // output gain
+    head[18] = 0; // channel mapping family
+    return head;
+}
+
+/** The FLAC picture block that Vorbis comments carry cover art in. */
+function createFlacPicture(artwork: CoverArt): Uint8Array {
+    const mimeType = ascii(artwork.mimeType);
+    return concatBytes([
+        uint32BE(3), // front cover
+        uint32BE(mimeType.byteLength), mimeType,
+        uint32BE(0), // no description
+        uint32BE(artwork.width),
+        uint32BE(artwork.height),
+        uint32BE(24), // colour depth
+        uint32BE(0), // not indexed
+        uint32BE(artwork.data.byteLength), artwork.data,
+    ]);
+}
+
+function createOpusTags(tags: AudioTags): Uint8Array {
+    const comments = [
+        `TITLE=${tags.title}`,
+        `ARTIST=${tags.artist}`,
+        ...(tags.album ? [`ALBUM=${tags.album}`] : []),
+        ...(tags.artwork ? [`METADATA_BLOCK_PICTURE=${bytesToBase64(createFlacPicture(tags.artwork))}`] : []),
+    ].map(comment => textEncoder.encode(comment));
+    const vendor = textEncoder.encode('LandmarkLens');
+    return concatBytes([
+        ascii('OpusTags'),
+        uint32LE(vendor.byteLength), vendor,
+        uint32LE(comments.length),
+        ...comments.flatMap(comment => [uint32LE(comment.byteLength), comment]),
+    ]);
+}
+
+/**
+ * Wraps Opus packets in an Ogg Opus file.
+ * @param packets The encoded packets, with their length in 48 kHz samples.
+ * @param preSkip Samples of encoder delay to drop from the start.
+ * @param totalFrames Samples of actual audio, at 48 kHz, so padding at the end is trimmed.
+ * @param inputSampleRate The sample rate of the original audio, for information.
+ */
+export function createOggOpusFile(packets: EncodedPacket[], preSkip: number, totalFrames: number, inputSampleRate: number, tags: AudioTags): Blob {
+    // Granule positions count the pre-skip too.
+    const end = BigInt(preSkip + totalFrames);
+    let position = 0n;
+    const audio = packets.map(packet => {
+        position += BigInt(packet.frames);
+        return { data: packet.data, granule: position < end ? position : end };
+    });
+    const serial = (Math.random() * 0xffffffff) >>> 0;
+    const pages = writeOggPages([
+        { data: createOpusHead(preSkip, inputSampleRate), granule: 0n, flush: true },
+        { data: createOpusTags(tags), granule: 0n, flush: true },
+        ...audio,
+    ], serial);
+    return new Blob(pages, { type: 'audio/ogg; codecs=opus' });
+}
+
+// --- M4A (ISO base media file format with iTunes metadata) ---
+
+function box(type: string, ...children: Uint8Array[]): Uint8Array {
+    const content = concatBytes(children);
+    return concatBytes([uint32BE(8 + content.byteLength), ascii(type), content]);
+}
+
+function fullBox(type: string, version: number, flags: number, ...children: Uint8Array[]): Uint8Array {
+    return box(type, uint32BE((version << 24) | flags), ...children);
+}
+
+// The identity matrix boxes carry, as 16.16 and 2.30 fixed point.
+const UNITY_MATRIX = concatBytes([0x00010000, 0, 0, 0, 0x00010000, 0, 0, 0, 0x40000000].map(uint32BE));
+
+/** An MPEG-4 descriptor, as nested inside the esds box. */
+function descriptor(tag: number, ...children: Uint8Array[]): Uint8Array {
+    const content = concatBytes(children);
+    // Sizes are written in the four-byte form, which every reader accepts.
+    const size = content.byteLength;
+    return concatBytes([
+        Uint8Array.of(tag, 0x80 | (size >> 21) & 0x7f, 0x80 | (size >> 14) & 0x7f, 0x80 | (size >> 7) & 0x7f, size & 0x7f),
+        content,
+    ]);
+}
+
+function createEsds(audioSpecificConfig: Uint8Array, bitrate: number): Uint8Array {
+    return fullBox('esds', 0, 0, descriptor(0x03,
+        uint16BE(1), // ES_ID
+        Uint8Array.of(0), // flags
+        descriptor(0x04,
+            Uint8Array.of(0x40, 0x15), // MPEG-4 audio, audio stream
+            Uint8Array.of(0, 0, 0), // buffer size
+            uint32BE(bitrate), // max bitrate
+            uint32BE(bitrate), // average bitrate
+            descriptor(0x05, audioSpecificConfig),
+        ),
+        descriptor(0x06, Uint8Array.of(0x02)),
+    ));
+}
+
+/** Runs of equal sample durations, as the stts box stores them. */
+function durationRuns(packets: EncodedPacket[]): [count: number, frames: number][] {
+    const runs: [number, number][] = [];
+    for (const packet of packets) {
+        const last = runs[runs.length - 1];
+        if (last && last[1] === packet.frames) {
+            last[0]++;
+        } else {
+            runs.push([1, packet.frames]);
+        }
+    }
+    return runs;
+}
+
+function metadataItem(type: string, dataType: number, value: Uint8Array): Uint8Array {
+    return box(type, box('data', uint32BE(dataType), uint32BE(0), value));
+}
+
+/** A freeform "----" item, as iTunes stores its own extensions. */
+function freeformItem(name: string, value: string): Uint8Array {
+    return box('----',
+        fullBox('mean', 0, 0, ascii('com.apple.iTunes')),
+        fullBox('name', 0, 0, ascii(name)),
+        box('data', uint32BE(1), uint32BE(0), textEncoder.encode(value)),
+    );
+}
+
+/**
+ * The iTunSMPB value players without edit list support read gapless
+ * playback from: the encoder delay, the padding and the real sample count.
+ */
+function gaplessInfo(priming: number, padding: number, totalFrames: number): string {
+    const hex = (value: number, digits: number) => value.toString(16).toUpperCase().padStart(digits, '0');
+    const fields = [hex(0, 8), hex(priming, 8), hex(padding, 8), hex(totalFrames, 16), ...Array<string>(8).fill(hex(0, 8))];
+    return fields.map(field => ` ${field}`).join('');
+}
+
+function createMetadata(tags: AudioTags, ...extraItems: Uint8Array[]): Uint8Array {
+    const UTF8 = 1;
+    const JPEG = 13;
+    const PNG = 14;
+    const items = [
+        metadataItem('©nam', UTF8, textEncoder.encode(tags.title)),
+        metadataItem('©ART', UTF8, textEncoder.encode(tags.artist)),
+        ...(tags.album ? [metadataItem('©alb', UTF8, textEncoder.encode(tags.album))] : []),
+        ...(tags.artwork ? [metadataItem('covr', tags.artwork.mimeType === 'image/png' ? PNG : JPEG, tags.artwork.data)] : []),
+        ...extraItems,
+    ];
+    // Box types are Latin-1: © is the single byte 0xA9.
+    return box('udta', fullBox('meta', 0, 0,
+        fullBox('hdlr', 0, 0, uint32BE(0), ascii('mdir'), ascii('appl'), new Uint8Array(9)),
+        box('ilst', ...items),
+    ));
+}
+
+/**
+ * Wraps AAC packets in an M4A file, which podcast and music apps read along
+ * with its iTunes-style tags. An edit list, and iTunSMPB for players that
+ * ignore it, cut the encoder delay and the padding of the last packet.
+ * @param packets The encoded packets, with their length in samples.
+ * @param priming Samples of encoder delay at the start.
+ * @param totalFrames Samples of actual audio, so padding at the end is trimmed.
+ * @param audioSpecificConfig The decoder configuration the encoder reported.
+ */
+export function createM4aFile(packets: EncodedPacket[], priming: number, totalFrames: number, sampleRate: number, audioSpecificConfig: Uint8Array, bitrate: number, tags: AudioTags): Blob {
+    const encodedFrames = packets.reduce((total, packet) => total + packet.frames, 0);
+    const playedFrames = Math.max(0, Math.min(totalFrames, encodedFrames - priming));
+    const durationMs = Math.round(playedFrames * 1000 / sampleRate);
+
+    const ftyp = box('ftyp', ascii('M4A '), uint32BE(0), ascii('M4A '), ascii('isom'), ascii('mp42'));
+    const mdat = box('mdat', ...packets.map(packet => packet.data));
+    // The audio directly follows the ftyp box and the mdat header.
+    const dataOffset = ftyp.byteLength + 8;
+
+    const sampleEntry = box('mp4a',
+        new Uint8Array(6), uint16BE(1), // reserved, data reference index
+        new Uint8Array(8), // reserved
+        uint16BE(1), // mono
+        uint16BE(16), // sample size
+        new Uint8Array(4), // pre-defined, reserved
+        uint32BE(sampleRate * 0x10000),
+        createEsds(audioSpecificConfig, bitrate),
+    );
+    const runs = durationRuns(packets);
+    const stbl = box('stbl',
+        fullBox('stsd', 0, 0, uint32BE(1), sampleEntry),
+        fullBox('stts', 0, 0, uint32BE(runs.length), ...runs.flatMap(([count, frames]) => [uint32BE(count), uint32BE(frames)])),
+        fullBox('stsc', 0, 0, uint32BE(1), uint32BE(1), uint32BE(packets.length), uint32BE(1)),
+        fullBox('stsz', 0, 0, uint32BE(0), uint32BE(packets.length), ...packets.map(packet => uint32BE(packet.data.byteLength))),
+        fullBox('stco', 0, 0, uint32BE(1), uint32BE(dataOffset)),
+    );
+    const trak = box('trak',
+        fullBox('tkhd', 0, 0x000003, // enabled, in movie
+            uint32BE(0), uint32BE(0), // creation, modification time
+            uint32BE(1), uint32BE(0), // track id, reserved
+            uint32BE(durationMs),
+            new Uint8Array(8), // reserved
+            uint16BE(0), uint16BE(0), // layer, alternate group
+            uint16BE(0x0100), uint16BE(0), // full volume, reserved
+            UNITY_MATRIX,
+            uint32BE(0), uint32BE(0), // width, height
+        ),
+        // Play from after the encoder delay, for as long as the actual audio lasts.
+        box('edts', fullBox('elst', 0, 0,
+            uint32BE(1),
+            uint32BE(durationMs), // in the movie's timescale
+            uint32BE(priming), // in the track's timescale
+            uint16BE(1), uint16BE(0), // rate 1.0
+        )),
+        box('mdia',
+            // The media itself lasts as long as all its samples; the edit list does the trimming.
+            fullBox('mdhd', 0, 0,
+                uint32BE(0), uint32BE(0),
+                uint32BE(sampleRate), uint32BE(encodedFrames),
+                uint16BE(0x55c4), // language "und"
+                uint16BE(0),
+            ),
+            fullBox('hdlr', 0, 0, uint32BE(0), ascii('soun'), new Uint8Array(12), ascii('SoundHandler\0')),
+            box('minf',
+                fullBox('smhd', 0, 0, uint16BE(0), uint16BE(0)),
+                box('dinf', fullBox('dref', 0, 0, uint32BE(1), fullBox('url ', 0, 0x000001))),
+                stbl,
+            ),
+        ),
+    );
+    const moov = box('moov',
+        fullBox('mvhd', 0, 0,
+            uint32BE(0), uint32BE(0),
+            uint32BE(1000), uint32BE(durationMs),
+            uint32BE(0x00010000), uint16BE(0x0100), // rate 1.0, full volume
+            new Uint8Array(10), // reserved
+            UNITY_MATRIX,
+            new Uint8Array(24), // pre-defined
+            uint32BE(2), // next track id
+        ),
+        trak,
+        createMetadata(tags, freeformItem('iTunSMPB', gaplessInfo(priming, encodedFrames - priming - playedFrames, playedFrames))),
+    );
+    return new Blob([ftyp, mdat, moov], { type: 'audio/mp4' });
+}
+
+// --- WAV with ID3 and RIFF INFO tags ---
+
+function id3TextFrame(id: string, text: string): Uint8Array {
+    // UTF-16 with a byte order mark, the only Unicode encoding ID3v2.3 has.
+    const content = [0x01, 0xff, 0xfe];
+    for (let i = 0; i < text.length; i++) {
+        const code = text.charCodeAt(i);
+        content.push(code & 0xff, code >> 8);
+    }
+    content.push(0, 0);
+    return concatBytes([ascii(id), uint32BE(content.length), new Uint8Array(2), Uint8Array.from(content)]);
+}
+
+function createId3Tag(tags: AudioTags): Uint8Array {
+    const frames = [
+        id3TextFrame('TIT2', tags.title),
+        id3TextFrame('TPE1', tags.artist),
+        ...(tags.album ? [id3TextFrame('TALB', tags.album)] : []),
+    ];
+    if (tags.artwork) {
+        const picture = concatBytes([
+            Uint8Array.of(0), // Latin-1
+            ascii(`${tags.artwork.mimeType}\0`),
+            Uint8Array.of(0x03, 0), // front cover, no description
+            tags.artwork.data,
+        ]);
+        frames.push(concatBytes([ascii('APIC'), uint32BE(picture.byteLength), new Uint8Array(2), picture]));
+    }
+    const body = concatBytes(frames);
+    // The tag size is "synchsafe": seven bits per byte.
+    const size = body.byteLength;
+    return concatBytes([
+        ascii('ID3'), Uint8Array.of(3, 0, 0),
+        Uint8Array.of((size >> 21) & 0x7f, (size >> 14) & 0x7f, (size >> 7) & 0x7f, size & 0x7f),
+        body,
+    ]);
+}
+
+function riffChunk(id: string, data: Uint8Array): Uint8Array {
+    // Chunks are padded to an even length.
+    return concatBytes([ascii(id), uint32LE(data.byteLength), data, new Uint8Array(data.byteLength % 2)]);
+}
+
+function createInfoList(tags: AudioTags): Uint8Array {
+    const entry = (id: string, text: string) => riffChunk(id, concatBytes([textEncoder.encode(text), Uint8Array.of(0)]));
+    return riffChunk('LIST', concatBytes([
+        ascii('INFO'),
+        entry('INAM', tags.title),
+        entry('IART', tags.artist),
+        ...(tags.album ? [entry('IPRD', tags.album)] : []),
+    ]));
+}
+
+/**
+ * Creates a WAV file of narration PCM, as createWavBlob writes it, that also
+ * carries its tags: a RIFF INFO list, and an ID3 chunk with the cover art for
+ * players that read one.
+ */
+export function createTaggedWavFile(pcm: Uint8Array, tags: AudioTags): Blob {
+    return createWavBlob(pcm, {
+        beforeData: [createInfoList(tags)],
+        afterData: [riffChunk('id3 ', createId3Tag(tags))],
+    });
+}
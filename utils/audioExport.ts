@@ -0,0 +1,299 @@
+import { AudioTags, CoverArt, EncodedPacket, createM4aFile, createOggOpusFile, createTaggedWavFile } from './audioContainers';
+import { NARRATION_SAMPLE_RATE } from './audio';
+import { base64ToBlob } from './encoding';
+
+export type { AudioTags, CoverArt } from './audioContainers';
+
+export type AudioExportFormat = 'm4a' | 'opus' | 'wav';
+
+export interface AudioExportOption {
+    format: AudioExportFormat;
+    label: string;
+    extension: string;
+}
+
+/** Every export format, smallest and most widely played first. */
+export const AUDIO_EXPORT_OPTIONS: AudioExportOption[] = [
+    { format: 'm4a', label: 'M4A (AAC)', extension: 'm4a' },
+    { format: 'opus', label: 'Opus', extension: 'opus' },
+    { format: 'wav', label: 'WAV', extension: 'wav' },
+];
+
+// Both encoders are at home at 48 kHz; Opus works at nothing else internally.
+const ENCODING_SAMPLE_RATE = 48000;
+const COVER_ART_SIZE = 600;
+
+// Speech needs far less than music; these keep a minute of narration under 1 MB.
+const ENCODER_CONFIGS: Record<Exclude<AudioExportFormat, 'wav'>, AudioEncoderConfig> = {
+    m4a: { codec: 'mp4a.40.2', sampleRate: ENCODING_SAMPLE_RATE, numberOfChannels: 1, bitrate: 96_000 },
+    opus: { codec: 'opus', sampleRate: ENCODING_SAMPLE_RATE, numberOfChannels: 1, bitrate: 48_000 },
+};
+
+// What MediaRecorder is asked for where WebCodecs can't encode: the same containers, so the extensions still fit.
+const RECORDER_MIME_TYPES: Record<Exclude<AudioExportFormat, 'wav'>, string> = {
+    m4a: 'audio/mp4',
+    opus: 'audio/ogg;codecs=opus',
+};
+
+// Used when the encoder doesn't report them: libopus's delay and packet lengths at 48 kHz, and AAC's fixed frame and usual delay.
+const DEFAULT_OPUS_PRE_SKIP = 312;
+const DEFAULT_AAC_PRIMING = 1024;
+const DEFAULT_PACKET_FRAMES: Record<Exclude<AudioExportFormat, 'wav'>, number> = { m4a: 1024, opus: 960 };
+
+async function canEncode(format: Exclude<AudioExportFormat, 'wav'>): Promise<boolean> {
+    if (typeof AudioEncoder === 'undefined') return false;
+    try {
+        return (await AudioEncoder.isConfigSupported(ENCODER_CONFIGS[format])).supported === true;
+    } catch {
+        // Unknown codec strings throw in some browsers rather than reporting false.
+        return false;
+    }
+}
+
+function canRecord(format: Exclude<AudioExportFormat, 'wav'>): boolean {
+    return typeof MediaRecorder !== 'undefined' && MediaRecorder.isTypeSupported(RECORDER_MIME_TYPES[format]);
+}
+
+/**
+ * Finds the formats this browser can export. Compressed formats are encoded
+ * with WebCodecs where the browser has the codec, and otherwise recorded with
+ * MediaRecorder, which takes as long as the narration and writes no tags;
+ * WAV always works.
+ * @returns The supported formats, in the order of AUDIO_EXPORT_OPTIONS.
+ */
+export async function getSupportedAudioExportFormats(): Promise<AudioExportFormat[]> {
+    const supported: AudioExportFormat[] = [];
+    for (const format of ['m4a', 'opus'] as const) {
+        if (await canEncode(format) || canRecord(format)) {
+            supported.push(format);
+        }
+    }
+    supported.push('wav');
+    return supported;
+}
+
+/**
+ * Crops a photo to a square JPEG for use as album art.
+ * @param base64 The base64 encoded photo.
+ * @param mimeType The MIME type of the photo.
+ */
+export async function createCoverArt(base64: string, mimeType: string): Promise<CoverArt> {
+    const photo = await createImageBitmap(base64ToBlob(base64, mimeType));
+    const side = Math.min(photo.width, photo.height);
+    const canvas = document.createElement('canvas');
+    canvas.width = COVER_ART_SIZE;
+    canvas.height = COVER_ART_SIZE;
+    const context = canvas.getContext('2d');
+    if (!context) {
+        photo.close();
+        throw new Error("Could not create a canvas context for the cover art.");
+    }
+    context.drawImage(photo, (photo.width - side) / 2, (photo.height - side) / 2, side, side, 0, 0, COVER_ART_SIZE, COVER_ART_SIZE);
+    photo.close();
+
+    const blob = await new Promise<Blob>((resolve, reject) => {
+        canvas.toBlob(result => result ? resolve(result) : reject(new Error("Could not encode the cover art.")), 'image/jpeg', 0.85);
+    });
+    return { data: new Uint8Array(await blob.arrayBuffer()), mimeType: 'image/jpeg', width: COVER_ART_SIZE, height: COVER_ART_SIZE };
+}
+
+/** Copies narration PCM into an audio buffer of the given context. */
+function createNarrationBuffer(context: BaseAudioContext, pcm: Uint8Array): AudioBuffer {
+    const view = new DataView(pcm.buffer, pcm.byteOffset, pcm.byteLength);
+    const frameCount = Math.floor(pcm.byteLength / 2);
+    const buffer = context.createBuffer(1, Math.max(1, frameCount), NARRATION_SAMPLE_RATE);
+    const channel = buffer.getChannelData(0);
+    for (let i = 0; i < frameCount; i++) {
+        channel[i] = view.getInt16(i * 2, true) / 32768;
+    }
+    return buffer;
+}
+
+/** Converts narration PCM to float samples at the encoding sample rate. */
+async function resampleNarration(pcm: Uint8Array): Promise<Float32Array> {
+    const frameCount = Math.floor(pcm.byteLength / 2);
+    const context = new OfflineAudioContext(1, Math.max(1, Math.ceil(frameCount * ENCODING_SAMPLE_RATE / NARRATION_SAMPLE_RATE)), ENCODING_SAMPLE_RATE);
+    const buffer = createNarrationBuffer(context, pcm);
+    const source = context.createBufferSource();
+    source.buffer = buffer;
+    source.connect(context.destination);
+    source.start();
+    return (await context.startRendering()).getChannelData(0);
+}
+
+/**
+ * Records narration by playing it, silently, into a MediaRecorder. This
+ * takes as long as the narration lasts.
+ * @returns The recording, in the container of `mimeType`.
+ */
+async function recordNarration(pcm: Uint8Array, mimeType: string, bitrate: number | undefined): Promise<Blob> {
+    const context = new AudioContext();
+    try {
+        const source = context.createBufferSource();
+        source.buffer = createNarrationBuffer(context, pcm);
+        const destination = context.createMediaStreamDestination();
+        source.connect(destination);
+
+        const recorder = new MediaRecorder(destination.stream, { mimeType, audioBitsPerSecond: bitrate });
+        const chunks: Blob[] = [];
+        const recorded = new Promise<Blob>((resolve, reject) => {
+            recorder.ondataavailable = event => chunks.push(event.data);
+            recorder.onstop = () => resolve(new Blob(chunks, { type: recorder.mimeType || mimeType }));
+            recorder.onerror = event => reject((event as ErrorEvent).error ?? new Error("The narration could not be recorded."));
+        });
+        source.onended = () => recorder.stop();
+
+        // A context created after an await may start suspended.
+        await context.resume();
+        recorder.start();
+        source.start();
+        return await recorded;
+    } finally {
+        context.close();
+    }
+}
+
+interface EncodedAudio {
+    packets: EncodedPacket[];
+    /** The decoder configuration the encoder reported, if any. */
+    description: Uint8Array | null;
+    /** Timestamp of the first packet, in microseconds; negative when the encoder reports its delay this way. */
+    firstTimestamp: number | null;
+}
+
+async function encodeSamples(samples: Float32Array, config: AudioEncoderConfig, defaultPacketFrames: number): Promise<EncodedAudio> {
+    const packets: EncodedPacket[] = [];
+    let description: Uint8Array | null = null;
+    let firstTimestamp: number | null = null;
+    let failure: DOMException | null = null;
+
+    const encoder = new AudioEncoder({
+        output: (chunk, metadata) => {
+            const data = new Uint8Array(chunk.byteLength);
+            chunk.copyTo(data);
+            firstTimestamp ??= chunk.timestamp;
+            packets.push({ data, frames: chunk.duration ? Math.round(chunk.duration * config.sampleRate / 1_000_000) : defaultPacketFrames });
+            const reported = metadata?.decoderConfig?.description;
+            if (reported && !description) {
+                description = ArrayBuffer.isView(reported)
+                    ? new Uint8Array(reported.buffer, reported.byteOffset, reported.byteLength).slice()
+                    : new Uint8Array(reported).slice();
+            }
+        },
+        error: error => { failure = error; },
+    });
+    encoder.configure(config);
+
+    // Whole seconds at a time keep the number of AudioData objects small.
+    for (let offset = 0; offset < samples.length; offset += config.sampleRate) {
+        const frames = samples.slice(offset, offset + config.sampleRate);
+        const data = new AudioData({
+            format: 'f32-planar',
+            sampleRate: config.sampleRate,
+            numberOfFrames: frames.length,
+            numberOfChannels: 1,
+            timestamp: Math.round(offset * 1_000_000 / config.sampleRate),
+            data: frames,
+        });
+        encoder.encode(data);
+        data.close();
+    }
+    await encoder.flush();
+    encoder.close();
+    if (failure) throw failure;
+    return { packets, description, firstTimestamp };
+}
+
+/** The delay libopus reports in the OpusHead it hands back, if it does. */
+function readOpusPreSkip(description: Uint8Array | null): number {
+    if (description && description.byteLength >= 12 && new TextDecoder().decode(description.subarray(0, 8)) === 'OpusHead') {
+        return new DataView(description.buffer, description.byteOffset).getUint16(10, true);
+    }
+    return DEFAULT_OPUS_PRE_SKIP;
+}
+
+/** The AAC encoder delay, when the encoder reports it through a negative first timestamp. */
+function readAacPriming(firstTimestamp: number | null, sampleRate: number): number {
+    return firstTimestamp !== null && firstTimestamp < 0
+        ? Math.round(-firstTimestamp * sampleRate / 1_000_000)
+        : DEFAULT_AAC_PRIMING;
+}
+
+/**
+ * The AudioSpecificConfig for AAC-LC, mono, at the encoding sample rate, for
+ * encoders that don't report one.
+ */
+function defaultAudioSpecificConfig(): Uint8Array {
+    const objectType = 2; // AAC-LC
+    const frequencyIndex = 3; // 48 kHz
+    const channels = 1;
+    return Uint8Array.of((objectType << 3) | (frequencyIndex >> 1), ((frequencyIndex & 1) << 7) | (channels << 3));
+}
+
+/**
+ * The file name to save narration under, e.g. "Eiffel_Tower_narration.m4a".
+ * @param name What the narration is of.
+ * @param suffix Tells the kind of narration apart, e.g. "narration" or "tour".
+ */
+export function narrationFileName(name: string, suffix: string, format: AudioExportFormat): string {
+    const { extension } = AUDIO_EXPORT_OPTIONS.find(option => option.format === format)!;
+    return `${name.replace(/\s+/g, '_')}_${suffix}.${extension}`;
+}
+
+/**
+ * Exports narration the way the app offers it for download: tagged as one of
+ * its tours, with a photo as the cover. A photo that can't be made into cover
+ * art is left out rather than failing the export.
+ * @param pcm The narration: 16-bit mono PCM at the narration sample rate.
+ * @param title The title to tag the file with.
+ * @param photo The base64 encoded photo for the cover, if there is one.
+ * @returns The file; throws an error with a message to show if encoding fails.
+ */
+export async function exportNarrationWithCover(
+    pcm: Uint8Array,
+    format: AudioExportFormat,
+    title: string,
+    photo?: { base64: string, mimeType: string },
+): Promise<Blob> {
+    let artwork: CoverArt | undefined;
+    if (photo) {
+        try {
+            artwork = await createCoverArt(photo.base64, photo.mimeType);
+        } catch (error) {
+            // The narration is still worth having without its cover.
+            console.warn("Could not create cover art:", error);
+        }
+    }
+    try {
+        return await exportNarration(pcm, format, { title, artist: 'LandmarkLens', album: 'LandmarkLens Tours', artwork });
+    } catch (error) {
+        const { label } = AUDIO_EXPORT_OPTIONS.find(option => option.format === format)!;
+        throw new Error(`The narration could not be saved as ${label}. Try WAV instead.`, { cause: error });
+    }
+}
+
+/**
+ * Encodes narration into a file podcast and music apps can play, tagged with
+ * its title, artist and cover art. Recorded files, in browsers without the
+ * WebCodecs encoder, come without tags.
+ * @param pcm The narration: 16-bit mono PCM at the narration sample rate.
+ * @param format One of the formats getSupportedAudioExportFormats returned.
+ * @returns The file, with its MIME type set.
+ */
+export async function exportNarration(pcm: Uint8Array, format: AudioExportFormat, tags: AudioTags): Promise<Blob> {
+    if (format === 'wav') {
+        return createTaggedWavFile(pcm.subarray(0, pcm.byteLength - (pcm.byteLength % 2)), tags);
+    }
+
+    const config = ENCODER_CONFIGS[format];
+    if (!await canEncode(format)) {
+        return recordNarration(pcm, RECORDER_MIME_TYPES[format], config.bitrate);
+    }
+    const samples = await resampleNarration(pcm);
+    const { packets, description, firstTimestamp } = await encodeSamples(samples, config, DEFAULT_PACKET_FRAMES[format]);
+    if (format === 'opus') {
+        return createOggOpusFile(packets, readOpusPreSkip(description), samples.length, NARRATION_SAMPLE_RATE, tags);
+    }
+    const priming = readAacPriming(firstTimestamp, config.sampleRate);
+    return createM4aFile(packets, priming, samples.length, config.sampleRate, description ?? defaultAudioSpecificConfig(), config.bitrate ?? 0, tags);
+}
@@ -0,0 +1,104 @@
+/**
+ * Decodes a base64 string into raw bytes.
+ * @param base64 The base64 encoded data.
+ * @returns The decoded bytes.
+ */
+export function base64ToBytes(base64: string): Uint8Array {
+    const binaryString = atob(base64);
+    const bytes = new Uint8Array(binaryString.length);
+    for (let i = 0; i < binaryString.length; i++) {
+        bytes[i] = binaryString.charCodeAt(i);
+    }
+    return bytes;
+}
+
+/**
+ * Encodes raw bytes as a base64 string.
+ * @param bytes The bytes to encode.
+ * @returns The base64 encoded data.
+ */
+export function bytesToBase64(bytes: Uint8Array): string {
+    let binary = '';
+    const chunkSize = 0x8000;
+    for (let i = 0; i < bytes.length; i += chunkSize) {
+        binary += String.fromCharCode(...bytes.subarray(i, i + chunkSize));
+    }
+    return btoa(binary);
+}
+
+/**
+ * Joins several byte arrays into one.
+ * @param chunks The byte arrays, in order.
+ * @returns A new array holding all bytes.
+ */
+export function concatBytes(chunks: Uint8Array[]): Uint8Array {
+    const result = new Uint8Array(chunks.reduce((total, chunk) => total + chunk.length, 0));
+    let offset = 0;
+    chunks.forEach(chunk => {
+        result.set(chunk, offset);
+        offset += chunk.length;
+    });
+    return result;
+}
+
+/**
+ * Converts a base64 string into a Blob of the given MIME type.
+ * @param base64 The base64 encoded data.
+ * @param mimeType The MIME type of the resulting Blob.
+ * @returns A Blob containing the decoded bytes.
+ */
+export function base64ToBlob(base64: string, mimeType: string): Blob {
+    return new Blob([base64ToBytes(base64)], { type: mimeType });
+}
+
+/**
+ * Reads a Blob back into a base64 string (without the data URL prefix).
+ * @param blob The Blob to read.
+ * @returns The base64 encoded contents of the Blob.
+ */
+export function blobToBase64(blob: Blob): Promise<string> {
+    return new Promise((resolve, reject) => {
+        const reader = new FileReader();
+        reader.onload = () => resolve((reader.result as string).split(',')[1] ?? '');
+        reader.onerror = () => reject(reader.error);
+        reader.readAsDataURL(blob);
+    });
+}
+
+/**
+ * Computes the SHA-256 digest of some data.
+ * @param data The text or bytes to hash.
+ * @returns The digest as a lowercase hex string.
+ */
+export async function sha256Hex(data: string | Uint8Array): Promise<string> {
+    const bytes = typeof data === 'string' ? new TextEncoder().encode(data) : data;
+    const digest = await crypto.subtle.digest('SHA-256', bytes);
+    return Array.from(new Uint8Array(digest), byte => byte.toString(16).padStart(2, '0')).join('');
+}
+
+async function pipeThrough(bytes: Uint8Array, transform: CompressionStream | DecompressionStream): Promise<Uint8Array> {
+    const stream = new Blob([bytes]).stream().pipeThrough(transform);
+    return new Uint8Array(await new Response(stream).arrayBuffer());
+}
+
+/**
+ * Compresses text into a compact, URL-safe base64 string (deflate, then
+ * base64url without padding).
+ * @param text The text to compress.
+ * @returns The compressed text, safe to use in a URL.
+ */
+export async function compressToBase64Url(text: string): Promise<string> {
+    const compressed = await pipeThrough(new TextEncoder().encode(text), new CompressionStream('deflate-raw'));
+    return bytesToBase64(compressed).replace(/\+/g, '-').replace(/\//g, '_').replace(/=+$/, '');
+}
+
+/**
+ * Reverses compressToBase64Url.
+ * @param encoded The compressed, URL-safe text.
+ * @returns The original text.
+ */
+export async function decompressFromBase64Url(encoded: string): Promise<string> {
+    const base64 = encoded.replace(/-/g, '+').replace(/_/g, '/');
+    const bytes = base64ToBytes(base64.padEnd(Math.ceil(base64.length / 4) * 4, '='));
+    return new TextDecoder().decode(await pipeThrough(bytes, new DecompressionStream('deflate-raw')));
+}
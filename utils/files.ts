@@ -0,0 +1,81 @@
+const IMAGE_EXTENSIONS = /\.(jpe?g|png|webp|heic|heif)$/i;
+
+/**
+ * Checks whether a file looks like a photo the app can analyze. HEIC files
+ * often arrive without a MIME type, so the extension is checked as well.
+ * @param file The file to check.
+ * @returns True for image files.
+ */
+export function isImageFile(file: File): boolean {
+    return file.type.startsWith('image/') || IMAGE_EXTENSIONS.test(file.name);
+}
+
+function readEntryFile(entry: FileSystemFileEntry): Promise<File> {
+    return new Promise((resolve, reject) => entry.file(resolve, reject));
+}
+
+function readDirectoryEntries(reader: FileSystemDirectoryReader): Promise<FileSystemEntry[]> {
+    return new Promise((resolve, reject) => reader.readEntries(resolve, reject));
+}
+
+async function collectEntryFiles(entry: FileSystemEntry): Promise<File[]> {
+    if (entry.isFile) {
+        return [await readEntryFile(entry as FileSystemFileEntry)];
+    }
+    if (!entry.isDirectory) return [];
+
+    // readEntries returns at most 100 entries per call; keep reading until it comes back empty.
+    const reader = (entry as FileSystemDirectoryEntry).createReader();
+    const files: File[] = [];
+    let batch = await readDirectoryEntries(reader);
+    while (batch.length > 0) {
+        for (const child of batch) {
+            files.push(...await collectEntryFiles(child));
+        }
+        batch = await readDirectoryEntries(reader);
+    }
+    return files;
+}
+
+/**
+ * Gathers every image dropped onto the page, descending into dropped folders.
+ * @param dataTransfer The drop event's data.
+ * @returns The image files, in the order they were found.
+ */
+export async function collectDroppedImages(dataTransfer: DataTransfer): Promise<File[]> {
+    // Entries must be taken synchronously: the drop data is cleared once the handler yields.
+    const entries = Array.from(dataTransfer.items)
+        .filter(item => item.kind === 'file')
+        .map(item => item.webkitGetAsEntry?.() ?? null);
+    const fallbackFiles = Array.from(dataTransfer.files);
+
+    if (entries.length === 0 || entries.some(entry => entry === null)) {
+        return fallbackFiles.filter(isImageFile);
+    }
+
+    const files: File[] = [];
+    for (const entry of entries) {
+        try {
+            files.push(...await collectEntryFiles(entry!));
+        } catch (error) {
+            console.error(`Could not read dropped item "${entry!.name}":`, error);
+        }
+    }
+    return files.filter(isImageFile);
+}
+
+/**
+ * Saves a Blob to the user's downloads through a temporary link.
+ * @param blob The contents of the file.
+ * @param filename The suggested file name.
+ */
+export function downloadBlob(blob: Blob, filename: string): void {
+    const url = URL.createObjectURL(blob);
+    const a = document.createElement('a');
+    a.href = url;
+    a.download = filename;
+    document.body.appendChild(a);
+    a.click();
+    document.body.removeChild(a);
+    URL.revokeObjectURL(url);
+}
@@ -0,0 +1,41 @@
+import { PhotoMetadata } from '../types';
+
+/**
+ * Formats a latitude/longitude pair as e.g. "48.8584° N, 2.2945° E".
+ */
+export function formatCoordinates(latitude: number, longitude: number): string {
+    const lat = `${Math.abs(latitude).toFixed(4)}° ${latitude >= 0 ? 'N' : 'S'}`;
+    const lon = `${Math.abs(longitude).toFixed(4)}° ${longitude >= 0 ? 'E' : 'W'}`;
+    return `${lat}, ${lon}`;
+}
+
+/**
+ * Formats an ISO 8601 capture time for display in the user's locale.
+ */
+export function formatCaptureTime(capturedAt: string): string {
+    const date = new Date(capturedAt);
+    if (Number.isNaN(date.getTime())) return capturedAt;
+    return date.toLocaleString(undefined, { dateStyle: 'medium', timeStyle: 'short' });
+}
+
+/**
+ * Summarises where and when a photo was taken, e.g.
+ * "12 May 2024, 14:03 · 48.8584° N, 2.2945° E". Returns null if nothing is known.
+ */
+export function formatPhotoMetadata(metadata: PhotoMetadata | undefined): string | null {
+    if (!metadata) return null;
+    const parts: string[] = [];
+    if (metadata.capturedAt) parts.push(formatCaptureTime(metadata.capturedAt));
+    if (metadata.latitude !== undefined && metadata.longitude !== undefined) {
+        parts.push(formatCoordinates(metadata.latitude, metadata.longitude));
+    }
+    return parts.length > 0 ? parts.join(' · ') : null;
+}
+
+/**
+ * Formats a duration in seconds as "m:ss", e.g. 83.4 → "1:23".
+ */
+export function formatDuration(seconds: number): string {
+    const total = Math.max(0, Math.floor(seconds));
+    return `${Math.floor(total / 60)}:${String(total % 60).padStart(2, '0')}`;
+}
@@ -0,0 +1,135 @@
+import { GeoPoint, LandmarkAnalysis } from '../types';
+
+export const TILE_SIZE = 256;
+const MAX_LATITUDE = 85.05112878;
+
+export interface PixelPoint {
+    x: number;
+    y: number;
+}
+
+export interface Cluster<T> {
+    /** Position of the cluster in world pixels, the mean of its members. */
+    x: number;
+    y: number;
+    items: T[];
+}
+
+/**
+ * Picks the best known position for an analysis: the landmark's own location
+ * if the model geocoded it, otherwise the GPS position the photo was taken from.
+ */
+export function getAnalysisLocation(analysis: Pick<LandmarkAnalysis, 'name' | 'detectedLandmarks' | 'photoMetadata'>): GeoPoint | undefined {
+    const landmarkLocation = analysis.detectedLandmarks?.find(landmark => landmark.name === analysis.name)?.location;
+    if (landmarkLocation) {
+        return landmarkLocation;
+    }
+    const { latitude, longitude } = analysis.photoMetadata ?? {};
+    return latitude !== undefined && longitude !== undefined ? { latitude, longitude } : undefined;
+}
+
+/**
+ * Projects a coordinate to Web Mercator world pixels at the given zoom level,
+ * matching the layout of standard slippy-map tiles.
+ */
+export function project(point: GeoPoint, zoom: number): PixelPoint {
+    const scale = TILE_SIZE * 2 ** zoom;
+    const latitude = Math.max(-MAX_LATITUDE, Math.min(MAX_LATITUDE, point.latitude));
+    const sin = Math.sin((latitude * Math.PI) / 180);
+    return {
+        x: ((point.longitude + 180) / 360) * scale,
+        y: (0.5 - Math.log((1 + sin) / (1 - sin)) / (4 * Math.PI)) * scale,
+    };
+}
+
+/**
+ * Inverse of `project`: converts world pixels at a zoom level back to a coordinate.
+ */
+export function unproject(point: PixelPoint, zoom: number): GeoPoint {
+    const scale = TILE_SIZE * 2 ** zoom;
+    const n = Math.PI - (2 * Math.PI * point.y) / scale;
+    return {
+        latitude: (180 / Math.PI) * Math.atan(Math.sinh(n)),
+        longitude: (point.x / scale) * 360 - 180,
+    };
+}
+
+/**
+ * Finds the highest zoom level at which all points fit in a viewport of the
+ * given size (with padding), and the world-pixel offset that centres them.
+ */
+export function fitBounds(points: GeoPoint[], width: number, height: number, padding = 40, maxZoom = 16): { zoom: number, origin: PixelPoint } {
+    if (points.length === 0) {
+        return { zoom: 1, origin: { x: TILE_SIZE - width / 2, y: TILE_SIZE - height / 2 } };
+    }
+
+    let zoom = maxZoom;
+    for (; zoom > 0; zoom--) {
+        const projected = points.map(point => project(point, zoom));
+        const spanX = Math.max(...projected.map(p => p.x)) - Math.min(...projected.map(p => p.x));
+        const spanY = Math.max(...projected.map(p => p.y)) - Math.min(...projected.map(p => p.y));
+        if (spanX <= width - padding * 2 && spanY <= height - padding * 2) break;
+    }
+
+    const projected = points.map(point => project(point, zoom));
+    const centerX = (Math.max(...projected.map(p => p.x)) + Math.min(...projected.map(p => p.x))) / 2;
+    const centerY = (Math.max(...projected.map(p => p.y)) + Math.min(...projected.map(p => p.y))) / 2;
+    return { zoom, origin: { x: centerX - width / 2, y: centerY - height / 2 } };
+}
+
+/**
+ * Greedily groups items whose projected positions are within `radius` pixels
+ * of an existing cluster.
+ */
+export function clusterPoints<T>(items: T[], getPosition: (item: T) => PixelPoint, radius: number): Cluster<T>[] {
+    const clusters: Cluster<T>[] = [];
+    items.forEach(item => {
+        const position = getPosition(item);
+        const cluster = clusters.find(c => Math.hypot(c.x - position.x, c.y - position.y) <= radius);
+        if (cluster) {
+            const count = cluster.items.length;
+            cluster.x = (cluster.x * count + position.x) / (count + 1);
+            cluster.y = (cluster.y * count + position.y) / (count + 1);
+            cluster.items.push(item);
+        } else {
+            clusters.push({ x: position.x, y: position.y, items: [item] });
+        }
+    });
+    return clusters;
+}
+
+const EARTH_RADIUS_METERS = 6371000;
+const COMPASS_DIRECTIONS = ['north', 'north-east', 'east', 'south-east', 'south', 'south-west', 'west', 'north-west'];
+
+function toRadians(degrees: number): number {
+    return (degrees * Math.PI) / 180;
+}
+
+/**
+ * Great-circle distance between two coordinates, using the haversine formula.
+ */
+export function distanceInMeters(a: GeoPoint, b: GeoPoint): number {
+    const dLatitude = toRadians(b.latitude - a.latitude);
+    const dLongitude = toRadians(b.longitude - a.longitude);
+    const h = Math.sin(dLatitude / 2) ** 2
+        + Math.cos(toRadians(a.latitude)) * Math.cos(toRadians(b.latitude)) * Math.sin(dLongitude / 2) ** 2;
+    return 2 * EARTH_RADIUS_METERS * Math.asin(Math.min(1, Math.sqrt(h)));
+}
+
+/**
+ * Initial compass bearing from `a` towards `b`, in degrees clockwise from north.
+ */
+export function bearingInDegrees(a: GeoPoint, b: GeoPoint): number {
+    const dLongitude = toRadians(b.longitude - a.longitude);
+    const y = Math.sin(dLongitude) * Math.cos(toRadians(b.latitude));
+    const x = Math.cos(toRadians(a.latitude)) * Math.sin(toRadians(b.latitude))
+        - Math.sin(toRadians(a.latitude)) * Math.cos(toRadians(b.latitude)) * Math.cos(dLongitude);
+    return ((Math.atan2(y, x) * 180) / Math.PI + 360) % 360;
+}
+
+/**
+ * Names the nearest of the eight compass directions, e.g. "north-east".
+ */
+export function compassDirection(bearing: number): string {
+    return COMPASS_DIRECTIONS[Math.round(bearing / 45) % COMPASS_DIRECTIONS.length];
+}
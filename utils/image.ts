@@ -1,3 +1,6 @@
+import { PhotoMetadata } from '../types';
+import { blobToBase64 } from './encoding';
+
 /**
  * Converts a base64 string to a File object.
  * @param base64 The base64 encoded string.
@@ -15,3 +18,472 @@ export function base64toFile(base64: string, filename: string, mimeType: string)
     const blob = new Blob([byteArray], { type: mimeType });
     return new File([blob], filename, { type: mimeType });
 }
+
+/**
+ * Renders a small JPEG thumbnail of an image, suitable for list views.
+ * @param base64 The base64 encoded source image.
+ * @param mimeType The MIME type of the source image.
+ * @param maxSize The maximum width or height of the thumbnail in pixels.
+ * @returns A data URL of the thumbnail.
+ */
+export function createThumbnail(base64: string, mimeType: string, maxSize = 160): Promise<string> {
+    return new Promise((resolve, reject) => {
+        const image = new Image();
+        image.onload = () => {
+            const scale = Math.min(1, maxSize / Math.max(image.width, image.height));
+            const canvas = document.createElement('canvas');
+            canvas.width = Math.max(1, Math.round(image.width * scale));
+            canvas.height = Math.max(1, Math.round(image.height * scale));
+            const context = canvas.getContext('2d');
+            if (!context) {
+                reject(new Error("Could not create a canvas context for the thumbnail."));
+                return;
+            }
+            context.drawImage(image, 0, 0, canvas.width, canvas.height);
+            resolve(canvas.toDataURL('image/jpeg', 0.7));
+        };
+        image.onerror = () => reject(new Error("Could not load the image to create a thumbnail."));
+        image.src = `data:${mimeType};base64,${base64}`;
+    });
+}
+
+// EXIF tags, see https://www.cipa.jp/std/documents/e/DC-X008-Translation-2019-E.pdf
+const TAG_ORIENTATION = 0x0112;
+const TAG_EXIF_IFD = 0x8769;
+const TAG_GPS_IFD = 0x8825;
+const TAG_DATE_TIME_ORIGINAL = 0x9003;
+const TAG_OFFSET_TIME_ORIGINAL = 0x9011;
+const TAG_GPS_LATITUDE_REF = 0x0001;
+const TAG_GPS_LATITUDE = 0x0002;
+const TAG_GPS_LONGITUDE_REF = 0x0003;
+const TAG_GPS_LONGITUDE = 0x0004;
+const TAG_GPS_ALTITUDE_REF = 0x0005;
+const TAG_GPS_ALTITUDE = 0x0006;
+const TAG_GPS_IMG_DIRECTION = 0x0011;
+
+// Byte size of each TIFF field type, indexed by type id.
+const TIFF_TYPE_SIZES = [0, 1, 1, 2, 4, 8, 1, 1, 2, 4, 8, 4, 8];
+
+// JPEG APP1 segments and HEIC Exif items both sit near the start of the file.
+const EXIF_SCAN_BYTES = 512 * 1024;
+
+type TiffValue = number | number[] | string;
+
+/**
+ * Reads one IFD of a TIFF structure into a map of tag id to value.
+ */
+function readIfd(view: DataView, tiffStart: number, ifdOffset: number, littleEndian: boolean): Map<number, TiffValue> {
+    const tags = new Map<number, TiffValue>();
+    const entriesStart = tiffStart + ifdOffset;
+    if (entriesStart + 2 > view.byteLength) return tags;
+
+    const entryCount = view.getUint16(entriesStart, littleEndian);
+    for (let i = 0; i < entryCount; i++) {
+        const entry = entriesStart + 2 + i * 12;
+        if (entry + 12 > view.byteLength) break;
+
+        const tag = view.getUint16(entry, littleEndian);
+        const type = view.getUint16(entry + 2, littleEndian);
+        const count = view.getUint32(entry + 4, littleEndian);
+        const size = (TIFF_TYPE_SIZES[type] ?? 0) * count;
+        if (size === 0) continue;
+
+        const valueOffset = size <= 4 ? entry + 8 : tiffStart + view.getUint32(entry + 8, littleEndian);
+        if (valueOffset + size > view.byteLength) continue;
+
+        if (type === 2) {
+            let text = '';
+            for (let j = 0; j < count; j++) {
+                const code = view.getUint8(valueOffset + j);
+                if (code === 0) break;
+                text += String.fromCharCode(code);
+            }
+            tags.set(tag, text);
+            continue;
+        }
+
+        const values: number[] = [];
+        for (let j = 0; j < count; j++) {
+            switch (type) {
+                case 1: case 7: values.push(view.getUint8(valueOffset + j)); break;
+                case 3: values.push(view.getUint16(valueOffset + j * 2, littleEndian)); break;
+                case 4: values.push(view.getUint32(valueOffset + j * 4, littleEndian)); break;
+                case 9: values.push(view.getInt32(valueOffset + j * 4, littleEndian)); break;
+                case 5: case 10: {
+                    const read = type === 5 ? view.getUint32.bind(view) : view.getInt32.bind(view);
+                    const numerator = read(valueOffset + j * 8, littleEndian);
+                    const denominator = read(valueOffset + j * 8 + 4, littleEndian);
+                    values.push(denominator === 0 ? 0 : numerator / denominator);
+                    break;
+                }
+            }
+        }
+        tags.set(tag, values.length === 1 ? values[0] : values);
+    }
+    return tags;
+}
+
+function toDecimalDegrees(value: TiffValue | undefined, ref: TiffValue | undefined): number | undefined {
+    if (!Array.isArray(value) || value.length < 3) return undefined;
+    const degrees = value[0] + value[1] / 60 + value[2] / 3600;
+    return ref === 'S' || ref === 'W' ? -degrees : degrees;
+}
+
+/**
+ * Converts an EXIF "YYYY:MM:DD HH:MM:SS" timestamp (plus optional offset) to ISO 8601.
+ */
+function toIsoTimestamp(value: TiffValue | undefined, offset: TiffValue | undefined): string | undefined {
+    if (typeof value !== 'string') return undefined;
+    const match = value.match(/^(\d{4}):(\d{2}):(\d{2}) (\d{2}):(\d{2}):(\d{2})/);
+    if (!match) return undefined;
+    const [, year, month, day, hour, minute, second] = match;
+    const zone = typeof offset === 'string' && /^[+-]\d{2}:\d{2}$/.test(offset) ? offset : '';
+    return `${year}-${month}-${day}T${hour}:${minute}:${second}${zone}`;
+}
+
+/**
+ * Parses a TIFF structure (the body of an EXIF block) into photo metadata.
+ */
+function parseTiff(view: DataView, tiffStart: number): PhotoMetadata {
+    const byteOrder = view.getUint16(tiffStart);
+    const littleEndian = byteOrder === 0x4949;
+    if (!littleEndian && byteOrder !== 0x4d4d) return {};
+
+    const ifd0 = readIfd(view, tiffStart, view.getUint32(tiffStart + 4, littleEndian), littleEndian);
+    const exifOffset = ifd0.get(TAG_EXIF_IFD);
+    const gpsOffset = ifd0.get(TAG_GPS_IFD);
+    const exif = typeof exifOffset === 'number' ? readIfd(view, tiffStart, exifOffset, littleEndian) : new Map<number, TiffValue>();
+    const gps = typeof gpsOffset === 'number' ? readIfd(view, tiffStart, gpsOffset, littleEndian) : new Map<number, TiffValue>();
+
+    const metadata: PhotoMetadata = {};
+    const orientation = ifd0.get(TAG_ORIENTATION);
+    if (typeof orientation === 'number') metadata.orientation = orientation;
+
+    const capturedAt = toIsoTimestamp(exif.get(TAG_DATE_TIME_ORIGINAL), exif.get(TAG_OFFSET_TIME_ORIGINAL));
+    if (capturedAt) metadata.capturedAt = capturedAt;
+
+    const latitude = toDecimalDegrees(gps.get(TAG_GPS_LATITUDE), gps.get(TAG_GPS_LATITUDE_REF));
+    const longitude = toDecimalDegrees(gps.get(TAG_GPS_LONGITUDE), gps.get(TAG_GPS_LONGITUDE_REF));
+    if (latitude !== undefined && longitude !== undefined) {
+        metadata.latitude = latitude;
+        metadata.longitude = longitude;
+    }
+
+    const altitude = gps.get(TAG_GPS_ALTITUDE);
+    if (typeof altitude === 'number') {
+        metadata.altitude = gps.get(TAG_GPS_ALTITUDE_REF) === 1 ? -altitude : altitude;
+    }
+
+    const heading = gps.get(TAG_GPS_IMG_DIRECTION);
+    if (typeof heading === 'number') metadata.heading = heading;
+
+    return metadata;
+}
+
+/**
+ * Finds the TIFF header of the EXIF block in a JPEG file (APP1 segment).
+ */
+function findJpegTiffStart(view: DataView): number | null {
+    let offset = 2;
+    while (offset + 4 <= view.byteLength) {
+        if (view.getUint8(offset) !== 0xff) return null;
+        const marker = view.getUint8(offset + 1);
+        const length = view.getUint16(offset + 2);
+        // "Exif\0\0" identifier
+        if (marker === 0xe1 && offset + 10 <= view.byteLength && view.getUint32(offset + 4) === 0x45786966 && view.getUint16(offset + 8) === 0) {
+            return offset + 10;
+        }
+        // Start of scan: image data follows, no more metadata segments.
+        if (marker === 0xda) return null;
+        offset += 2 + length;
+    }
+    return null;
+}
+
+/**
+ * Finds the TIFF header of the Exif item in a HEIC/HEIF file. Rather than
+ * walking the full box structure, this scans for the "Exif\0\0" marker
+ * followed by a TIFF byte order mark, which covers files from common phones.
+ */
+function findHeicTiffStart(view: DataView): number | null {
+    for (let offset = 0; offset + 10 <= view.byteLength; offset++) {
+        if (view.getUint32(offset) === 0x45786966 && view.getUint16(offset + 4) === 0) {
+            const byteOrder = view.getUint16(offset + 6);
+            if (byteOrder === 0x4949 || byteOrder === 0x4d4d) {
+                return offset + 6;
+            }
+        }
+    }
+    return null;
+}
+
+function isHeif(view: DataView): boolean {
+    // ISO BMFF "ftyp" box at offset 4
+    return view.byteLength >= 12 && view.getUint32(4) === 0x66747970;
+}
+
+/**
+ * Extracts GPS position, heading, capture time and orientation from a photo's
+ * EXIF data. Supports JPEG and, where the Exif block can be located, HEIC.
+ * @param file The photo to read.
+ * @returns Whatever metadata was found; an empty object if none.
+ */
+export async function readPhotoMetadata(file: Blob): Promise<PhotoMetadata> {
+    try {
+        const view = new DataView(await file.slice(0, EXIF_SCAN_BYTES).arrayBuffer());
+        if (view.byteLength < 12) return {};
+
+        let tiffStart: number | null = null;
+        if (view.getUint16(0) === 0xffd8) {
+            tiffStart = findJpegTiffStart(view);
+        } else if (isHeif(view)) {
+            tiffStart = findHeicTiffStart(view);
+        }
+
+        return tiffStart === null ? {} : parseTiff(view, tiffStart);
+    } catch (error) {
+        console.error("Could not read photo metadata:", error);
+        return {};
+    }
+}
+
+/**
+ * Reads the device's current position via the Geolocation API, for photos
+ * taken in the app that carry no EXIF data.
+ * @param timeoutMs How long to wait for a position fix.
+ * @returns Metadata with the position and the current time; the position is
+ * omitted if it is unavailable or permission is denied.
+ */
+export function getCurrentPhotoMetadata(timeoutMs = 5000): Promise<PhotoMetadata> {
+    const metadata: PhotoMetadata = { capturedAt: new Date().toISOString() };
+    if (!('geolocation' in navigator)) {
+        return Promise.resolve(metadata);
+    }
+
+    return new Promise(resolve => {
+        navigator.geolocation.getCurrentPosition(
+            ({ coords }) => resolve({
+                ...metadata,
+                latitude: coords.latitude,
+                longitude: coords.longitude,
+                ...(coords.altitude !== null && { altitude: coords.altitude }),
+                ...(coords.heading !== null && !Number.isNaN(coords.heading) && { heading: coords.heading }),
+            }),
+            (error) => {
+                console.warn("Could not get the current location:", error.message);
+                resolve(metadata);
+            },
+            { enableHighAccuracy: true, timeout: timeoutMs, maximumAge: 60000 },
+        );
+    });
+}
+
+/**
+ * Grabs the current frame of a playing video as a JPEG, scaled down so its
+ * longest side is at most `maxSize` pixels.
+ * @param video The video element to capture.
+ * @param maxSize The maximum width or height of the frame in pixels.
+ * @param quality The JPEG quality, between 0 and 1.
+ * @returns The base64 encoded JPEG, or null if the video has no frame yet.
+ */
+export function captureVideoFrame(video: HTMLVideoElement, maxSize = 512, quality = 0.7): string | null {
+    if (!video.videoWidth || !video.videoHeight) return null;
+    const scale = Math.min(1, maxSize / Math.max(video.videoWidth, video.videoHeight));
+    const canvas = document.createElement('canvas');
+    canvas.width = Math.round(video.videoWidth * scale);
+    canvas.height = Math.round(video.videoHeight * scale);
+    const context = canvas.getContext('2d');
+    if (!context) return null;
+    context.drawImage(video, 0, 0, canvas.width, canvas.height);
+    return canvas.toDataURL('image/jpeg', quality).split(',')[1];
+}
+
+/**
+ * Computes a 64-bit difference hash of an image: each bit records whether a
+ * pixel of a 9×8 grayscale thumbnail is brighter than its right neighbour.
+ * Similar scenes produce hashes that differ in only a few bits.
+ * @param source The image or video frame to hash.
+ * @returns The hash as a string of 64 "0"/"1" characters, or null if the source cannot be drawn.
+ */
+export function computeImageHash(source: CanvasImageSource): string | null {
+    const canvas = document.createElement('canvas');
+    canvas.width = 9;
+    canvas.height = 8;
+    const context = canvas.getContext('2d', { willReadFrequently: true });
+    if (!context) return null;
+    context.drawImage(source, 0, 0, 9, 8);
+    const { data } = context.getImageData(0, 0, 9, 8);
+
+    let hash = '';
+    for (let y = 0; y < 8; y++) {
+        for (let x = 0; x < 8; x++) {
+            const left = (y * 9 + x) * 4;
+            const right = left + 4;
+            const leftLuma = data[left] * 0.299 + data[left + 1] * 0.587 + data[left + 2] * 0.114;
+            const rightLuma = data[right] * 0.299 + data[right + 1] * 0.587 + data[right + 2] * 0.114;
+            hash += leftLuma > rightLuma ? '1' : '0';
+        }
+    }
+    return hash;
+}
+
+/**
+ * Counts the bits that differ between two hashes from `computeImageHash`.
+ */
+export function hashDistance(a: string, b: string): number {
+    let distance = 0;
+    for (let i = 0; i < a.length; i++) {
+        if (a[i] !== b[i]) distance++;
+    }
+    return distance;
+}
+
+export type EncodedImageType = 'image/jpeg' | 'image/webp';
+
+export interface ImagePreprocessOptions {
+    /** The longest side of the prepared image, in pixels. */
+    maxDimension: number;
+    /** Format to re-encode to. WebP falls back to JPEG where the browser cannot encode it. */
+    mimeType: EncodedImageType;
+    /** Encoder quality, between 0 and 1. */
+    quality: number;
+    /** The longest side of the thumbnail, in pixels. */
+    thumbnailSize: number;
+}
+
+export interface PreparedImage {
+    file: File;
+    base64: string;
+    mimeType: EncodedImageType;
+    width: number;
+    height: number;
+    /** A small JPEG data URL for list views such as the history panel. */
+    thumbnail: string;
+}
+
+export const DEFAULT_IMAGE_PREPROCESS_OPTIONS: ImagePreprocessOptions = {
+    maxDimension: 1600,
+    mimeType: 'image/jpeg',
+    quality: 0.85,
+    thumbnailSize: 160,
+};
+
+const HEIC_MIME_TYPES = ['image/heic', 'image/heif', 'image/heic-sequence', 'image/heif-sequence'];
+
+async function isHeicFile(file: Blob): Promise<boolean> {
+    if (HEIC_MIME_TYPES.includes(file.type.toLowerCase())) return true;
+    if (file.type && file.type !== 'application/octet-stream') return false;
+    return isHeif(new DataView(await file.slice(0, 12).arrayBuffer()));
+}
+
+function loadImageElement(file: Blob): Promise<HTMLImageElement> {
+    return new Promise((resolve, reject) => {
+        const url = URL.createObjectURL(file);
+        const image = new Image();
+        image.onload = () => {
+            URL.revokeObjectURL(url);
+            resolve(image);
+        };
+        image.onerror = () => {
+            URL.revokeObjectURL(url);
+            reject(new Error("Could not decode the image."));
+        };
+        image.src = url;
+    });
+}
+
+/**
+ * Decodes an image and turns it upright according to its EXIF orientation.
+ * The browser applies the orientation in both paths: createImageBitmap is
+ * asked to, and <img> does it by default. createImageBitmap is tried first as
+ * it also decodes HEIC in browsers that support the format.
+ */
+async function decodeImage(file: Blob): Promise<ImageBitmap | HTMLImageElement> {
+    if (typeof createImageBitmap === 'function') {
+        try {
+            return await createImageBitmap(file, { imageOrientation: 'from-image' });
+        } catch (error) {
+            console.warn("createImageBitmap could not decode the image, falling back to <img>:", error);
+        }
+    }
+    return loadImageElement(file);
+}
+
+function canvasToBlob(canvas: HTMLCanvasElement, mimeType: string, quality: number): Promise<Blob | null> {
+    return new Promise(resolve => canvas.toBlob(resolve, mimeType, quality));
+}
+
+function replaceExtension(filename: string, mimeType: EncodedImageType): string {
+    const base = filename.replace(/\.[^./\\]+$/, '') || 'photo';
+    return `${base}.${mimeType === 'image/webp' ? 'webp' : 'jpg'}`;
+}
+
+/**
+ * Prepares a photo for upload and storage: decodes it (including HEIC where
+ * the browser supports it), turns it upright, scales it down so its longest
+ * side is at most `maxDimension` and re-encodes it. The re-encoded file no
+ * longer carries EXIF data, so read any metadata from the original first.
+ * @param file The photo as chosen or captured by the user.
+ * @param options How to scale and encode the photo.
+ * @returns The prepared image and its thumbnail.
+ */
+export async function preprocessImage(
+    file: File,
+    options: Partial<ImagePreprocessOptions> = {},
+): Promise<PreparedImage> {
+    const { maxDimension, mimeType, quality, thumbnailSize } = { ...DEFAULT_IMAGE_PREPROCESS_OPTIONS, ...options };
+
+    let source: ImageBitmap | HTMLImageElement;
+    try {
+        source = await decodeImage(file);
+    } catch (error) {
+        console.error("Could not decode image:", error);
+        if (await isHeicFile(file)) {
+            throw new Error("This browser can't open HEIC photos. Please convert the photo to JPEG, or set your camera to save photos in a compatible format.");
+        }
+        throw new Error("This file could not be read as an image. Please choose a JPEG, PNG or WebP photo.");
+    }
+
+    const scale = Math.min(1, maxDimension / Math.max(source.width, source.height));
+    const drawWidth = Math.max(1, Math.round(source.width * scale));
+    const drawHeight = Math.max(1, Math.round(source.height * scale));
+
+    const canvas = document.createElement('canvas');
+    canvas.width = drawWidth;
+    canvas.height = drawHeight;
+    const context = canvas.getContext('2d');
+    if (!context) {
+        throw new Error("Could not create a canvas context to prepare the image.");
+    }
+    context.drawImage(source, 0, 0, drawWidth, drawHeight);
+    if ('close' in source) {
+        source.close();
+    }
+
+    let blob = await canvasToBlob(canvas, mimeType, quality);
+    let encodedType: EncodedImageType = mimeType;
+    if (!blob || blob.type !== mimeType) {
+        // Browsers that cannot encode WebP silently return a PNG.
+        blob = await canvasToBlob(canvas, 'image/jpeg', quality);
+        encodedType = 'image/jpeg';
+    }
+    if (!blob) {
+        throw new Error("Could not encode the prepared image.");
+    }
+
+    const thumbnailScale = Math.min(1, thumbnailSize / Math.max(canvas.width, canvas.height));
+    const thumbnailCanvas = document.createElement('canvas');
+    thumbnailCanvas.width = Math.max(1, Math.round(canvas.width * thumbnailScale));
+    thumbnailCanvas.height = Math.max(1, Math.round(canvas.height * thumbnailScale));
+    thumbnailCanvas.getContext('2d')?.drawImage(canvas, 0, 0, thumbnailCanvas.width, thumbnailCanvas.height);
+
+    const prepared = new File([blob], replaceExtension(file.name, encodedType), { type: encodedType, lastModified: file.lastModified });
+    return {
+        file: prepared,
+        base64: await blobToBase64(prepared),
+        mimeType: encodedType,
+        width: canvas.width,
+        height: canvas.height,
+        thumbnail: thumbnailCanvas.toDataURL('image/jpeg', 0.7),
+    };
+}
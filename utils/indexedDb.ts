@@ -0,0 +1,23 @@
+/**
+ * Wraps an IndexedDB request in a promise.
+ * @param request The request to wait for.
+ * @returns The request's result.
+ */
+export function requestToPromise<T>(request: IDBRequest<T>): Promise<T> {
+    return new Promise((resolve, reject) => {
+        request.onsuccess = () => resolve(request.result);
+        request.onerror = () => reject(request.error);
+    });
+}
+
+/**
+ * Resolves once a transaction has committed, or rejects if it fails.
+ * @param transaction The transaction to wait for.
+ */
+export function transactionDone(transaction: IDBTransaction): Promise<void> {
+    return new Promise((resolve, reject) => {
+        transaction.oncomplete = () => resolve();
+        transaction.onerror = () => reject(transaction.error);
+        transaction.onabort = () => reject(transaction.error);
+    });
+}
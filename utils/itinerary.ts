@@ -0,0 +1,156 @@
+import { HistoryEntry, TourLeg, TourStop } from '../types';
+import { bearingInDegrees, compassDirection, distanceInMeters } from './geo';
+
+export interface EntryGroup {
+    id: string;
+    title: string;
+    entries: HistoryEntry[];
+}
+
+// Average walking pace, in meters per minute (about 4.8 km/h).
+const WALKING_METERS_PER_MINUTE = 80;
+// Stops within this distance of any other stop in a group belong to it.
+const DEFAULT_PROXIMITY_METERS = 1500;
+
+/**
+ * When an entry's photo was taken, falling back to when it was analyzed.
+ */
+function getVisitTime(entry: HistoryEntry): number {
+    const capturedAt = entry.photoMetadata?.capturedAt ? Date.parse(entry.photoMetadata.capturedAt) : NaN;
+    return Number.isNaN(capturedAt) ? entry.createdAt : capturedAt;
+}
+
+/**
+ * Groups history entries by the calendar day their photo was taken, newest
+ * day first.
+ * @param entries The history entries to group.
+ * @param locale The locale used for the group titles.
+ * @returns One group per day, each ordered by visit time.
+ */
+export function groupEntriesByDate(entries: HistoryEntry[], locale?: string): EntryGroup[] {
+    const groups = new Map<string, HistoryEntry[]>();
+    [...entries].sort((a, b) => getVisitTime(a) - getVisitTime(b)).forEach(entry => {
+        const date = new Date(getVisitTime(entry));
+        const key = `${date.getFullYear()}-${date.getMonth() + 1}-${date.getDate()}`;
+        groups.set(key, [...(groups.get(key) ?? []), entry]);
+    });
+
+    return Array.from(groups, ([key, grouped]) => ({
+        id: `date-${key}`,
+        title: new Date(getVisitTime(grouped[0])).toLocaleDateString(locale, { weekday: 'long', year: 'numeric', month: 'long', day: 'numeric' }),
+        entries: grouped,
+    })).reverse();
+}
+
+/**
+ * Groups entries whose landmarks are within walking distance of each other.
+ * Entries without a known location are left out.
+ * @param entries The history entries to group.
+ * @param maxGapMeters How far apart two neighbouring stops may be.
+ * @returns Groups of at least two entries, largest first.
+ */
+export function groupEntriesByProximity(entries: HistoryEntry[], maxGapMeters = DEFAULT_PROXIMITY_METERS): EntryGroup[] {
+    const located = entries.filter(entry => entry.location);
+    const groups: HistoryEntry[][] = [];
+
+    // Single-linkage clustering: an entry joins every group it is close to,
+    // merging those groups if it bridges several.
+    located.forEach(entry => {
+        const nearby = groups.filter(group => group.some(member => distanceInMeters(member.location!, entry.location!) <= maxGapMeters));
+        const merged = [...nearby.flat(), entry];
+        nearby.forEach(group => groups.splice(groups.indexOf(group), 1));
+        groups.push(merged);
+    });
+
+    return groups
+        .filter(group => group.length > 1)
+        .sort((a, b) => b.length - a.length)
+        .map(group => ({
+            id: `nearby-${group.map(entry => entry.id).sort().join('-')}`,
+            title: `Around ${group[0].name}`,
+            entries: group,
+        }));
+}
+
+/**
+ * Orders tour stops into a walkable route: starting from the first stop
+ * visited, each next stop is the nearest one not yet visited. Stops without
+ * a location follow in the order they were visited.
+ * @param entries The stops to order.
+ * @returns The stops in tour order.
+ */
+export function orderTourStops(entries: HistoryEntry[]): HistoryEntry[] {
+    const byVisit = [...entries].sort((a, b) => getVisitTime(a) - getVisitTime(b));
+    const remaining = byVisit.filter(entry => entry.location);
+    const unlocated = byVisit.filter(entry => !entry.location);
+    if (remaining.length === 0) return unlocated;
+
+    const route = [remaining.shift()!];
+    while (remaining.length > 0) {
+        const current = route[route.length - 1].location!;
+        let nearestIndex = 0;
+        remaining.forEach((entry, index) => {
+            if (distanceInMeters(current, entry.location!) < distanceInMeters(current, remaining[nearestIndex].location!)) {
+                nearestIndex = index;
+            }
+        });
+        route.push(...remaining.splice(nearestIndex, 1));
+    }
+    return [...route, ...unlocated];
+}
+
+/**
+ * Describes the walk between two consecutive stops. Distance and direction
+ * are only given when both stops have a known location.
+ */
+export function describeTourLeg(from: HistoryEntry, to: HistoryEntry): TourLeg {
+    if (!from.location || !to.location) {
+        return { from: from.name, to: to.name };
+    }
+    const distanceMeters = distanceInMeters(from.location, to.location);
+    return {
+        from: from.name,
+        to: to.name,
+        distanceMeters,
+        walkingMinutes: Math.max(1, Math.round(distanceMeters / WALKING_METERS_PER_MINUTE)),
+        direction: compassDirection(bearingInDegrees(from.location, to.location)),
+    };
+}
+
+/**
+ * Finds the history entry a tour stop narrates. Saving a new analysis of a
+ * landmark replaces the old entry, so a stop whose entry is gone falls back
+ * to the entry of the same name.
+ */
+export function findTourStopEntry(stop: TourStop, history: HistoryEntry[]): HistoryEntry | undefined {
+    return history.find(entry => entry.id === stop.entryId) ?? history.find(entry => entry.name === stop.name);
+}
+
+// Bridges two stops when no transition could be written, in each language of
+// LANGUAGE_OPTIONS. The stop name stands alone so no grammatical case is needed.
+const FALLBACK_TRANSITIONS: Record<string, (to: string) => string> = {
+    en: to => `Next, we continue to ${to}.`,
+    es: to => `A continuación, seguimos hacia ${to}.`,
+    fr: to => `Ensuite, nous continuons vers ${to}.`,
+    de: to => `Als Nächstes geht es weiter zu ${to}.`,
+    it: to => `Ora proseguiamo verso ${to}.`,
+    pt: to => `A seguir, continuamos até ${to}.`,
+    nl: to => `Vervolgens gaan we verder naar ${to}.`,
+    pl: to => `Następny przystanek: ${to}.`,
+    tr: to => `Sıradaki durak: ${to}.`,
+    ru: to => `Следующая остановка: ${to}.`,
+    ar: to => `المحطة التالية: ${to}.`,
+    hi: to => `अगला पड़ाव: ${to}।`,
+    ja: to => `次の目的地は${to}です。`,
+    ko: to => `다음 목적지: ${to}.`,
+    zh: to => `下一站：${to}。`,
+};
+
+/**
+ * A plain transition to the next stop, for legs the tour writer skipped.
+ * @param to The name of the next stop.
+ * @param language The tour's language; unknown languages fall back to English.
+ */
+export function fallbackTransition(to: string, language: string): string {
+    return (FALLBACK_TRANSITIONS[language] ?? FALLBACK_TRANSITIONS.en)(to);
+}
@@ -0,0 +1,48 @@
+import { LanguageOption } from '../types';
+
+export const DEFAULT_LANGUAGE = 'en';
+
+/** Languages offered for histories and narration, labelled in their own language. */
+export const LANGUAGE_OPTIONS: LanguageOption[] = [
+    { code: 'en', name: 'English' },
+    { code: 'es', name: 'Español' },
+    { code: 'fr', name: 'Français' },
+    { code: 'de', name: 'Deutsch' },
+    { code: 'it', name: 'Italiano' },
+    { code: 'pt', name: 'Português' },
+    { code: 'nl', name: 'Nederlands' },
+    { code: 'pl', name: 'Polski' },
+    { code: 'tr', name: 'Türkçe' },
+    { code: 'ru', name: 'Русский' },
+    { code: 'ar', name: 'العربية' },
+    { code: 'hi', name: 'हिन्दी' },
+    { code: 'ja', name: '日本語' },
+    { code: 'ko', name: '한국어' },
+    { code: 'zh', name: '中文' },
+];
+
+/**
+ * Picks the supported language closest to the browser's preferences, so
+ * visitors start out in their own language.
+ */
+export function getPreferredLanguage(): string {
+    const preferred = typeof navigator !== 'undefined' ? navigator.languages ?? [navigator.language] : [];
+    for (const tag of preferred) {
+        const code = tag.split('-')[0].toLowerCase();
+        if (LANGUAGE_OPTIONS.some(option => option.code === code)) {
+            return code;
+        }
+    }
+    return DEFAULT_LANGUAGE;
+}
+
+/**
+ * The English name of a language, e.g. "fr" → "French", for use in prompts.
+ */
+export function getEnglishLanguageName(code: string): string {
+    try {
+        return new Intl.DisplayNames(['en'], { type: 'language' }).of(code) ?? code;
+    } catch {
+        return code;
+    }
+}
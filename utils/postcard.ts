@@ -0,0 +1,354 @@
+import { LandmarkAnalysis } from '../types';
+import { base64ToBlob } from './encoding';
+import { formatCoordinates } from './format';
+import { getAnalysisLocation } from './geo';
+import { splitIntoSentences } from './text';
+
+export type PostcardFormat = 'square' | 'story' | 'card';
+
+/**
+ * Pixel sizes of each format: square for feeds, 9:16 for stories, and a
+ * square card with the photo filling it for apps that only show the image.
+ */
+export const POSTCARD_SIZES: Record<PostcardFormat, { width: number, height: number }> = {
+    square: { width: 1080, height: 1080 },
+    story: { width: 1080, height: 1920 },
+    card: { width: 1080, height: 1080 },
+};
+
+/** The formats with the photo above a text panel. */
+type PanelFormat = Exclude<PostcardFormat, 'card'>;
+
+interface PanelStyle {
+    /** Height of the photo at the top; the text panel fills the rest. */
+    photoHeight: number;
+    titleSize: number;
+    quoteSize: number;
+    maxQuoteLines: number;
+}
+
+const PANEL_STYLES: Record<PanelFormat, PanelStyle> = {
+    square: { photoHeight: 600, titleSize: 60, quoteSize: 34, maxQuoteLines: 3 },
+    story: { photoHeight: 1080, titleSize: 76, quoteSize: 44, maxQuoteLines: 6 },
+};
+
+const CARD_TITLE_SIZE = 72;
+const CARD_TITLE_LINE_HEIGHT = 84;
+const CARD_MAX_TITLE_LINES = 3;
+
+const PADDING = 72;
+const FONT_FAMILY = 'system-ui, -apple-system, "Segoe UI", Roboto, sans-serif';
+const BACKGROUND_COLOR = '#111827';
+const TRANSPARENT_BACKGROUND = 'rgba(17, 24, 39, 0)';
+const ACCENT_COLOR = '#22d3ee';
+
+export interface PostcardRect {
+    x: number;
+    y: number;
+    width: number;
+    height: number;
+}
+
+export interface PostcardText {
+    text: string;
+    x: number;
+    y: number;
+    font: string;
+    color: string;
+    align: CanvasTextAlign;
+    baseline: CanvasTextBaseline;
+    /** The text is squeezed to fit this width if it is wider. */
+    maxWidth?: number;
+}
+
+/** Where everything on a postcard goes, ready to be drawn. */
+export interface PostcardLayout {
+    width: number;
+    height: number;
+    /** The part of the postcard the photo shows in. */
+    photoClip: PostcardRect;
+    /** Where the whole photo is drawn; it covers `photoClip` and is cropped to it. */
+    photo: PostcardRect;
+    /** A vertical gradient from `from` at the top to `to` at the bottom, blending the photo into the text. */
+    fade: PostcardRect & { from: string, to: string };
+    bars: (PostcardRect & { color: string })[];
+    texts: PostcardText[];
+}
+
+/** Measures the width of text drawn in a CSS font. */
+export type MeasureText = (text: string, font: string) => number;
+
+/** What a postcard is drawn from. */
+export type PostcardContent = Pick<LandmarkAnalysis, 'name' | 'history' | 'imageBase64' | 'imageMimeType' | 'createdAt' | 'photoMetadata' | 'detectedLandmarks' | 'language'>;
+
+type Context2D = CanvasRenderingContext2D | OffscreenCanvasRenderingContext2D;
+
+/**
+ * Splits a landmark name like "Eiffel Tower, Paris, France" into the
+ * landmark itself and where it is.
+ */
+export function splitLandmarkName(name: string): { title: string, place: string | null } {
+    const [title, ...rest] = name.split(',').map(part => part.trim()).filter(Boolean);
+    return { title: title ?? name, place: rest.length > 0 ? rest.join(', ') : null };
+}
+
+/**
+ * Picks the opening sentences of the history to quote on the postcard.
+ * @param maxChars Sentences are added while the quote stays within this length.
+ * @returns The quote; the first sentence alone is cut short if it is too long.
+ */
+export function choosePullQuote(history: string, language?: string, maxChars = 180): string {
+    const sentences = splitIntoSentences(history.replace(/\s+/g, ' ').trim(), language);
+    let quote = '';
+    for (const sentence of sentences) {
+        const candidate = quote ? `${quote} ${sentence}` : sentence;
+        if (candidate.length > maxChars) break;
+        quote = candidate;
+    }
+    if (!quote && sentences[0]) {
+        quote = `${sentences[0].slice(0, maxChars - 1).trimEnd()}…`;
+    }
+    return quote;
+}
+
+/**
+ * Splits text into at most `maxLines` lines that fit within `maxWidth` in the
+ * given font. Text that doesn't fit ends with an ellipsis.
+ */
+function wrapText(measure: MeasureText, font: string, text: string, maxWidth: number, maxLines: number): string[] {
+    const lines: string[] = [];
+    let line = '';
+    for (const word of text.split(/\s+/)) {
+        const candidate = line ? `${line} ${word}` : word;
+        if (line && measure(candidate, font) > maxWidth) {
+            lines.push(line);
+            line = word;
+        } else {
+            line = candidate;
+        }
+    }
+    if (line) lines.push(line);
+
+    if (lines.length <= maxLines) return lines;
+    const kept = lines.slice(0, maxLines);
+    let last = kept[maxLines - 1];
+    while (last && measure(`${last}…`, font) > maxWidth) {
+        last = last.slice(0, -1);
+    }
+    kept[maxLines - 1] = `${last.trimEnd()}…`;
+    return kept;
+}
+
+/** Scales a photo to cover an area, centred, so the longer side is cropped. */
+function coverRect(photoSize: { width: number, height: number }, area: PostcardRect): PostcardRect {
+    const scale = Math.max(area.width / photoSize.width, area.height / photoSize.height);
+    const width = photoSize.width * scale;
+    const height = photoSize.height * scale;
+    return { x: area.x + (area.width - width) / 2, y: area.y + (area.height - height) / 2, width, height };
+}
+
+function createCanvas(width: number, height: number): { context: Context2D, toBlob: () => Promise<Blob> } {
+    // OffscreenCanvas also works off the main thread and in tests without a document.
+    if (typeof OffscreenCanvas !== 'undefined') {
+        const canvas = new OffscreenCanvas(width, height);
+        const context = canvas.getContext('2d');
+        if (!context) {
+            throw new Error("Could not create a canvas context for the postcard.");
+        }
+        return { context, toBlob: () => canvas.convertToBlob({ type: 'image/png' }) };
+    }
+
+    const canvas = document.createElement('canvas');
+    canvas.width = width;
+    canvas.height = height;
+    const context = canvas.getContext('2d');
+    if (!context) {
+        throw new Error("Could not create a canvas context for the postcard.");
+    }
+    return {
+        context,
+        toBlob: () => new Promise((resolve, reject) => {
+            canvas.toBlob(blob => blob ? resolve(blob) : reject(new Error("Could not encode the postcard.")), 'image/png');
+        }),
+    };
+}
+
+/**
+ * The date and place printed at the bottom of the postcard, e.g.
+ * "12 May 2024 · 48.8584° N, 2.2945° E".
+ */
+function describeWhenAndWhere(content: PostcardContent): string {
+    const capturedAt = content.photoMetadata?.capturedAt ? new Date(content.photoMetadata.capturedAt) : null;
+    const date = capturedAt && !Number.isNaN(capturedAt.getTime()) ? capturedAt : new Date(content.createdAt);
+    const parts = [date.toLocaleDateString(content.language, { dateStyle: 'long' })];
+    const location = getAnalysisLocation(content);
+    if (location) {
+        parts.push(formatCoordinates(location.latitude, location.longitude));
+    }
+    return parts.join(' · ');
+}
+
+/**
+ * Lays out the square and story formats: the photo on top, fading into a
+ * panel with the place, the name, a quote from the history, when and where
+ * the photo was taken and the app's name.
+ */
+function layoutPanelPostcard(content: PostcardContent, format: PanelFormat, photoSize: { width: number, height: number }, measure: MeasureText): PostcardLayout {
+    const { width, height } = POSTCARD_SIZES[format];
+    const style = PANEL_STYLES[format];
+    const textWidth = width - PADDING * 2;
+    const photoClip = { x: 0, y: 0, width, height: style.photoHeight };
+    const texts: PostcardText[] = [];
+    const bars: PostcardLayout['bars'] = [];
+
+    const { title, place } = splitLandmarkName(content.name);
+    let y = style.photoHeight + 24;
+
+    if (place) {
+        texts.push({
+            text: place.toUpperCase(), x: PADDING, y, maxWidth: textWidth,
+            font: `600 ${Math.round(style.titleSize * 0.45)}px ${FONT_FAMILY}`, color: ACCENT_COLOR, align: 'left', baseline: 'top',
+        });
+        y += Math.round(style.titleSize * 0.75);
+    }
+
+    const titleFont = `bold ${style.titleSize}px ${FONT_FAMILY}`;
+    for (const line of wrapText(measure, titleFont, title, textWidth, 2)) {
+        texts.push({ text: line, x: PADDING, y, font: titleFont, color: '#ffffff', align: 'left', baseline: 'top' });
+        y += Math.round(style.titleSize * 1.15);
+    }
+    y += Math.round(style.quoteSize * 0.6);
+
+    const quote = choosePullQuote(content.history, content.language);
+    if (quote) {
+        const quoteFont = `italic ${style.quoteSize}px ${FONT_FAMILY}`;
+        const lines = wrapText(measure, quoteFont, `“${quote}”`, textWidth - 36, style.maxQuoteLines);
+        const lineHeight = Math.round(style.quoteSize * 1.4);
+        bars.push({ x: PADDING, y, width: 6, height: lines.length * lineHeight, color: ACCENT_COLOR });
+        for (const line of lines) {
+            texts.push({ text: line, x: PADDING + 36, y, font: quoteFont, color: '#e5e7eb', align: 'left', baseline: 'top' });
+            y += lineHeight;
+        }
+    }
+
+    const footerY = height - PADDING;
+    texts.push({
+        text: describeWhenAndWhere(content), x: PADDING, y: footerY, maxWidth: textWidth * 0.65,
+        font: `${Math.round(style.quoteSize * 0.75)}px ${FONT_FAMILY}`, color: '#9ca3af', align: 'left', baseline: 'bottom',
+    });
+
+    const brandFont = `bold ${Math.round(style.quoteSize * 0.9)}px ${FONT_FAMILY}`;
+    const brandAccent = 'Lens';
+    texts.push(
+        { text: 'Landmark', x: width - PADDING - measure(brandAccent, brandFont), y: footerY, font: brandFont, color: '#ffffff', align: 'right', baseline: 'bottom' },
+        { text: brandAccent, x: width - PADDING, y: footerY, font: brandFont, color: ACCENT_COLOR, align: 'right', baseline: 'bottom' },
+    );
+
+    return {
+        width,
+        height,
+        photoClip,
+        photo: coverRect(photoSize, photoClip),
+        fade: { x: 0, y: style.photoHeight - 200, width, height: 200, from: TRANSPARENT_BACKGROUND, to: BACKGROUND_COLOR },
+        bars,
+        texts,
+    };
+}
+
+/**
+ * Lays out the card format: the photo fills the card and darkens towards the
+ * bottom, where the landmark's name and the app's name sit over it.
+ */
+function layoutCardPostcard(content: PostcardContent, photoSize: { width: number, height: number }, measure: MeasureText): PostcardLayout {
+    const { width, height } = POSTCARD_SIZES.card;
+    const photoClip = { x: 0, y: 0, width, height };
+    const brandY = height - PADDING;
+
+    const titleFont = `bold ${CARD_TITLE_SIZE}px ${FONT_FAMILY}`;
+    const lines = wrapText(measure, titleFont, content.name, width - PADDING * 2, CARD_MAX_TITLE_LINES);
+    const texts: PostcardText[] = lines.map((line, index) => ({
+        text: line,
+        x: PADDING,
+        y: brandY - 64 - (lines.length - 1 - index) * CARD_TITLE_LINE_HEIGHT,
+        font: titleFont,
+        color: '#ffffff',
+        align: 'left',
+        baseline: 'bottom',
+    }));
+    texts.push({ text: 'LandmarkLens', x: PADDING, y: brandY, font: `600 36px ${FONT_FAMILY}`, color: ACCENT_COLOR, align: 'left', baseline: 'bottom' });
+
+    const fadeTop = Math.round(height * 0.45);
+    return {
+        width,
+        height,
+        photoClip,
+        photo: coverRect(photoSize, photoClip),
+        fade: { x: 0, y: fadeTop, width, height: height - fadeTop, from: TRANSPARENT_BACKGROUND, to: 'rgba(17, 24, 39, 0.9)' },
+        bars: [],
+        texts,
+    };
+}
+
+/**
+ * Works out where the photo, shapes and text of a postcard go, without
+ * drawing anything.
+ * @param content The analysis to lay out.
+ * @param format The postcard format.
+ * @param photoSize The natural size of the analysis photo.
+ * @param measure Measures text as the canvas it is drawn on would.
+ */
+export function layoutPostcard(content: PostcardContent, format: PostcardFormat, photoSize: { width: number, height: number }, measure: MeasureText): PostcardLayout {
+    return format === 'card'
+        ? layoutCardPostcard(content, photoSize, measure)
+        : layoutPanelPostcard(content, format, photoSize, measure);
+}
+
+/**
+ * Renders a postcard of an analysis, as laid out by layoutPostcard. The
+ * result depends only on its arguments.
+ * @param content The analysis to render.
+ * @param format Square (1080×1080) or card (1080×1080) for feeds, or story (1080×1920).
+ * @returns The postcard as a PNG.
+ */
+export async function renderPostcard(content: PostcardContent, format: PostcardFormat): Promise<Blob> {
+    const { width, height } = POSTCARD_SIZES[format];
+    const { context, toBlob } = createCanvas(width, height);
+    const photo = await createImageBitmap(base64ToBlob(content.imageBase64, content.imageMimeType));
+    const layout = layoutPostcard(content, format, photo, (text, font) => {
+        context.font = font;
+        return context.measureText(text).width;
+    });
+
+    context.fillStyle = BACKGROUND_COLOR;
+    context.fillRect(0, 0, width, height);
+
+    const { photoClip, photo: photoRect, fade } = layout;
+    context.save();
+    context.beginPath();
+    context.rect(photoClip.x, photoClip.y, photoClip.width, photoClip.height);
+    context.clip();
+    context.drawImage(photo, photoRect.x, photoRect.y, photoRect.width, photoRect.height);
+    context.restore();
+    photo.close();
+
+    const gradient = context.createLinearGradient(0, fade.y, 0, fade.y + fade.height);
+    gradient.addColorStop(0, fade.from);
+    gradient.addColorStop(1, fade.to);
+    context.fillStyle = gradient;
+    context.fillRect(fade.x, fade.y, fade.width, fade.height);
+
+    for (const bar of layout.bars) {
+        context.fillStyle = bar.color;
+        context.fillRect(bar.x, bar.y, bar.width, bar.height);
+    }
+
+    for (const text of layout.texts) {
+        context.font = text.font;
+        context.fillStyle = text.color;
+        context.textAlign = text.align;
+        context.textBaseline = text.baseline;
+        context.fillText(text.text, text.x, text.y, text.maxWidth);
+    }
+
+    return toBlob();
+}
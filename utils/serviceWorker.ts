@@ -0,0 +1,11 @@
+/**
+ * Registers the service worker that keeps the app usable offline. Skipped in
+ * development, where a cached shell would hide code changes.
+ */
+export function registerServiceWorker(): void {
+    if (!('serviceWorker' in navigator) || process.env.NODE_ENV !== 'production') return;
+    window.addEventListener('load', () => {
+        navigator.serviceWorker.register('/sw.js')
+            .catch(error => console.error("Could not register the service worker:", error));
+    });
+}
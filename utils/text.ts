@@ -0,0 +1,61 @@
+/**
+ * Splits text into sentences, using Intl.Segmenter where available so
+ * abbreviations and non-Latin punctuation are handled properly.
+ * @param text The text to split.
+ * @param locale The language of the text, if known.
+ * @returns The sentences, trimmed, without empty entries.
+ */
+export function splitIntoSentences(text: string, locale?: string): string[] {
+    if (typeof Intl !== 'undefined' && 'Segmenter' in Intl) {
+        const segmenter = new Intl.Segmenter(locale, { granularity: 'sentence' });
+        return Array.from(segmenter.segment(text), ({ segment }) => segment.trim()).filter(Boolean);
+    }
+    return (text.match(/[^.!?。！？]+[.!?。！？]+["'”’)]*|[^.!?。！？]+$/g) ?? [])
+        .map(sentence => sentence.trim())
+        .filter(Boolean);
+}
+
+/**
+ * Groups sentences into chunks for speech synthesis. The first chunk is kept
+ * to a single sentence so playback can start as early as possible; later
+ * chunks are packed up to `maxChars` to limit the number of requests.
+ * @param sentences The sentences, in order.
+ * @param maxChars The soft size limit of every chunk after the first.
+ * @returns The chunks, in order.
+ */
+export function chunkSentences(sentences: string[], maxChars = 400): string[] {
+    const [first, ...rest] = sentences;
+    if (first === undefined) return [];
+
+    const chunks = [first];
+    let current = '';
+    rest.forEach(sentence => {
+        if (current && current.length + sentence.length + 1 > maxChars) {
+            chunks.push(current);
+            current = sentence;
+        } else {
+            current = current ? `${current} ${sentence}` : sentence;
+        }
+    });
+    if (current) chunks.push(current);
+    return chunks;
+}
+
+/**
+ * Estimates when each sentence starts in a narration of the text, assuming
+ * the speaker reads at a constant rate of characters per second.
+ * @param sentences The sentences, in order.
+ * @param totalDuration The duration of the whole narration, in seconds.
+ * @returns The start time of every sentence, in seconds.
+ */
+export function estimateSentenceStarts(sentences: string[], totalDuration: number): number[] {
+    const totalChars = sentences.reduce((sum, sentence) => sum + sentence.length, 0);
+    if (totalChars === 0) return sentences.map(() => 0);
+
+    let chars = 0;
+    return sentences.map(sentence => {
+        const start = (chars / totalChars) * totalDuration;
+        chars += sentence.length;
+        return start;
+    });
+}
@@ -0,0 +1,61 @@
+import { TourLength, TourOptions, TourStyle } from '../types';
+
+const STORAGE_KEY = 'landmarkTourOptions';
+
+export const DEFAULT_TOUR_OPTIONS: TourOptions = { style: 'standard', length: 'medium' };
+
+export const TOUR_STYLE_OPTIONS: { id: TourStyle, name: string, description: string }[] = [
+    { id: 'standard', name: 'Classic tour', description: 'A friendly overview for any visitor.' },
+    { id: 'kids', name: 'For kids', description: 'Simple words, fun facts and questions to spark curiosity.' },
+    { id: 'architecture', name: 'Architecture deep-dive', description: 'Styles, materials, engineering and the people who built it.' },
+    { id: 'quick-facts', name: 'Quick facts', description: 'The essentials: dates, numbers and must-see details.' },
+    { id: 'storytelling', name: 'Storytelling', description: 'The history told as a vivid story with real characters.' },
+    { id: 'legends', name: 'Local legends', description: 'Myths, folklore and tales told by locals.' },
+];
+
+export const TOUR_LENGTH_OPTIONS: { id: TourLength, name: string, seconds: number }[] = [
+    { id: 'short', name: '30 sec', seconds: 30 },
+    { id: 'medium', name: '2 min', seconds: 120 },
+    { id: 'long', name: '5 min', seconds: 300 },
+];
+
+/**
+ * Loads the tour style and length the user last chose, falling back to the
+ * defaults for anything missing or unrecognised.
+ */
+export function loadTourOptions(): TourOptions {
+    try {
+        const saved = JSON.parse(localStorage.getItem(STORAGE_KEY) ?? 'null');
+        return {
+            style: TOUR_STYLE_OPTIONS.some(option => option.id === saved?.style) ? saved.style : DEFAULT_TOUR_OPTIONS.style,
+            length: TOUR_LENGTH_OPTIONS.some(option => option.id === saved?.length) ? saved.length : DEFAULT_TOUR_OPTIONS.length,
+        };
+    } catch (error) {
+        console.error("Could not load tour options:", error);
+        return DEFAULT_TOUR_OPTIONS;
+    }
+}
+
+export function saveTourOptions(options: TourOptions): void {
+    try {
+        localStorage.setItem(STORAGE_KEY, JSON.stringify(options));
+    } catch (error) {
+        console.error("Could not save tour options:", error);
+    }
+}
+
+/**
+ * The target narration length in seconds for a tour length preset.
+ */
+export function getTourSeconds(length: TourLength): number {
+    return TOUR_LENGTH_OPTIONS.find(option => option.id === length)!.seconds;
+}
+
+/**
+ * A short label for a tour's options, e.g. "For kids · 2 min".
+ */
+export function describeTourOptions(options: TourOptions): string {
+    const style = TOUR_STYLE_OPTIONS.find(option => option.id === options.style)?.name ?? options.style;
+    const length = TOUR_LENGTH_OPTIONS.find(option => option.id === options.length)?.name ?? options.length;
+    return `${style} · ${length}`;
+}
@@ -1,7 +1,40 @@
 import path from 'path';
-import { defineConfig, loadEnv } from 'vite';
+import fs from 'fs';
+import { createHash } from 'crypto';
+import { defineConfig, loadEnv, Plugin } from 'vite';
 import react from '@vitejs/plugin-react';
 
+const SW_BUILD_PLACEHOLDER = "{ id: 'dev', assets: [] }";
+
+/**
+ * Writes the build's output files into the copy of public/sw.js, so the
+ * service worker precaches the entry script and styles at install.
+ */
+function precacheManifest(): Plugin {
+    let base = '/';
+    return {
+      name: 'landmarklens-precache-manifest',
+      apply: 'build',
+      configResolved(config) {
+        base = config.base;
+      },
+      writeBundle(options, bundle) {
+        const workerPath = path.join(options.dir!, 'sw.js');
+        if (!fs.existsSync(workerPath)) return;
+        const assets = Object.keys(bundle)
+          .filter(fileName => fileName !== 'index.html' && !fileName.endsWith('.map'))
+          .sort()
+          .map(fileName => base + fileName);
+        const id = createHash('sha256').update(assets.join('\n')).digest('hex').slice(0, 12);
+        const source = fs.readFileSync(workerPath, 'utf8');
+        if (!source.includes(SW_BUILD_PLACEHOLDER)) {
+          this.error('public/sw.js no longer declares the BUILD placeholder.');
+        }
+        fs.writeFileSync(workerPath, source.replace(SW_BUILD_PLACEHOLDER, JSON.stringify({ id, assets })));
+      },
+    };
+}
+
 export default defineConfig(({ mode }) => {
     const env = loadEnv(mode, '.', '');
     return {
@@ -9,10 +42,15 @@ export default defineConfig(({ mode }) => {
         port: 3000,
         host: '0.0.0.0',
       },
-      plugins: [react()],
+      plugins: [react(), precacheManifest()],
       define: {
         'process.env.API_KEY': JSON.stringify(env.GEMINI_API_KEY),
-        'process.env.GEMINI_API_KEY': JSON.stringify(env.GEMINI_API_KEY)
+        'process.env.GEMINI_API_KEY': JSON.stringify(env.GEMINI_API_KEY),
+        'process.env.AI_PROVIDER': JSON.stringify(env.AI_PROVIDER ?? ''),
+        'process.env.MOCK_LATENCY_MS': JSON.stringify(env.MOCK_LATENCY_MS ?? ''),
+        'process.env.MAP_TILE_URL': JSON.stringify(env.MAP_TILE_URL ?? ''),
+        'process.env.MAP_TILE_ATTRIBUTION': JSON.stringify(env.MAP_TILE_ATTRIBUTION ?? ''),
+        'process.env.SHARE_STORE_URL': JSON.stringify(env.SHARE_STORE_URL ?? '')
       },
       resolve: {
         alias: {